@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import type { SimulationInputParameters } from '@/app/simulation-results'
+import type { SimulationStreamEvent } from '@/app/simulation-stream'
+import { POST } from './route'
+
+const VALID_INPUTS: SimulationInputParameters = {
+  chargepointGroups: [{ count: 2, powerKw: 11, connector: 'type2' }],
+  arrivalMultiplier: 100,
+  carConsumptionKwh100km: 18,
+  seasonality: 'none',
+  maxQueueLength: 5,
+  driverPatienceMinutes: 30,
+  gridConnectionLimitKw: 0,
+  loadManagementStrategy: 'equal-share',
+  demandProfile: 'none',
+  dwellTimeProfile: 'none',
+  tickMinutes: 60,
+  startDate: '2023-01-01',
+  timeZone: 'UTC',
+  holidays: [],
+  dayTypeProfile: 'uniform',
+  monteCarloRuns: 2,
+}
+
+function postSimulation(body: string): Promise<Response> {
+  return POST(new Request('http://localhost/api/simulate', { method: 'POST', body }))
+}
+
+describe('POST /api/simulate', () => {
+  it('streams progress and then the results', async () => {
+    const response = await postSimulation(JSON.stringify(VALID_INPUTS))
+    expect(response.status).toBe(200)
+
+    const events = (await response.text())
+      .split('\n\n')
+      .filter(Boolean)
+      .map((message) => JSON.parse(message.slice('data: '.length)) as SimulationStreamEvent)
+    expect(events.at(0)?.type).toBe('progress')
+    expect(events.at(-1)?.type).toBe('result')
+  })
+
+  it.each([
+    ['a body that is not JSON', '{', /JSON/],
+    ['a missing field', JSON.stringify({ ...VALID_INPUTS, monteCarloRuns: undefined }), /monteCarloRuns/],
+    ['a station without chargepoints', JSON.stringify({ ...VALID_INPUTS, chargepointGroups: [] }), /chargepoint/],
+    ['an out-of-range config value', JSON.stringify({ ...VALID_INPUTS, tickMinutes: 7 }), /tickMinutes/],
+  ])('answers %s with status 400', async (_, body, message) => {
+    const response = await postSimulation(body)
+    expect(response.status).toBe(400)
+    expect(((await response.json()) as { error: string }).error).toMatch(message)
+  })
+})
@@ -0,0 +1,103 @@
+/**
+ * @file app/api/simulate/route.ts
+ * @description Streams a dashboard simulation run as server-sent events: progress updates with provisional
+ * results while the run is going, then the final results. Disconnecting aborts the run.
+ */
+import {
+  buildSimulationProgress,
+  buildSimulationResults,
+  createDashboardSimulation,
+  iterateDashboardMonteCarlo,
+  parseSimulationInputParameters,
+  PROGRESS_INTERVAL_DAYS,
+  type SimulationInputParameters,
+} from '@/app/simulation-results'
+import { encodeSimulationStreamEvent, type SimulationStreamEvent } from '@/app/simulation-stream'
+import type { EVChargingSimulation } from '@/lib/simulation'
+import type { MonteCarloResult } from '@/lib/simulation/monte-carlo'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Hands control back to the event loop, so queued updates are flushed and a disconnect can abort the run.
+ * @returns {Promise<void>} Resolves on the next turn of the event loop.
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0))
+}
+
+/**
+ * Runs the simulation described by the request body and streams its progress and results.
+ * @async
+ * @function POST
+ * @param {Request} request - A request with `SimulationInputParameters` as its JSON body.
+ * @returns {Promise<Response>} A `text/event-stream` response of `SimulationStreamEvent`s, or status 400 with an
+ * `error` message if the body is not valid JSON or not valid simulation inputs.
+ */
+export async function POST(request: Request): Promise<Response> {
+  // Stops the run when the client disconnects or stops reading
+  const abortController = new AbortController()
+  request.signal.addEventListener('abort', () => abortController.abort())
+
+  let params: SimulationInputParameters
+  let simulation: EVChargingSimulation
+  try {
+    params = parseSimulationInputParameters(await request.json())
+    simulation = createDashboardSimulation(params, { signal: abortController.signal })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    console.warn('[Stream] Rejected simulation request:', message)
+    return Response.json({ error: message }, { status: 400 })
+  }
+  console.log('[Stream] Received simulation request with params:', params)
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: SimulationStreamEvent) =>
+        controller.enqueue(encoder.encode(encodeSimulationStreamEvent(event)))
+      try {
+        const ticksPerUpdate = PROGRESS_INTERVAL_DAYS * simulation.calendar.ticksPerDay
+        while (!simulation.isComplete()) {
+          simulation.step(ticksPerUpdate)
+          send({ type: 'progress', progress: buildSimulationProgress(simulation, params) })
+          await yieldToEventLoop()
+        }
+        // One seed at a time, so a disconnect during the Monte Carlo runs stops them too
+        const monteCarloRuns = iterateDashboardMonteCarlo(params, { signal: abortController.signal })
+        let monteCarlo: MonteCarloResult | null = null
+        if (monteCarloRuns) {
+          let completedRuns = 0
+          let next = monteCarloRuns.next()
+          while (!next.done) {
+            send({ type: 'progress', progress: buildSimulationProgress(simulation, params, ++completedRuns) })
+            await yieldToEventLoop()
+            next = monteCarloRuns.next()
+          }
+          monteCarlo = next.value
+        }
+        send({ type: 'result', results: buildSimulationResults(simulation, params, monteCarlo) })
+        console.log(`[Stream] Simulated ${simulation.stats.getSimulatedDays()} days.`)
+      } catch (error) {
+        if (abortController.signal.aborted) {
+          console.log('[Stream] Simulation cancelled by the client.')
+          return
+        }
+        console.error('[Stream] Simulation failed:', error)
+        send({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+      }
+      controller.close()
+    },
+    cancel() {
+      abortController.abort()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
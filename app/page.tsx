@@ -3,11 +3,12 @@
  * @description Main dashboard page for the EV Charging Simulation application.
  * This client component handles user interactions for running simulations,
  * displaying results, and managing application state related to the dashboard.
- * Results are shown only after the first manual simulation run.
+ * Results are shown only after the first manual simulation run. Runs are streamed from the server or executed in
+ * a Web Worker, as the user chooses, so provisional results are shown while the simulation is still going.
  */
 'use client'
 
-import { useState, useTransition, useRef } from 'react'
+import { useEffect, useState, useRef } from 'react'
 import { toast as sonnerToast } from 'sonner'
 import { isEqual } from 'lodash-es'
 
@@ -15,8 +16,8 @@ import { SimulationForm } from '@/components/simulation/simulation-form'
 import { SimulationResultsDisplay } from '@/components/simulation/simulation-results-display'
 import { Header } from '@/components/layout/header'
 
-import type { SimulationInputParameters, SimulationOutputResults } from './actions'
-import { runSimulationAction } from './actions'
+import type { SimulationInputParameters, SimulationOutputResults, SimulationProgressUpdate } from './actions'
+import { runSimulation, type SimulationExecutionMode } from './simulation-stream'
 
 /**
  * DashboardPage component.
@@ -26,19 +27,43 @@ import { runSimulationAction } from './actions'
  */
 export default function DashboardPage() {
   const [simulationResults, setSimulationResults] = useState<SimulationOutputResults | null>(null)
-  const [isSubmitting, startTransition] = useTransition()
+  const [simulationProgress, setSimulationProgress] = useState<SimulationProgressUpdate | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [executionMode, setExecutionMode] = useState<SimulationExecutionMode>('server')
   const lastSubmittedParamsRef = useRef<SimulationInputParameters | null>(null)
+  const lastExecutionModeRef = useRef<SimulationExecutionMode | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  // Stop a running simulation when the page is left
+  useEffect(() => () => abortControllerRef.current?.abort(), [])
 
   const defaultInputs: SimulationInputParameters = {
-    numChargepoints: 20,
+    chargepointGroups: [{ count: 20, powerKw: 11, connector: 'type2' }],
     arrivalMultiplier: 100,
     carConsumptionKwh100km: 18,
-    chargepointPowerKw: 11,
+    seasonality: 'none',
+    maxQueueLength: 5,
+    driverPatienceMinutes: 30,
+    gridConnectionLimitKw: 0,
+    loadManagementStrategy: 'equal-share',
+    demandProfile: 'none',
+    dwellTimeProfile: 'none',
+    tickMinutes: 15,
+    startDate: '2023-01-01',
+    timeZone: 'UTC',
+    holidays: [],
+    dayTypeProfile: 'uniform',
+    monteCarloRuns: 1,
   }
 
   const handleRunSimulation = async (values: SimulationInputParameters): Promise<void> => {
     // No 'isInitialRun' parameter needed anymore for this function here
-    if (lastSubmittedParamsRef.current && isEqual(values, lastSubmittedParamsRef.current)) {
+    // Switching between server and browser execution reruns the same parameters
+    if (
+      lastSubmittedParamsRef.current &&
+      isEqual(values, lastSubmittedParamsRef.current) &&
+      executionMode === lastExecutionModeRef.current
+    ) {
       sonnerToast.info('No Changes Detected', {
         description: 'Simulation parameters are the same as the last run. Results remain unchanged.',
         duration: 2000,
@@ -46,22 +71,39 @@ export default function DashboardPage() {
       return
     }
 
-    startTransition(async () => {
-      try {
-        const results = await runSimulationAction(values)
-        setSimulationResults(results) // This will trigger the animation inside SimulationResultsDisplay
-        lastSubmittedParamsRef.current = values
-        sonnerToast.success('Simulation Complete', {
-          description: `Successfully ran simulation for ${values.numChargepoints} chargepoints.`,
-          duration: 3000,
-        })
-      } catch (error) {
-        console.error('Simulation error:', error)
-        sonnerToast.error('Simulation Failed', {
-          description: 'An error occurred while running the simulation. Check console for details.',
-        })
+    abortControllerRef.current?.abort()
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    setIsSubmitting(true)
+    setSimulationProgress(null)
+    try {
+      const results = await runSimulation(executionMode, values, {
+        onProgress: setSimulationProgress,
+        signal: abortController.signal,
+      })
+      setSimulationResults(results) // This will trigger the animation inside SimulationResultsDisplay
+      lastSubmittedParamsRef.current = values
+      lastExecutionModeRef.current = executionMode
+      sonnerToast.success('Simulation Complete', {
+        description: `Successfully ran simulation for ${values.chargepointGroups.reduce((sum, group) => sum + group.count, 0)} chargepoints ${executionMode === 'browser' ? 'in the browser' : 'on the server'}.`,
+        duration: 3000,
+      })
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        return
       }
-    })
+      console.error('Simulation error:', error)
+      sonnerToast.error('Simulation Failed', {
+        description: 'An error occurred while running the simulation. Check console for details.',
+      })
+    } finally {
+      // A newer run owns the state once it has started
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null
+        setSimulationProgress(null)
+        setIsSubmitting(false)
+      }
+    }
   }
 
   return (
@@ -72,12 +114,17 @@ export default function DashboardPage() {
           <SimulationForm
             onSubmit={handleRunSimulation}
             isSubmitting={isSubmitting}
+            executionMode={executionMode}
+            onExecutionModeChange={setExecutionMode}
             initialValues={defaultInputs}
             className="md:sticky md:top-[calc(3.5rem+1.5rem)]"
           />
         </div>
         <div className="min-w-0 flex-1">
-          <SimulationResultsDisplay results={simulationResults} />
+          <SimulationResultsDisplay
+            results={simulationProgress?.provisionalResults ?? simulationResults}
+            progress={simulationProgress}
+          />
         </div>
       </main>
     </div>
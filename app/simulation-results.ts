@@ -0,0 +1,626 @@
+/**
+ * @file app/simulation-results.ts
+ * @description Maps the dashboard inputs to a simulation and a simulation run to the results the dashboard shows.
+ * Shared by the sweep action, the streaming route in app/api/simulate and the in-browser worker.
+ */
+import * as z from 'zod'
+import { EVChargingSimulation, selectSimulationEngine, type SimulationOptions } from '@/lib/simulation'
+import type { ChargingSession } from '@/lib/simulation/session'
+import type { LoadManagementStrategyName } from '@/lib/simulation/load-management'
+import {
+  iterateMonteCarlo,
+  runMonteCarlo,
+  type MonteCarloOptions,
+  type MonteCarloResult,
+} from '@/lib/simulation/monte-carlo'
+import {
+  CHARGING_DEMAND_KM_BY_HOUR_PRESETS,
+  DEFAULT_SIMULATION_SEED,
+  DWELL_TIME_MINUTES_PRESETS,
+  MAX_MONTE_CARLO_RUNS,
+  HOURS_PER_DAY,
+  CONNECTOR_LABELS,
+  WEEKEND_ARRIVAL_PROBABILITY_PER_HOUR,
+  SEASONALITY_PRESETS,
+  getDistributionsByHour,
+  type ChargepointGroup,
+  type ConnectorType,
+  type SimulationConfig,
+  type DemandProfile,
+  type DwellTimeProfile,
+  type SeasonalityProfile,
+} from '@/lib/simulation/config'
+
+/**
+ * @const {number} PROGRESS_INTERVAL_DAYS
+ * @description Simulated days between two progress updates of a streamed or in-browser run.
+ */
+export const PROGRESS_INTERVAL_DAYS = 7
+
+/**
+ * @interface ChargepointGroupInput
+ * @description A group of identical chargepoints as entered in the UI.
+ */
+export interface ChargepointGroupInput {
+  /** @type {number} Number of chargepoints in the group. */
+  count: number
+  /** @type {number} Power of each chargepoint in kW. */
+  powerKw: number
+  /** @type {ConnectorType} Connector type of the group. */
+  connector: ConnectorType
+}
+
+/**
+ * @interface SimulationInputParameters
+ * @description Defines the input parameters required to run a simulation.
+ * These parameters are typically provided by the user through the UI.
+ */
+export interface SimulationInputParameters {
+  /** @type {ChargepointGroupInput[]} The chargepoint groups that make up the station. */
+  chargepointGroups: ChargepointGroupInput[]
+  /** @type {number} A multiplier (percentage) for EV arrival probability. E.g., 100 for 100%. */
+  arrivalMultiplier: number
+  /** @type {number} The average energy consumption of cars in kWh per 100km. */
+  carConsumptionKwh100km: number
+  /** @type {SeasonalityProfile | 'none'} Monthly arrival and consumption multipliers, or 'none' for the same every month. */
+  seasonality: SeasonalityProfile | 'none'
+  /** @type {number} Arriving drivers balk when this many EVs are already waiting. 0 disables the queue. */
+  maxQueueLength: number
+  /** @type {number} How long drivers wait in the queue (minutes) before leaving. */
+  driverPatienceMinutes: number
+  /** @type {number} Station-wide grid connection limit in kW. 0 means no limit. */
+  gridConnectionLimitKw: number
+  /** @type {LoadManagementStrategyName} How the grid connection limit is shared between charging EVs. */
+  loadManagementStrategy: LoadManagementStrategyName
+  /** @type {DemandProfile | 'none'} Demand preset by hour of arrival, or 'none' for the same distribution all day. */
+  demandProfile: DemandProfile | 'none'
+  /** @type {DwellTimeProfile | 'none'} Parking duration preset, or 'none' if EVs leave when fully charged. */
+  dwellTimeProfile: DwellTimeProfile | 'none'
+  /** @type {number} Length of a simulation tick in minutes (1, 5, 15 or 60). */
+  tickMinutes: number
+  /** @type {string} First simulated day, YYYY-MM-DD. The run covers one year from this date. */
+  startDate: string
+  /** @type {string} IANA time zone of the station, or 'UTC'. */
+  timeZone: string
+  /** @type {string[]} Public holidays (YYYY-MM-DD), which use the Sunday arrival profile. */
+  holidays: string[]
+  /** @type {'uniform' | 'weekend'} Whether weekends and holidays use their own, quieter arrival profiles. */
+  dayTypeProfile: 'uniform' | 'weekend'
+  /** @type {number} Number of seeds to run for the Monte Carlo bands. 1 runs the default seed only. */
+  monteCarloRuns: number
+}
+
+/**
+ * @const {z.ZodType<SimulationInputParameters>} simulationInputParametersSchema
+ * @description Shape of the inputs a client sends to the streaming route. The value ranges of the config are
+ * checked when the simulation is created.
+ */
+const simulationInputParametersSchema = z.object({
+  chargepointGroups: z
+    .array(
+      z.object({
+        count: z.number().int().min(0),
+        powerKw: z.number().positive(),
+        connector: z.enum(['type2', 'ccs', 'chademo']),
+      }),
+    )
+    .refine((groups) => groups.some((group) => group.count > 0), 'The station needs at least one chargepoint'),
+  arrivalMultiplier: z.number(),
+  carConsumptionKwh100km: z.number(),
+  seasonality: z.enum(['none', 'temperate']),
+  maxQueueLength: z.number(),
+  driverPatienceMinutes: z.number(),
+  gridConnectionLimitKw: z.number().min(0),
+  loadManagementStrategy: z.enum(['equal-share', 'fifo', 'earliest-departure']),
+  demandProfile: z.enum(['none', 'commuter']),
+  dwellTimeProfile: z.enum(['none', 'supermarket', 'workplace']),
+  tickMinutes: z.number(),
+  startDate: z.string(),
+  timeZone: z.string(),
+  holidays: z.array(z.string()),
+  dayTypeProfile: z.enum(['uniform', 'weekend']),
+  monteCarloRuns: z.number().int().min(1).max(MAX_MONTE_CARLO_RUNS),
+}) satisfies z.ZodType<SimulationInputParameters>
+
+/**
+ * @interface ExemplaryDayDataPoint
+ * @description Represents a single data point for the exemplary day power demand chart.
+ */
+export interface ExemplaryDayDataPoint {
+  /** @type {number} The hour of the day (0-23). */
+  hour: number
+  /** @type {number} The peak simulated power demand in kW within this hour, at the native tick resolution. */
+  powerDemandKw: number
+  /** @type {number} The average power demand in kW over this hour. */
+  averagePowerKw: number
+}
+
+/**
+ * @interface DailyPeakDataPoint
+ * @description Represents a single data point for the daily peak power overview chart.
+ */
+export interface DailyPeakDataPoint {
+  /** @type {number} The day of the simulation (1-366). */
+  day: number
+  /** @type {string} The local date of this day, YYYY-MM-DD. */
+  date: string
+  /** @type {number} The peak power demand in kW recorded for this day. */
+  peakPowerKw: number
+  /** @type {number} The energy delivered in kWh on this day. */
+  energyKwh: number
+}
+
+/**
+ * @interface ChargingEventsBreakdown
+ * @description Provides a breakdown of charging events over different time periods,
+ * as recorded by the simulation.
+ */
+export interface ChargingEventsBreakdown {
+  /** @type {number[]} An array of 12 numbers, representing total charging sessions for each month. */
+  perMonth: number[]
+  /** @type {number} The average number of charging sessions per week. */
+  avgPerWeek: number
+  /** @type {number} The average number of charging sessions per day. */
+  avgPerDay: number
+}
+
+/**
+ * @interface ArrivalHourDataPoint
+ * @description Arrivals and their requested energy for one hour of the day.
+ */
+export interface ArrivalHourDataPoint {
+  /** @type {number} The local hour of arrival (0-23). */
+  hour: number
+  /** @type {number} Number of EVs that arrived in this hour over the whole run, including those without demand. */
+  arrivals: number
+  /** @type {number} Average energy requested per arrival in kWh. */
+  averageRequestedKwh: number
+}
+
+/**
+ * @interface QueueStatistics
+ * @description Waiting queue and rejection statistics of a simulation run.
+ */
+export interface QueueStatistics {
+  /** @type {number} Arrivals that wanted to charge but left without a chargepoint. */
+  rejectedArrivals: number
+  /** @type {number} Rejected arrivals that found the queue full. */
+  balkedArrivals: number
+  /** @type {number} Rejected arrivals that ran out of patience while waiting. */
+  renegedArrivals: number
+  /** @type {number} Rejected arrivals that found no chargepoint with a connector they support. */
+  incompatibleArrivals: number
+  /** @type {number} Average time charged EVs waited for a chargepoint, in minutes. */
+  averageWaitingTimeMinutes: number
+  /** @type {number} Longest time a charged EV waited for a chargepoint, in minutes. */
+  maxWaitingTimeMinutes: number
+  /** @type {number} Time-averaged number of EVs waiting. */
+  averageQueueLength: number
+  /** @type {number} Largest number of EVs waiting at the same time. */
+  maxQueueLength: number
+}
+
+/**
+ * @interface GridStatistics
+ * @description Effect of the grid connection limit on charging.
+ */
+export interface GridStatistics {
+  /** @type {number | null} The grid connection limit in kW, or null if unlimited. */
+  gridConnectionLimitKw: number | null
+  /** @type {number} Energy requested but deferred because of the limit, in kWh. */
+  curtailedEnergyKwh: number
+  /** @type {number} Hours in which the limit was binding. */
+  curtailedHours: number
+  /** @type {number} Average extra charging time per completed session, in minutes. */
+  averageChargingDelayMinutes: number
+  /** @type {number} Longest extra charging time of a single session, in minutes. */
+  maxChargingDelayMinutes: number
+  /** @type {number} Energy wanted by rejected or still unserved EVs, in kWh. */
+  unservedEnergyKwh: number
+}
+
+/**
+ * @interface ChargepointStatistics
+ * @description Occupancy statistics of a single chargepoint.
+ */
+export interface ChargepointStatistics {
+  /** @type {number} The chargepoint id. */
+  id: number
+  /** @type {string} Label of the group the chargepoint belongs to. */
+  groupLabel: string
+  /** @type {number} The chargepoint power in kW. */
+  powerKw: number
+  /** @type {number} Hours with an EV attached. */
+  occupiedHours: number
+  /** @type {number} Hours with an EV attached that did not draw any energy. */
+  idleHours: number
+}
+
+/**
+ * @interface ChargepointGroupStatistics
+ * @description Energy, peak power and utilization of a chargepoint group.
+ */
+export interface ChargepointGroupStatistics {
+  /** @type {string} The group id. */
+  id: string
+  /** @type {string} Human-readable description of the group. */
+  label: string
+  /** @type {number} Number of chargepoints in the group. */
+  count: number
+  /** @type {number} Power of each chargepoint in kW. */
+  powerKw: number
+  /** @type {ConnectorType} Connector type of the group. */
+  connector: ConnectorType
+  /** @type {number} Highest power drawn by the group in kW. */
+  peakPowerKw: number
+  /** @type {number} Energy delivered by the group in kWh. */
+  energyKwh: number
+  /** @type {number} Share of chargepoint time with an EV attached, in percent. */
+  utilization: number
+}
+
+/**
+ * @interface SimulationOutputResults
+ * @description Defines the structure of the results returned after a simulation run.
+ * This includes summary statistics, data for charts, and the inputs used.
+ */
+export interface SimulationOutputResults {
+  /** @type {number} Total energy consumed by all EVs during the simulation in kWh. */
+  totalEnergyConsumedKwh: number
+  /** @type {number} The actual maximum power demand observed across all chargepoints in kW, at the native tick resolution. */
+  actualMaxPowerDemandKw: number
+  /** @type {number} The maximum hourly average power demand in kW. */
+  hourlyMaxPowerDemandKw: number
+  /** @type {number} The theoretical maximum power demand if all chargepoints were active simultaneously in kW. */
+  theoreticalMaxPowerDemandKw: number
+  /** @type {number} The concurrency factor as a percentage (actualMaxPowerDemandKw / theoreticalMaxPowerDemandKw). */
+  concurrencyFactor: number
+  /** @type {number} The total number of EV charging sessions initiated. */
+  numChargingSessions: number
+  /** @type {number} The day of the simulation (1-366) shown in the exemplary day chart: the day of the overall peak. */
+  exemplaryDay: number
+  /** @type {string} The local date of the exemplary day, YYYY-MM-DD. */
+  exemplaryDate: string
+  /** @type {ExemplaryDayDataPoint[]} Data points for the exemplary day power demand chart. */
+  exemplaryDayPower: ExemplaryDayDataPoint[]
+  /** @type {DailyPeakDataPoint[]} Data points for the yearly daily peak power overview chart. */
+  yearlyPeakPower: DailyPeakDataPoint[]
+  /** @type {ChargingEventsBreakdown} A breakdown of charging events. */
+  eventsBreakdown: ChargingEventsBreakdown
+  /** @type {ArrivalHourDataPoint[]} Arrivals and average requested energy for each hour of arrival. */
+  demandByHour: ArrivalHourDataPoint[]
+  /** @type {GridStatistics} Effect of the grid connection limit. */
+  gridStats: GridStatistics
+  /** @type {QueueStatistics} Waiting queue and rejection statistics. */
+  queueStats: QueueStatistics
+  /** @type {number} EVs that left at the end of their parking time before being fully charged. */
+  departuresBeforeFull: number
+  /** @type {ChargepointStatistics[]} Occupancy statistics per chargepoint. */
+  chargepointStats: ChargepointStatistics[]
+  /** @type {ChargepointGroupStatistics[]} Statistics per chargepoint group. */
+  groupStats: ChargepointGroupStatistics[]
+  /** @type {ChargingSession[]} One record per EV arrival, in order of arrival. */
+  sessions: ChargingSession[]
+  /** @type {MonteCarloResult | null} Spread of the key metrics over `monteCarloRuns` seeds, or null for a single run. */
+  monteCarlo: MonteCarloResult | null
+  /** @type {SimulationInputParameters} The input parameters that were used for this simulation run. */
+  inputsUsed: SimulationInputParameters
+}
+
+/**
+ * @interface SimulationProgressUpdate
+ * @description Progress of a running simulation, with the results of the days simulated so far.
+ */
+export interface SimulationProgressUpdate {
+  /** @type {number} Share of the run simulated so far, in percent. */
+  percentComplete: number
+  /** @type {number} Number of days simulated so far. */
+  simulatedDays: number
+  /** @type {string} The local date of the last simulated day, YYYY-MM-DD. */
+  currentDate: string
+  /** @type {number} Energy delivered so far in kWh. */
+  totalEnergyConsumedKwh: number
+  /** @type {number} Highest power demand so far in kW. */
+  actualMaxPowerDemandKw: number
+  /** @type {number} Monte Carlo seeds run so far. They run once the simulation itself is complete. */
+  completedMonteCarloRuns: number
+  /** @type {number} Monte Carlo seeds to run in total, 0 for a single run. */
+  monteCarloRuns: number
+  /** @type {SimulationOutputResults} Results of the days simulated so far, without sessions and Monte Carlo bands. */
+  provisionalResults: SimulationOutputResults
+}
+
+/**
+ * Checks the inputs of a dashboard run received from a client, e.g. the body of a request to the streaming route.
+ * @param {unknown} body - The parsed inputs.
+ * @returns {SimulationInputParameters} The inputs, without unknown fields.
+ * @throws {Error} Listing every invalid field.
+ */
+export function parseSimulationInputParameters(body: unknown): SimulationInputParameters {
+  const result = simulationInputParametersSchema.safeParse(body)
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+    throw new Error(`Invalid simulation inputs: ${issues.join('; ')}.`)
+  }
+  return result.data
+}
+
+/**
+ * Turns the chargepoint groups entered in the UI into the station layout of the simulation config.
+ * @param {ChargepointGroupInput[]} groups - The groups from the form.
+ * @returns {ChargepointGroup[]} The layout, with generated ids and labels.
+ */
+export function buildStationLayout(groups: ChargepointGroupInput[]): ChargepointGroup[] {
+  return groups.map((group, index) => ({
+    id: `group-${index + 1}`,
+    label: `${group.count}× ${group.powerKw} kW ${CONNECTOR_LABELS[group.connector]}`,
+    count: group.count,
+    powerKw: group.powerKw,
+    connector: group.connector,
+  }))
+}
+
+/**
+ * Maps the UI inputs to simulation config overrides.
+ * @param {SimulationInputParameters} params - The inputs from the form.
+ * @param {ChargepointGroup[] | null} stationLayout - The station layout, or null for identical chargepoints.
+ * @returns {Partial<SimulationConfig>} The config overrides.
+ */
+export function buildSimulationConfig(
+  params: SimulationInputParameters,
+  stationLayout: ChargepointGroup[] | null,
+): Partial<SimulationConfig> {
+  return {
+    arrivalMultiplier: params.arrivalMultiplier / 100,
+    kwhPer100Km: params.carConsumptionKwh100km,
+    stationLayout,
+    maxQueueLength: params.maxQueueLength,
+    driverPatienceMinutes: params.driverPatienceMinutes,
+    gridConnectionLimitKw: params.gridConnectionLimitKw > 0 ? params.gridConnectionLimitKw : null,
+    loadManagementStrategy: params.loadManagementStrategy,
+    chargingDemandKmDistributionByHour:
+      params.demandProfile === 'none'
+        ? null
+        : getDistributionsByHour(CHARGING_DEMAND_KM_BY_HOUR_PRESETS[params.demandProfile]),
+    dwellTimeMinutesDistribution:
+      params.dwellTimeProfile === 'none' ? null : DWELL_TIME_MINUTES_PRESETS[params.dwellTimeProfile],
+    tickMinutes: params.tickMinutes,
+    startDate: params.startDate,
+    timeZone: params.timeZone === 'UTC' ? null : params.timeZone,
+    holidays: params.holidays,
+    arrivalProbabilityPerHourByDayType:
+      params.dayTypeProfile === 'weekend' ? WEEKEND_ARRIVAL_PROBABILITY_PER_HOUR : null,
+    monthlyArrivalMultipliers: params.seasonality === 'none' ? null : SEASONALITY_PRESETS[params.seasonality].arrival,
+    monthlyKwhPer100KmMultipliers:
+      params.seasonality === 'none' ? null : SEASONALITY_PRESETS[params.seasonality].kwhPer100Km,
+  }
+}
+
+/**
+ * Creates the simulation of a dashboard run: the default seed, the tick engine and the config built from the inputs.
+ * @param {SimulationInputParameters} params - The inputs from the form.
+ * @param {Pick<SimulationOptions, 'observers' | 'signal'>} [options] - Observers and abort signal of the run.
+ * @returns {EVChargingSimulation} The simulation, ready to run.
+ */
+export function createDashboardSimulation(
+  params: SimulationInputParameters,
+  options: Pick<SimulationOptions, 'observers' | 'signal'> = {},
+): EVChargingSimulation {
+  const stationLayout = buildStationLayout(params.chargepointGroups)
+  const numChargepoints = stationLayout.reduce((sum, group) => sum + group.count, 0)
+  return new EVChargingSimulation(numChargepoints, {
+    ...options,
+    seed: DEFAULT_SIMULATION_SEED,
+    verbose: false, // Keep server logs cleaner for UI-triggered runs
+    config: buildSimulationConfig(params, stationLayout),
+  })
+}
+
+/**
+ * Builds the Monte Carlo options of a dashboard run, if it asks for more than one seed.
+ * The first seed is the default seed, so the detailed results of `createDashboardSimulation` are one of the runs.
+ * @param {SimulationInputParameters} params - The inputs from the form.
+ * @param {Pick<SimulationOptions, 'signal'>} options - Abort signal of the runs.
+ * @returns {{ numChargepoints: number; options: MonteCarloOptions } | null} The station size and the options of the
+ * runs, or null for a single run.
+ */
+function buildDashboardMonteCarlo(
+  params: SimulationInputParameters,
+  options: Pick<SimulationOptions, 'signal'>,
+): { numChargepoints: number; options: MonteCarloOptions } | null {
+  if (params.monteCarloRuns <= 1) {
+    return null
+  }
+  const stationLayout = buildStationLayout(params.chargepointGroups)
+  const config = buildSimulationConfig(params, stationLayout)
+  return {
+    numChargepoints: stationLayout.reduce((sum, group) => sum + group.count, 0),
+    options: {
+      ...options,
+      runs: params.monteCarloRuns,
+      baseSeed: DEFAULT_SIMULATION_SEED,
+      verbose: false,
+      engine: selectSimulationEngine(config),
+      config,
+    },
+  }
+}
+
+/**
+ * Runs the Monte Carlo seeds of a dashboard run, if it asks for more than one.
+ * @param {SimulationInputParameters} params - The inputs from the form.
+ * @returns {MonteCarloResult | null} The spread of the key metrics, or null for a single run.
+ */
+export function runDashboardMonteCarlo(params: SimulationInputParameters): MonteCarloResult | null {
+  const monteCarlo = buildDashboardMonteCarlo(params, {})
+  return monteCarlo && runMonteCarlo(monteCarlo.numChargepoints, monteCarlo.options)
+}
+
+/**
+ * Runs the Monte Carlo seeds of a dashboard run one at a time, see `iterateMonteCarlo`, so a streamed run can yield
+ * to the event loop and notice a disconnect in between.
+ * @param {SimulationInputParameters} params - The inputs from the form.
+ * @param {Pick<SimulationOptions, 'signal'>} [options] - Abort signal of the runs.
+ * @returns {Generator<number, MonteCarloResult> | null} The runs, or null for a single run.
+ */
+export function iterateDashboardMonteCarlo(
+  params: SimulationInputParameters,
+  options: Pick<SimulationOptions, 'signal'> = {},
+): Generator<number, MonteCarloResult> | null {
+  const monteCarlo = buildDashboardMonteCarlo(params, options)
+  return monteCarlo && iterateMonteCarlo(monteCarlo.numChargepoints, monteCarlo.options)
+}
+
+/**
+ * Builds the dashboard results from a simulation. Works on a partial run too, covering the ticks simulated so far.
+ * @param {EVChargingSimulation} simulation - The simulation, complete or not.
+ * @param {SimulationInputParameters} params - The inputs it was created from.
+ * @param {MonteCarloResult | null} monteCarlo - The Monte Carlo spread, see `runDashboardMonteCarlo`.
+ * @param {boolean} [includeSessions] - Whether to include the session log, which is large for long runs.
+ * @returns {SimulationOutputResults} The results.
+ */
+export function buildSimulationResults(
+  simulation: EVChargingSimulation,
+  params: SimulationInputParameters,
+  monteCarlo: MonteCarloResult | null,
+  includeSessions = true,
+): SimulationOutputResults {
+  const stats = simulation.stats
+  const stationLayout = simulation.getStationLayout()
+  const theoreticalMaxPowerDemandKw = stationLayout.reduce((sum, group) => sum + group.count * group.powerKw, 0)
+  const concurrencyFactor =
+    theoreticalMaxPowerDemandKw > 0 ? (stats.actualMaxPowerDemandKw / theoreticalMaxPowerDemandKw) * 100 : 0
+
+  // Exemplary day: the day on which the yearly peak occurred, aggregated to the peak power within each hour
+  const exemplaryDay = stats.getPeakDayIndex() + 1
+  const exemplaryDate = simulation.calendar.getDateOfDay(exemplaryDay - 1)
+  const ticksPerHour = simulation.calendar.ticksPerHour
+  const exemplaryDaySeries = stats.getDayPowerSeries(exemplaryDay - 1)
+  const exemplaryDayHourlySeries = stats.getDayHourlyPowerSeries(exemplaryDay - 1)
+  const exemplaryDayPower: ExemplaryDayDataPoint[] = []
+  for (let hour = 0; hour < HOURS_PER_DAY; hour++) {
+    const hourSeries = exemplaryDaySeries.slice(hour * ticksPerHour, (hour + 1) * ticksPerHour)
+    exemplaryDayPower.push({
+      hour,
+      powerDemandKw: Number.parseFloat(Math.max(0, ...hourSeries).toFixed(2)),
+      averagePowerKw: Number.parseFloat((exemplaryDayHourlySeries[hour] ?? 0).toFixed(2)),
+    })
+  }
+
+  const yearlyPeakPower: DailyPeakDataPoint[] = stats.dailyPeakPowerKw.map((peakPowerKw, dayIndex) => ({
+    day: dayIndex + 1,
+    date: simulation.calendar.getDateOfDay(dayIndex),
+    peakPowerKw: Number.parseFloat(peakPowerKw.toFixed(2)),
+    energyKwh: Number.parseFloat(stats.dailyEnergyKwh[dayIndex].toFixed(2)),
+  }))
+
+  const numChargingSessions = stats.totalChargingSessions
+  const simulatedDays = Math.max(1, stats.getSimulatedDays())
+  const eventsBreakdown: ChargingEventsBreakdown = {
+    perMonth: [...stats.monthlySessionCounts],
+    avgPerDay: numChargingSessions / simulatedDays,
+    avgPerWeek: (numChargingSessions / simulatedDays) * 7,
+  }
+
+  const averageRequestedKwhByHour = stats.getAverageRequestedEnergyKwhByHour()
+  const demandByHour: ArrivalHourDataPoint[] = stats.arrivalsByHour.map((arrivals, hour) => ({
+    hour,
+    arrivals,
+    averageRequestedKwh: Number.parseFloat(averageRequestedKwhByHour[hour].toFixed(2)),
+  }))
+
+  const queueStats: QueueStatistics = {
+    rejectedArrivals: stats.rejectedArrivals,
+    balkedArrivals: stats.balkedArrivals,
+    renegedArrivals: stats.renegedArrivals,
+    incompatibleArrivals: stats.incompatibleArrivals,
+    averageWaitingTimeMinutes: stats.getAverageWaitingTimeMinutes(),
+    maxWaitingTimeMinutes: stats.maxWaitingTimeMinutes,
+    averageQueueLength: stats.getAverageQueueLength(),
+    maxQueueLength: stats.maxQueueLength,
+  }
+
+  const gridStats: GridStatistics = {
+    gridConnectionLimitKw: simulation.config.gridConnectionLimitKw,
+    curtailedEnergyKwh: stats.curtailedEnergyKwh,
+    curtailedHours: stats.ticksToHours(stats.curtailedTicks),
+    averageChargingDelayMinutes: stats.getAverageChargingDelayMinutes(),
+    maxChargingDelayMinutes: stats.maxChargingDelayMinutes,
+    unservedEnergyKwh: stats.getUnservedEnergyKwh(),
+  }
+
+  const groupLabels = new Map(stationLayout.map((group) => [group.id, group.label]))
+  const chargepointStats: ChargepointStatistics[] = simulation.getChargepointInfo().map((cp) => ({
+    id: cp.id,
+    groupLabel: groupLabels.get(cp.groupId) ?? cp.groupId,
+    powerKw: cp.powerKw,
+    occupiedHours: stats.ticksToHours(stats.occupiedTicksPerChargepoint[cp.id] ?? 0),
+    idleHours: stats.ticksToHours(stats.idleTicksPerChargepoint[cp.id] ?? 0),
+  }))
+
+  const simulatedTicks = stats.powerSeriesKw.length
+  const groupStats: ChargepointGroupStatistics[] = stationLayout.map((group) => {
+    const totals = stats.groupTotals[group.id]
+    const availableChargepointTicks = group.count * simulatedTicks
+    return {
+      id: group.id,
+      label: group.label,
+      count: group.count,
+      powerKw: group.powerKw,
+      connector: group.connector,
+      peakPowerKw: totals?.peakPowerKw ?? 0,
+      energyKwh: totals?.energyKwh ?? 0,
+      utilization:
+        availableChargepointTicks > 0 ? ((totals?.occupiedChargepointTicks ?? 0) / availableChargepointTicks) * 100 : 0,
+    }
+  })
+
+  return {
+    totalEnergyConsumedKwh: stats.totalEnergyConsumedKwh,
+    actualMaxPowerDemandKw: stats.actualMaxPowerDemandKw,
+    hourlyMaxPowerDemandKw: stats.getHourlyMaxPowerDemandKw(),
+    theoreticalMaxPowerDemandKw,
+    concurrencyFactor,
+    numChargingSessions,
+    exemplaryDay,
+    exemplaryDate,
+    exemplaryDayPower,
+    yearlyPeakPower,
+    eventsBreakdown,
+    demandByHour,
+    gridStats,
+    queueStats,
+    departuresBeforeFull: stats.departuresBeforeFull,
+    chargepointStats,
+    groupStats,
+    sessions: includeSessions ? simulation.getSessions() : [],
+    monteCarlo,
+    inputsUsed: params,
+  }
+}
+
+/**
+ * Describes the progress of a running dashboard simulation.
+ * @param {EVChargingSimulation} simulation - The running simulation.
+ * @param {SimulationInputParameters} params - The inputs it was created from.
+ * @param {number} [completedMonteCarloRuns] - Monte Carlo seeds run so far, see `iterateDashboardMonteCarlo`.
+ * @returns {SimulationProgressUpdate} The progress and provisional results.
+ */
+export function buildSimulationProgress(
+  simulation: EVChargingSimulation,
+  params: SimulationInputParameters,
+  completedMonteCarloRuns = 0,
+): SimulationProgressUpdate {
+  const stats = simulation.stats
+  const simulatedDays = stats.getSimulatedDays()
+  return {
+    percentComplete: (simulation.getCurrentTick() / Math.max(1, simulation.getMaxTicks())) * 100,
+    simulatedDays,
+    currentDate: simulation.calendar.getDateOfDay(Math.max(0, simulatedDays - 1)),
+    totalEnergyConsumedKwh: stats.totalEnergyConsumedKwh,
+    actualMaxPowerDemandKw: stats.actualMaxPowerDemandKw,
+    completedMonteCarloRuns,
+    monteCarloRuns: params.monteCarloRuns > 1 ? params.monteCarloRuns : 0,
+    provisionalResults: buildSimulationResults(simulation, params, null, false),
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * @file app/simulation-stream.ts
+ * @description The events of a simulation run that reports its progress, and the clients that follow them: one for
+ * the server-sent events of the streaming route (app/api/simulate), one for the in-browser Web Worker
+ * (app/simulation.worker.ts).
+ */
+import type { SimulationInputParameters, SimulationOutputResults, SimulationProgressUpdate } from './simulation-results'
+
+/**
+ * @const {string} SIMULATION_STREAM_URL
+ * @description The route that streams a simulation run.
+ */
+export const SIMULATION_STREAM_URL = '/api/simulate'
+
+/**
+ * Where a dashboard run executes: streamed from the server, or in a Web Worker in the browser.
+ */
+export type SimulationExecutionMode = 'server' | 'browser'
+
+/**
+ * A message of the stream: any number of progress updates, then either the results or an error.
+ */
+export type SimulationStreamEvent =
+  | { type: 'progress'; progress: SimulationProgressUpdate }
+  | { type: 'result'; results: SimulationOutputResults }
+  | { type: 'error'; message: string }
+
+/**
+ * A message from the page to the Web Worker: start a run with the given inputs, or cancel the current one. The
+ * worker validates the inputs like the streaming route, since they cross a boundary untyped.
+ */
+export type SimulationWorkerRequest = { type: 'run'; params: unknown } | { type: 'cancel' }
+
+/**
+ * Encodes an event as a server-sent event.
+ * @param {SimulationStreamEvent} event - The event.
+ * @returns {string} The event's `data:` line and the blank line that ends it.
+ */
+export function encodeSimulationStreamEvent(event: SimulationStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`
+}
+
+/**
+ * Decodes a server-sent event written by `encodeSimulationStreamEvent`.
+ * @param {string} message - The event's lines, without the blank line that ends it.
+ * @returns {SimulationStreamEvent | null} The event, or null for a message without data, e.g. a comment.
+ */
+function decodeSimulationStreamEvent(message: string): SimulationStreamEvent | null {
+  const data = message
+    .split('\n')
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice('data:'.length).trimStart())
+    .join('\n')
+  return data ? (JSON.parse(data) as SimulationStreamEvent) : null
+}
+
+/**
+ * @interface StreamSimulationOptions
+ * @description Callbacks and cancellation of a streamed simulation run.
+ */
+export interface StreamSimulationOptions {
+  /** @type {(progress: SimulationProgressUpdate) => void} Called with each progress update. */
+  onProgress?: (progress: SimulationProgressUpdate) => void
+  /** @type {AbortSignal} Cancels the run: aborts the request, which stops it on the server, or stops the worker. */
+  signal?: AbortSignal
+}
+
+/**
+ * Runs a simulation on the server and follows its progress.
+ * @param {SimulationInputParameters} params - The input parameters for the simulation.
+ * @param {StreamSimulationOptions} [options] - Progress callback and abort signal.
+ * @returns {Promise<SimulationOutputResults>} The results once the run is complete.
+ * @throws {Error} If the request fails, the run fails, or the stream ends without results.
+ */
+export async function streamSimulation(
+  params: SimulationInputParameters,
+  options: StreamSimulationOptions = {},
+): Promise<SimulationOutputResults> {
+  const response = await fetch(SIMULATION_STREAM_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+    signal: options.signal,
+  })
+  if (!response.ok || !response.body) {
+    // The route explains rejected inputs in the body
+    const body = (await response.json().catch(() => null)) as { error?: string } | null
+    throw new Error(body?.error ?? `The simulation request failed with status ${response.status}.`)
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) {
+      break
+    }
+    buffer += value
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const event = decodeSimulationStreamEvent(buffer.slice(0, boundary))
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+      if (event?.type === 'progress') {
+        options.onProgress?.(event.progress)
+      } else if (event?.type === 'result') {
+        await reader.cancel()
+        return event.results
+      } else if (event?.type === 'error') {
+        await reader.cancel()
+        throw new Error(event.message)
+      }
+    }
+  }
+  throw new Error('The simulation stream ended without results.')
+}
+
+/**
+ * Runs a simulation in a Web Worker, so the page stays responsive and no server is needed.
+ * @param {SimulationInputParameters} params - The input parameters for the simulation.
+ * @param {StreamSimulationOptions} [options] - Progress callback and abort signal.
+ * @returns {Promise<SimulationOutputResults>} The results once the run is complete.
+ * @throws {Error} If the run fails, or the abort reason if it is cancelled.
+ */
+export function runSimulationInBrowser(
+  params: SimulationInputParameters,
+  options: StreamSimulationOptions = {},
+): Promise<SimulationOutputResults> {
+  return new Promise((resolve, reject) => {
+    const { signal, onProgress } = options
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url))
+    const post = (request: SimulationWorkerRequest) => worker.postMessage(request)
+    const handleMessage = (message: MessageEvent<SimulationStreamEvent>) => {
+      const event = message.data
+      if (event.type === 'progress') {
+        onProgress?.(event.progress)
+      } else if (event.type === 'result') {
+        finish()
+        resolve(event.results)
+      } else {
+        finish()
+        reject(new Error(event.message))
+      }
+    }
+    // The worker stops at its next cancellation check and then closes itself; its last updates are ignored
+    const handleAbort = () => {
+      worker.removeEventListener('message', handleMessage)
+      post({ type: 'cancel' })
+      reject(signal?.reason)
+    }
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', handleAbort)
+    }
+    signal?.addEventListener('abort', handleAbort)
+
+    worker.addEventListener('message', handleMessage)
+    worker.addEventListener('error', (event) => {
+      finish()
+      reject(new Error(event.message || 'The simulation worker failed.'))
+    })
+    post({ type: 'run', params })
+  })
+}
+
+/**
+ * Runs a simulation where the user chose and follows its progress.
+ * @param {SimulationExecutionMode} mode - Server or browser execution.
+ * @param {SimulationInputParameters} params - The input parameters for the simulation.
+ * @param {StreamSimulationOptions} [options] - Progress callback and abort signal.
+ * @returns {Promise<SimulationOutputResults>} The results once the run is complete.
+ */
+export function runSimulation(
+  mode: SimulationExecutionMode,
+  params: SimulationInputParameters,
+  options: StreamSimulationOptions = {},
+): Promise<SimulationOutputResults> {
+  return mode === 'browser' ? runSimulationInBrowser(params, options) : streamSimulation(params, options)
+}
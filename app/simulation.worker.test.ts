@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SimulationInputParameters } from '@/app/simulation-results'
+import type { SimulationStreamEvent, SimulationWorkerRequest } from '@/app/simulation-stream'
+
+const VALID_INPUTS: SimulationInputParameters = {
+  chargepointGroups: [{ count: 2, powerKw: 11, connector: 'type2' }],
+  arrivalMultiplier: 100,
+  carConsumptionKwh100km: 18,
+  seasonality: 'none',
+  maxQueueLength: 5,
+  driverPatienceMinutes: 30,
+  gridConnectionLimitKw: 0,
+  loadManagementStrategy: 'equal-share',
+  demandProfile: 'none',
+  dwellTimeProfile: 'none',
+  tickMinutes: 60,
+  startDate: '2023-01-01',
+  timeZone: 'UTC',
+  holidays: [],
+  dayTypeProfile: 'uniform',
+  monteCarloRuns: 3,
+}
+
+/**
+ * Stands in for the worker's global scope: collects the posted events and delivers requests.
+ */
+class FakeWorkerScope {
+  public events: SimulationStreamEvent[] = []
+  public closed = false
+  private listener: ((message: { data: SimulationWorkerRequest }) => void) | null = null
+
+  public addEventListener(_: 'message', listener: (message: { data: SimulationWorkerRequest }) => void): void {
+    this.listener = listener
+  }
+
+  public postMessage(event: SimulationStreamEvent): void {
+    this.events.push(event)
+  }
+
+  public close(): void {
+    this.closed = true
+  }
+
+  public request(request: SimulationWorkerRequest): void {
+    this.listener?.({ data: request })
+  }
+}
+
+/**
+ * Waits until the worker posted its last event or closed itself.
+ * @param {FakeWorkerScope} scope - The worker scope.
+ * @returns {Promise<void>} Resolves once the run is over.
+ */
+async function waitForEnd(scope: FakeWorkerScope): Promise<void> {
+  await vi.waitFor(() => expect(scope.closed || scope.events.at(-1)?.type !== 'progress').toBe(true), {
+    timeout: 10_000,
+  })
+}
+
+describe('simulation worker', () => {
+  let scope: FakeWorkerScope
+
+  beforeEach(async () => {
+    scope = new FakeWorkerScope()
+    vi.stubGlobal('self', scope)
+    vi.resetModules()
+    await import('./simulation.worker')
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('posts progress after every step and every Monte Carlo seed, then the results', async () => {
+    scope.request({ type: 'run', params: VALID_INPUTS })
+    await waitForEnd(scope)
+
+    const monteCarloProgress = scope.events.flatMap((event) =>
+      event.type === 'progress' && event.progress.completedMonteCarloRuns > 0
+        ? [event.progress.completedMonteCarloRuns]
+        : [],
+    )
+    expect(scope.events.at(0)?.type).toBe('progress')
+    expect(monteCarloProgress).toEqual([1, 2, 3])
+    const result = scope.events.at(-1)
+    expect(result?.type === 'result' && result.results.monteCarlo?.runs).toBe(3)
+  })
+
+  it('rejects invalid inputs like the streaming route', async () => {
+    scope.request({ type: 'run', params: { ...VALID_INPUTS, chargepointGroups: [] } })
+    await waitForEnd(scope)
+
+    expect(scope.events).toEqual([{ type: 'error', message: expect.stringMatching(/^Invalid simulation inputs: /) }])
+  })
+
+  it('stops at the next check after a cancel request and closes itself', async () => {
+    scope.request({ type: 'run', params: VALID_INPUTS })
+    await vi.waitFor(() => expect(scope.events.length).toBeGreaterThan(0))
+    scope.request({ type: 'cancel' })
+    await waitForEnd(scope)
+
+    expect(scope.closed).toBe(true)
+    expect(scope.events.every((event) => event.type === 'progress')).toBe(true)
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * @file app/simulation.worker.ts
+ * @description Web Worker that runs a dashboard simulation in the browser. It receives a `SimulationWorkerRequest`,
+ * validates the inputs like the streaming route and posts the same `SimulationStreamEvent`s. Between progress
+ * updates it yields to its event loop, so a cancel request stops the run, the Monte Carlo seeds included.
+ */
+import {
+  buildSimulationProgress,
+  buildSimulationResults,
+  createDashboardSimulation,
+  iterateDashboardMonteCarlo,
+  parseSimulationInputParameters,
+  PROGRESS_INTERVAL_DAYS,
+} from './simulation-results'
+import type { SimulationStreamEvent, SimulationWorkerRequest } from './simulation-stream'
+import type { MonteCarloResult } from '@/lib/simulation/monte-carlo'
+
+/**
+ * @const {AbortController} abortController
+ * @description Cancels the run of this worker; a worker runs a single simulation.
+ */
+const abortController = new AbortController()
+
+/**
+ * Posts an event to the page.
+ * @param {SimulationStreamEvent} event - The event.
+ */
+function send(event: SimulationStreamEvent): void {
+  self.postMessage(event)
+}
+
+/**
+ * Hands control back to the event loop, so a cancel request that arrived meanwhile is handled.
+ * @returns {Promise<void>} Resolves on the next turn of the event loop.
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0))
+}
+
+/**
+ * Runs the simulation and its Monte Carlo seeds, posting progress after every step and every seed.
+ * @async
+ * @param {unknown} body - The inputs sent by the page.
+ * @returns {Promise<void>} Resolves once the results or an error were posted, or the run was cancelled.
+ */
+async function runSimulation(body: unknown): Promise<void> {
+  const signal = abortController.signal
+  try {
+    const params = parseSimulationInputParameters(body)
+    const simulation = createDashboardSimulation(params, { signal })
+    const ticksPerUpdate = PROGRESS_INTERVAL_DAYS * simulation.calendar.ticksPerDay
+    while (!simulation.isComplete()) {
+      simulation.step(ticksPerUpdate)
+      send({ type: 'progress', progress: buildSimulationProgress(simulation, params) })
+      await yieldToEventLoop()
+    }
+    const monteCarloRuns = iterateDashboardMonteCarlo(params, { signal })
+    let monteCarlo: MonteCarloResult | null = null
+    if (monteCarloRuns) {
+      let completedRuns = 0
+      let next = monteCarloRuns.next()
+      while (!next.done) {
+        send({ type: 'progress', progress: buildSimulationProgress(simulation, params, ++completedRuns) })
+        await yieldToEventLoop()
+        next = monteCarloRuns.next()
+      }
+      monteCarlo = next.value
+    }
+    send({ type: 'result', results: buildSimulationResults(simulation, params, monteCarlo) })
+  } catch (error) {
+    if (!signal.aborted) {
+      send({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+    }
+  }
+}
+
+self.addEventListener('message', (message: MessageEvent<SimulationWorkerRequest>) => {
+  const request = message.data
+  if (request.type === 'run') {
+    void runSimulation(request.params).finally(() => {
+      if (abortController.signal.aborted) {
+        self.close()
+      }
+    })
+  } else {
+    abortController.abort()
+  }
+})
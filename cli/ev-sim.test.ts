@@ -0,0 +1,78 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { EXIT_INVALID_INPUT, EXIT_RUN_FAILED, EXIT_SUCCESS, main } from './ev-sim'
+
+const VALID_SCENARIO = {
+  id: 'two-chargepoints',
+  description: 'Two chargepoints for a day.',
+  numChargepoints: 2,
+  seed: 1,
+  options: { maxTicks: 96 },
+  expected: { totalChargingSessions: { min: 0 } },
+}
+
+describe('ev-sim', () => {
+  let directory: string
+  let errors: string[]
+
+  /**
+   * Writes a JSON file to the test directory.
+   * @param {string} name - The file name.
+   * @param {unknown} content - The content.
+   * @returns {string} The file path.
+   */
+  function writeJson(name: string, content: unknown): string {
+    const path = join(directory, name)
+    writeFileSync(path, JSON.stringify(content))
+    return path
+  }
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'ev-sim-'))
+    errors = []
+    vi.spyOn(console, 'error').mockImplementation((message: string) => errors.push(message))
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('checks a valid scenario file', () => {
+    expect(main(['scenario', writeJson('scenario.json', VALID_SCENARIO)])).toBe(EXIT_SUCCESS)
+  })
+
+  it.each([
+    ['an unknown metric', { ...VALID_SCENARIO, expected: { peakKw: { max: 100 } } }, "'peakKw'"],
+    ['a non-numeric bound', { ...VALID_SCENARIO, expected: { concurrencyFactor: { min: '35' } } }, 'min'],
+    ['a missing id', { ...VALID_SCENARIO, id: undefined }, 'id: Required'],
+    ['a missing expected', [{ ...VALID_SCENARIO, expected: undefined }], 'expected: Required'],
+    ['an invalid config value', { ...VALID_SCENARIO, options: { config: { tickMinutes: 7 } } }, 'tickMinutes'],
+  ])('rejects a scenario file with %s', (_, content, message) => {
+    expect(main(['scenario', writeJson('scenario.json', content)])).toBe(EXIT_INVALID_INPUT)
+    expect(errors.join('\n')).toContain(message)
+  })
+
+  it.each([
+    ['a wrong type', { stationLayout: 'abc' }, 'stationLayout'],
+    ['an unknown key', { gridLimitKw: 100 }, "'gridLimitKw'"],
+    ['an out-of-range value', { gridConnectionLimitKw: -1 }, 'gridConnectionLimitKw'],
+  ])('rejects a config file with %s', (_, content, message) => {
+    expect(main(['run', '--config', writeJson('config.json', content), '--max-ticks', '96'])).toBe(EXIT_INVALID_INPUT)
+    expect(errors.join('\n')).toContain(message)
+  })
+
+  it('applies a valid config file', () => {
+    const config = writeJson('config.json', { gridConnectionLimitKw: 20, loadManagementStrategy: 'fifo' })
+    expect(main(['run', '--config', config, '--chargepoints', '4', '--max-ticks', '96'])).toBe(EXIT_SUCCESS)
+  })
+
+  it('reports a failed run apart from invalid input', () => {
+    const trace = join(directory, 'trace.csv')
+    writeFileSync(trace, 'arrival_time,energy_kwh\n2030-01-01T10:00:00Z,10\n')
+    expect(main(['replay', trace, '--max-ticks', '4', '--from', '1', '--to', '2'])).toBe(EXIT_RUN_FAILED)
+  })
+})
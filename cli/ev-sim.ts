@@ -0,0 +1,467 @@
+#!/usr/bin/env node
+/**
+ * ev-sim.ts
+ * Command-line runner for the simulation, for scripts and analyses without the Next.js app.
+ *
+ *   ev-sim run --chargepoints 20 --seed 42 --power 11 --format json
+ *   ev-sim sweep --from 1 --to 30 --powers 11,22 --format csv --output sweep.csv
+ *   ev-sim scenario [file.json]
+ *   ev-sim replay sessions.csv --chargepoints 10 --power 22 --from 6 --to 14 --step 2
+ *   ev-sim compare-engines --runs 10 --max-ticks 2880
+ *   ev-sim benchmark --counts 20,200,2000
+ *
+ * Exit codes: 0 on success, 1 if a scenario check failed or the engines differ, 2 for invalid arguments, files or
+ * config, 3 if a run failed.
+ */
+import { writeFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+
+import { getArrivalTraceStartDate, TraceArrivalSource } from '../lib/simulation/arrivals'
+import { DEFAULT_SIMULATION_SEED, createSimulationConfig } from '../lib/simulation/config'
+import { toCsv, type CsvColumn } from '../lib/simulation/csv'
+import {
+  BENCHMARK_CHARGEPOINT_COUNTS,
+  EQUIVALENCE_T_THRESHOLD,
+  benchmarkEngines,
+  compareEngines,
+  type EngineBenchmark,
+} from '../lib/simulation/engine-comparison'
+import { EVChargingSimulation, selectSimulationEngine, type SimulationEngine } from '../lib/simulation/index'
+import { getRunMetrics, type MonteCarloMetric } from '../lib/simulation/monte-carlo'
+import { REGRESSION_SCENARIOS, runScenarios } from '../lib/simulation/scenarios'
+import { replayArrivalTrace, traceReplayToCsv } from '../lib/simulation/replay'
+import { runChargepointSweep, sweepToCsv } from '../lib/simulation/sweep'
+import { InvalidInputError, readConfigFile, readScenarioFile, readTraceFile } from './input-files'
+
+export const EXIT_SUCCESS = 0
+/** A scenario check failed, or the engines are not equivalent. */
+export const EXIT_CHECK_FAILED = 1
+export const EXIT_INVALID_INPUT = 2
+/** The run itself failed, e.g. a replayed trace had no arrival within the run. */
+export const EXIT_RUN_FAILED = 3
+
+type OutputFormat = 'json' | 'csv'
+
+const USAGE = `Usage: ev-sim <command> [options]
+
+Commands:
+  run                 Simulate one station
+  sweep               Simulate a range of chargepoint counts (and powers)
+  scenario [file]     Check regression scenarios from a JSON file (one scenario or an array),
+                      or the built-in scenarios if no file is given
+  replay <trace>      Replay recorded sessions (CSV or JSON) at the recorded station and a range of
+                      chargepoint counts (and powers), and report the changes of peak and rejections.
+                      A CSV trace has the columns arrival_time, energy_kwh and optionally
+                      duration_minutes and vehicle_model. The run starts on the trace's first day
+                      unless the config sets startDate.
+  compare-engines     Run the tick and the event engine for the same seeds and compare the key
+                      metrics; fails if a metric's Welch t value exceeds ${EQUIVALENCE_T_THRESHOLD}
+  benchmark           Time one run of each engine per chargepoint count
+
+Options:
+  --chargepoints <n>  Number of chargepoints (run, compare-engines, replay: recorded station, default 20)
+  --power <kW>        Power of every chargepoint (run, replay: recorded station)
+  --from <n>          First chargepoint count (sweep, replay, default 1)
+  --to <n>            Last chargepoint count (sweep, replay, default 30)
+  --step <n>          Step between counts (sweep, replay, default 1)
+  --powers <kW,...>   Chargepoint powers to sweep (sweep, replay)
+  --runs <n>          Number of seeds (compare-engines, default 10)
+  --counts <n,...>    Chargepoint counts (benchmark, default ${BENCHMARK_CHARGEPOINT_COUNTS.join(',')})
+  --seed <n>          Random seed (compare-engines: first seed)
+  --engine <name>     tick or event (default: event unless there is a grid limit)
+  --max-ticks <n>     Number of ticks to simulate (default: one year)
+  --config <file>     JSON file with simulation config overrides
+  --format <format>   json or csv (default json)
+  --output <file>     Write the result to a file instead of stdout
+  --help              Show this help
+`
+
+/**
+ * Key results of a single run, as written by `ev-sim run`.
+ */
+interface RunSummary {
+  numChargepoints: number
+  seed: number
+  engine: SimulationEngine
+  theoreticalMaxPowerDemandKw: number
+  actualMaxPowerDemandKw: number
+  hourlyMaxPowerDemandKw: number
+  concurrencyFactor: number
+  totalEnergyConsumedKwh: number
+  totalChargingSessions: number
+  rejectedArrivals: number
+  curtailedEnergyKwh: number
+  unservedEnergyKwh: number
+}
+
+const RUN_CSV_COLUMNS: CsvColumn<RunSummary>[] = [
+  { header: 'chargepoints', value: (run) => run.numChargepoints },
+  { header: 'seed', value: (run) => run.seed },
+  { header: 'engine', value: (run) => run.engine },
+  { header: 'theoretical_max_power_kw', value: (run) => run.theoreticalMaxPowerDemandKw },
+  { header: 'actual_max_power_kw', value: (run) => run.actualMaxPowerDemandKw.toFixed(2) },
+  { header: 'hourly_max_power_kw', value: (run) => run.hourlyMaxPowerDemandKw.toFixed(2) },
+  { header: 'concurrency_factor_percent', value: (run) => run.concurrencyFactor.toFixed(2) },
+  { header: 'energy_kwh', value: (run) => run.totalEnergyConsumedKwh.toFixed(2) },
+  { header: 'charging_sessions', value: (run) => run.totalChargingSessions },
+  { header: 'rejected_arrivals', value: (run) => run.rejectedArrivals },
+  { header: 'curtailed_energy_kwh', value: (run) => run.curtailedEnergyKwh.toFixed(2) },
+  { header: 'unserved_energy_kwh', value: (run) => run.unservedEnergyKwh.toFixed(2) },
+]
+
+/**
+ * One row per scenario check, as written by `ev-sim scenario --format csv`.
+ */
+interface ScenarioCheckRow {
+  scenario: string
+  metric: string
+  value: number
+  min: number | null
+  max: number | null
+  passed: boolean
+}
+
+const SCENARIO_CSV_COLUMNS: CsvColumn<ScenarioCheckRow>[] = [
+  { header: 'scenario', value: (row) => row.scenario },
+  { header: 'metric', value: (row) => row.metric },
+  { header: 'value', value: (row) => row.value.toFixed(2) },
+  { header: 'min', value: (row) => row.min },
+  { header: 'max', value: (row) => row.max },
+  { header: 'passed', value: (row) => String(row.passed) },
+]
+
+/**
+ * One row per metric, as written by `ev-sim compare-engines --format csv`.
+ */
+interface EngineComparisonRow {
+  metric: MonteCarloMetric
+  tickMean: number
+  eventMean: number
+  maxRelativeDifference: number
+  tStatistic: number
+  equivalent: boolean
+}
+
+const ENGINE_COMPARISON_CSV_COLUMNS: CsvColumn<EngineComparisonRow>[] = [
+  { header: 'metric', value: (row) => row.metric },
+  { header: 'tick_mean', value: (row) => row.tickMean.toFixed(4) },
+  { header: 'event_mean', value: (row) => row.eventMean.toFixed(4) },
+  { header: 'max_relative_difference', value: (row) => row.maxRelativeDifference },
+  { header: 't_statistic', value: (row) => row.tStatistic.toFixed(4) },
+  { header: 'equivalent', value: (row) => String(row.equivalent) },
+]
+
+const BENCHMARK_CSV_COLUMNS: CsvColumn<EngineBenchmark>[] = [
+  { header: 'chargepoints', value: (benchmark) => benchmark.numChargepoints },
+  { header: 'tick_engine_ms', value: (benchmark) => benchmark.tickEngineMs.toFixed(1) },
+  { header: 'event_engine_ms', value: (benchmark) => benchmark.eventEngineMs.toFixed(1) },
+  { header: 'speedup', value: (benchmark) => benchmark.speedup.toFixed(2) },
+]
+
+/**
+ * Parses a whole number option.
+ * @param {string | undefined} value - The option value, if given.
+ * @param {string} name - The option name, for the error message.
+ * @param {number} [fallback] - Value to use if the option is missing.
+ * @returns {number | undefined} The number, or the fallback.
+ * @throws {InvalidInputError} If the value is not a whole number.
+ */
+function parseIntegerOption(value: string | undefined, name: string, fallback?: number): number | undefined {
+  if (value === undefined) {
+    return fallback
+  }
+  const number = Number(value)
+  if (!Number.isInteger(number)) {
+    throw new InvalidInputError(`--${name} must be a whole number, got "${value}".`)
+  }
+  return number
+}
+
+/**
+ * Parses a count option, such as a number of chargepoints or ticks.
+ * @param {string | undefined} value - The option value, if given.
+ * @param {string} name - The option name, for the error message.
+ * @param {number} [fallback] - Value to use if the option is missing.
+ * @returns {number | undefined} The count, or the fallback.
+ * @throws {InvalidInputError} If the value is not a positive whole number.
+ */
+function parseCountOption(value: string | undefined, name: string, fallback?: number): number | undefined {
+  const count = parseIntegerOption(value, name, fallback)
+  if (count !== undefined && count < 1) {
+    throw new InvalidInputError(`--${name} must be a positive whole number, got "${value}".`)
+  }
+  return count
+}
+
+/**
+ * Parses a positive number option.
+ * @param {string} value - The option value.
+ * @param {string} name - The option name, for the error message.
+ * @returns {number} The number.
+ * @throws {InvalidInputError} If the value is not a positive number.
+ */
+function parsePositiveOption(value: string, name: string): number {
+  const number = Number(value)
+  if (!(number > 0) || !Number.isFinite(number)) {
+    throw new InvalidInputError(`--${name} must be a positive number, got "${value}".`)
+  }
+  return number
+}
+
+/**
+ * Parses the chargepoint counts of a sweep or replay from `--from`, `--to` and `--step`.
+ * @param {{ from?: string; to?: string; step?: string }} values - The option values.
+ * @returns {number[]} The counts.
+ * @throws {InvalidInputError} If the options are not positive whole numbers or do not give a range.
+ */
+function parseChargepointCounts(values: { from?: string; to?: string; step?: string }): number[] {
+  const from = parseCountOption(values.from, 'from', 1) as number
+  const to = parseCountOption(values.to, 'to', 30) as number
+  const step = parseCountOption(values.step, 'step', 1) as number
+  if (to < from) {
+    throw new InvalidInputError(`--to must be at least --from, got ${from} and ${to}.`)
+  }
+  const chargepointCounts: number[] = []
+  for (let count = from; count <= to; count += step) {
+    chargepointCounts.push(count)
+  }
+  return chargepointCounts
+}
+
+/**
+ * Parses the comma-separated `--powers` option.
+ * @param {string | undefined} value - The option value, if given.
+ * @returns {number[] | undefined} The powers in kW.
+ * @throws {InvalidInputError} If a power is not a positive number.
+ */
+function parsePowersOption(value: string | undefined): number[] | undefined {
+  return value?.split(',').map((power) => parsePositiveOption(power.trim(), 'powers'))
+}
+
+/**
+ * Writes a result to a file, or to stdout if no file is given.
+ * @param {string} text - The result.
+ * @param {string | undefined} outputPath - The file path, if given.
+ */
+function writeOutput(text: string, outputPath: string | undefined): void {
+  if (outputPath) {
+    writeFileSync(outputPath, text)
+  } else {
+    process.stdout.write(text)
+  }
+}
+
+function toJson(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`
+}
+
+/**
+ * Runs a CLI command.
+ * @param {string[]} args - The command-line arguments after the script name.
+ * @returns {number} The exit code.
+ */
+export function main(args: string[]): number {
+  let parsed: ReturnType<typeof parseCommandLine>
+  try {
+    parsed = parseCommandLine(args)
+  } catch (error) {
+    console.error(`ev-sim: ${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`)
+    return EXIT_INVALID_INPUT
+  }
+  const { values, positionals } = parsed
+  const command = positionals[0]
+  if (values.help) {
+    process.stdout.write(USAGE)
+    return EXIT_SUCCESS
+  }
+
+  try {
+    const format = (values.format ?? 'json') as OutputFormat
+    if (format !== 'json' && format !== 'csv') {
+      throw new InvalidInputError(`--format must be json or csv, got "${format}".`)
+    }
+    const engine = values.engine as SimulationEngine | undefined
+    if (engine !== undefined && engine !== 'tick' && engine !== 'event') {
+      throw new InvalidInputError(`--engine must be tick or event, got "${engine}".`)
+    }
+    const seed = parseIntegerOption(values.seed, 'seed')
+    const maxTicks = parseCountOption(values['max-ticks'], 'max-ticks')
+    const config = values.config ? readConfigFile(values.config) : {}
+
+    switch (command) {
+      case 'run': {
+        const numChargepoints = parseCountOption(values.chargepoints, 'chargepoints', 20) as number
+        const runConfig = values.power
+          ? { ...config, stationLayout: null, chargepointPowerKw: parsePositiveOption(values.power, 'power') }
+          : config
+        const runEngine = engine ?? selectSimulationEngine(runConfig)
+        const simulation = new EVChargingSimulation(numChargepoints, {
+          seed,
+          verbose: false,
+          engine: runEngine,
+          maxTicks,
+          config: runConfig,
+        })
+        const stats = simulation.run()
+        const metrics = getRunMetrics(simulation)
+        const summary: RunSummary = {
+          numChargepoints: simulation.getChargepointInfo().length,
+          seed: seed ?? DEFAULT_SIMULATION_SEED,
+          engine: runEngine,
+          theoreticalMaxPowerDemandKw: simulation
+            .getStationLayout()
+            .reduce((sum, group) => sum + group.count * group.powerKw, 0),
+          actualMaxPowerDemandKw: metrics.actualMaxPowerDemandKw,
+          hourlyMaxPowerDemandKw: stats.getHourlyMaxPowerDemandKw(),
+          concurrencyFactor: metrics.concurrencyFactor,
+          totalEnergyConsumedKwh: metrics.totalEnergyConsumedKwh,
+          totalChargingSessions: metrics.totalChargingSessions,
+          rejectedArrivals: stats.rejectedArrivals,
+          curtailedEnergyKwh: stats.curtailedEnergyKwh,
+          unservedEnergyKwh: stats.getUnservedEnergyKwh(),
+        }
+        writeOutput(format === 'csv' ? toCsv([summary], RUN_CSV_COLUMNS) : toJson(summary), values.output)
+        return EXIT_SUCCESS
+      }
+      case 'sweep': {
+        const points = runChargepointSweep({
+          chargepointCounts: parseChargepointCounts(values),
+          chargepointPowersKw: parsePowersOption(values.powers),
+          seed,
+          engine: engine ?? selectSimulationEngine(config),
+          maxTicks,
+          config,
+        })
+        writeOutput(format === 'csv' ? sweepToCsv(points) : toJson(points), values.output)
+        return EXIT_SUCCESS
+      }
+      case 'scenario': {
+        const scenarioFile = positionals[1]
+        const results = runScenarios(scenarioFile ? readScenarioFile(scenarioFile) : REGRESSION_SCENARIOS)
+        if (format === 'csv') {
+          const rows: ScenarioCheckRow[] = results.flatMap((result) =>
+            result.checks.map((check) => ({
+              scenario: result.id,
+              metric: check.metric,
+              value: check.value,
+              min: check.expected.min ?? null,
+              max: check.expected.max ?? null,
+              passed: check.passed,
+            })),
+          )
+          writeOutput(toCsv(rows, SCENARIO_CSV_COLUMNS), values.output)
+        } else {
+          writeOutput(toJson(results), values.output)
+        }
+        const failed = results.filter((result) => !result.passed)
+        for (const result of failed) {
+          console.error(`ev-sim: scenario "${result.id}" failed.`)
+        }
+        return failed.length > 0 ? EXIT_CHECK_FAILED : EXIT_SUCCESS
+      }
+      case 'replay': {
+        const traceFile = positionals[1]
+        if (!traceFile) {
+          throw new InvalidInputError('Missing trace file.')
+        }
+        const records = readTraceFile(traceFile)
+        if (records.length === 0) {
+          throw new InvalidInputError(`${traceFile} has no sessions.`)
+        }
+        const traceStartDate = getArrivalTraceStartDate(records)
+        const replayConfig = config.startDate || !traceStartDate ? config : { ...config, startDate: traceStartDate }
+        const result = replayArrivalTrace({
+          arrivalSource: new TraceArrivalSource(records),
+          baseline: {
+            numChargepoints: parseCountOption(values.chargepoints, 'chargepoints', 20) as number,
+            chargepointPowerKw: values.power
+              ? parsePositiveOption(values.power, 'power')
+              : createSimulationConfig(replayConfig).chargepointPowerKw,
+          },
+          chargepointCounts: parseChargepointCounts(values),
+          chargepointPowersKw: parsePowersOption(values.powers),
+          seed,
+          engine: engine ?? selectSimulationEngine(replayConfig),
+          maxTicks,
+          config: replayConfig,
+        })
+        writeOutput(format === 'csv' ? traceReplayToCsv(result) : toJson(result), values.output)
+        return EXIT_SUCCESS
+      }
+      case 'compare-engines': {
+        const comparison = compareEngines(parseCountOption(values.chargepoints, 'chargepoints', 20) as number, {
+          runs: parseCountOption(values.runs, 'runs', 10) as number,
+          baseSeed: seed,
+          verbose: false,
+          maxTicks,
+          config,
+        })
+        if (format === 'csv') {
+          const rows: EngineComparisonRow[] = Object.entries(comparison.metrics).map(([metric, result]) => ({
+            metric: metric as MonteCarloMetric,
+            tickMean: result.tick.mean,
+            eventMean: result.event.mean,
+            maxRelativeDifference: result.maxRelativeDifference,
+            tStatistic: result.tStatistic,
+            equivalent: result.equivalent,
+          }))
+          writeOutput(toCsv(rows, ENGINE_COMPARISON_CSV_COLUMNS), values.output)
+        } else {
+          writeOutput(toJson(comparison), values.output)
+        }
+        if (!comparison.equivalent) {
+          console.error(`ev-sim: the engines differ by more than t = ${EQUIVALENCE_T_THRESHOLD}.`)
+          return EXIT_CHECK_FAILED
+        }
+        return EXIT_SUCCESS
+      }
+      case 'benchmark': {
+        const counts = values.counts?.split(',').map((value) => parseCountOption(value.trim(), 'counts') as number)
+        const benchmarks = benchmarkEngines(counts, { seed, maxTicks, config })
+        writeOutput(format === 'csv' ? toCsv(benchmarks, BENCHMARK_CSV_COLUMNS) : toJson(benchmarks), values.output)
+        return EXIT_SUCCESS
+      }
+      case undefined:
+        throw new InvalidInputError('Missing command.')
+      default:
+        throw new InvalidInputError(`Unknown command "${command}".`)
+    }
+  } catch (error) {
+    console.error(`ev-sim: ${error instanceof Error ? error.message : String(error)}`)
+    return error instanceof InvalidInputError ? EXIT_INVALID_INPUT : EXIT_RUN_FAILED
+  }
+}
+
+/**
+ * Parses the command-line arguments.
+ * @param {string[]} args - The arguments after the script name.
+ * @returns The option values and the positional arguments (command and scenario or trace file).
+ * @throws {Error} If an option is unknown or lacks its value.
+ */
+function parseCommandLine(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      chargepoints: { type: 'string' },
+      power: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      step: { type: 'string' },
+      powers: { type: 'string' },
+      runs: { type: 'string' },
+      counts: { type: 'string' },
+      seed: { type: 'string' },
+      engine: { type: 'string' },
+      'max-ticks': { type: 'string' },
+      config: { type: 'string' },
+      format: { type: 'string' },
+      output: { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  })
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2))
+}
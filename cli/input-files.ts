@@ -0,0 +1,252 @@
+/**
+ * input-files.ts
+ * Reads and validates the files passed to the command-line runner: config overrides, regression scenarios and
+ * recorded traces.
+ */
+import { readFileSync } from 'node:fs'
+import * as z from 'zod'
+
+import { createSimulationConfig, type SimulationConfig } from '../lib/simulation/config'
+import { parseArrivalTrace, type RecordedArrival } from '../lib/simulation/arrivals'
+import type { DistributionSpec } from '../lib/simulation/distributions'
+import type { RegressionScenario } from '../lib/simulation/scenarios'
+
+/**
+ * Invalid arguments or input files. The runner exits with `EXIT_INVALID_INPUT` for these errors only.
+ */
+export class InvalidInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidInputError'
+  }
+}
+
+const distributionItemSchema = z.object({ value: z.number(), probability: z.number() }).strict()
+
+const distributionSpecSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('discrete'), items: z.array(distributionItemSchema) }).strict(),
+  z.object({ type: z.literal('empirical'), values: z.array(z.number()) }).strict(),
+  z.object({ type: z.literal('lognormal'), mu: z.number(), sigma: z.number() }).strict(),
+  z.object({ type: z.literal('gamma'), shape: z.number(), scale: z.number() }).strict(),
+  z
+    .object({
+      type: z.literal('truncated-normal'),
+      mean: z.number(),
+      standardDeviation: z.number(),
+      min: z.number().optional(),
+      max: z.number().optional(),
+    })
+    .strict(),
+  z.object({ type: z.literal('poisson'), mean: z.number() }).strict(),
+]) satisfies z.ZodType<DistributionSpec>
+
+/** Distributions keyed by hour of day, `"0"` to `"23"`. */
+const distributionsByHourSchema = z.record(
+  z.string().regex(/^(1?\d|2[0-3])$/, 'Expected an hour from 0 to 23'),
+  distributionSpecSchema,
+)
+
+const connectorSchema = z.enum(['type2', 'ccs', 'chademo'])
+
+/**
+ * Shape of a config file: any subset of `SimulationConfig` that JSON can express. Unknown keys are rejected, so a
+ * typo does not silently fall back to the default. The value ranges are checked by `createSimulationConfig`.
+ */
+const simulationConfigOverridesSchema = z
+  .object({
+    tickMinutes: z.number(),
+    startDate: z.string(),
+    timeZone: z.string().nullable(),
+    holidays: z.array(z.string()),
+    chargepointPowerKw: z.number(),
+    kwhPer100Km: z.number(),
+    arrivalMultiplier: z.number(),
+    arrivalProbabilityPerHour: z.array(z.number()),
+    arrivalProbabilityPerHourByDayType: z
+      .object({
+        weekday: z.array(z.number()).optional(),
+        saturday: z.array(z.number()).optional(),
+        'sunday-holiday': z.array(z.number()).optional(),
+      })
+      .strict()
+      .nullable(),
+    monthlyArrivalMultipliers: z.array(z.number()).nullable(),
+    monthlyKwhPer100KmMultipliers: z.array(z.number()).nullable(),
+    chargingDemandKmDistribution: distributionSpecSchema,
+    chargingDemandKmDistributionByHour: distributionsByHourSchema.nullable(),
+    maxQueueLength: z.number(),
+    driverPatienceMinutes: z.number(),
+    gridConnectionLimitKw: z.number().nullable(),
+    loadManagementStrategy: z.enum(['equal-share', 'fifo', 'earliest-departure']),
+    dwellTimeMinutesDistribution: distributionSpecSchema.nullable(),
+    dwellTimeMinutesDistributionByHour: distributionsByHourSchema.nullable(),
+    stationLayout: z
+      .array(
+        z
+          .object({
+            id: z.string(),
+            label: z.string(),
+            count: z.number(),
+            powerKw: z.number(),
+            connector: connectorSchema,
+          })
+          .strict(),
+      )
+      .nullable(),
+    vehicleModels: z.record(
+      z.string(),
+      z
+        .object({
+          id: z.string(),
+          name: z.string(),
+          batteryCapacityKwh: z.number(),
+          maxAcPowerKw: z.number(),
+          maxDcPowerKw: z.number().nullable(),
+          connectors: z.array(connectorSchema),
+          chargingCurve: z.array(z.object({ socPercent: z.number(), maxPowerKw: z.number() }).strict()),
+        })
+        .strict(),
+    ),
+    fleetMix: z.array(z.object({ modelId: z.string(), probability: z.number() }).strict()),
+  })
+  .strict()
+  .partial() satisfies z.ZodType<Partial<SimulationConfig>>
+
+const expectedRangeSchema = z.object({ min: z.number().optional(), max: z.number().optional() }).strict()
+
+/**
+ * Shape of a regression scenario, see `RegressionScenario`. `expected` may only name the Monte Carlo metrics.
+ */
+const regressionScenarioSchema = z
+  .object({
+    id: z.string().min(1),
+    description: z.string().default(''),
+    numChargepoints: z.number().int().positive(),
+    seed: z.number().int(),
+    options: z
+      .object({
+        engine: z.enum(['tick', 'event']).optional(),
+        maxTicks: z.number().int().positive().optional(),
+        config: simulationConfigOverridesSchema.optional(),
+      })
+      .strict()
+      .optional(),
+    expected: z
+      .object({
+        actualMaxPowerDemandKw: expectedRangeSchema.optional(),
+        concurrencyFactor: expectedRangeSchema.optional(),
+        totalEnergyConsumedKwh: expectedRangeSchema.optional(),
+        totalChargingSessions: expectedRangeSchema.optional(),
+      })
+      .strict(),
+  })
+  .strict() satisfies z.ZodType<RegressionScenario, z.ZodTypeDef, unknown>
+
+/**
+ * Validates parsed file content against a schema.
+ * @param {z.ZodType<T>} schema - The expected shape.
+ * @param {unknown} content - The parsed content.
+ * @param {string} description - What the content is, e.g. "config file settings.json", for the error message.
+ * @returns {T} The validated content.
+ * @throws {InvalidInputError} Listing every issue with its path.
+ */
+function validateContent<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, content: unknown, description: string): T {
+  const result = schema.safeParse(content)
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.') || 'root'}: ${issue.message}`)
+    throw new InvalidInputError(`Invalid ${description}: ${issues.join('; ')}.`)
+  }
+  return result.data
+}
+
+/**
+ * Checks the value ranges of config overrides.
+ * @param {Partial<SimulationConfig>} config - The overrides.
+ * @param {string} description - Where they come from, for the error message.
+ * @throws {InvalidInputError} If a value is out of its valid range.
+ */
+function validateConfigValues(config: Partial<SimulationConfig>, description: string): void {
+  try {
+    createSimulationConfig(config)
+  } catch (error) {
+    throw new InvalidInputError(`Invalid ${description}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+/**
+ * Reads a text file.
+ * @param {string} path - The file path.
+ * @returns {string} The content.
+ * @throws {InvalidInputError} If the file cannot be read.
+ */
+function readTextFile(path: string): string {
+  try {
+    return readFileSync(path, 'utf8')
+  } catch (error) {
+    throw new InvalidInputError(`Cannot read ${path}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+/**
+ * Reads and parses a JSON file.
+ * @param {string} path - The file path.
+ * @returns {unknown} The parsed content.
+ * @throws {InvalidInputError} If the file cannot be read or is not valid JSON.
+ */
+function readJsonFile(path: string): unknown {
+  const text = readTextFile(path)
+  try {
+    return JSON.parse(text)
+  } catch (error) {
+    throw new InvalidInputError(`${path} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+/**
+ * Reads a `--config` file of `SimulationConfig` overrides.
+ * @param {string} path - The file path.
+ * @returns {Partial<SimulationConfig>} The validated overrides.
+ * @throws {InvalidInputError} If the file cannot be read, has an unknown key or a value of the wrong type or range.
+ */
+export function readConfigFile(path: string): Partial<SimulationConfig> {
+  const description = `config file ${path}`
+  const config = validateContent(simulationConfigOverridesSchema, readJsonFile(path), description)
+  validateConfigValues(config, description)
+  return config
+}
+
+/**
+ * Reads a file of regression scenarios, either a single scenario or an array of them.
+ * @param {string} path - The file path.
+ * @returns {RegressionScenario[]} The validated scenarios.
+ * @throws {InvalidInputError} If the file cannot be read or a scenario is malformed, e.g. lacks its id or checks
+ * an unknown metric.
+ */
+export function readScenarioFile(path: string): RegressionScenario[] {
+  const content = readJsonFile(path)
+  const description = `scenario file ${path}`
+  const scenarios = validateContent(
+    z.array(regressionScenarioSchema),
+    Array.isArray(content) ? content : [content],
+    description,
+  )
+  for (const scenario of scenarios) {
+    validateConfigValues(scenario.options?.config ?? {}, `${description}, scenario "${scenario.id}"`)
+  }
+  return scenarios
+}
+
+/**
+ * Reads a recorded trace, as CSV unless the file name ends in `.json`.
+ * @param {string} path - The file path.
+ * @returns {RecordedArrival[]} The recorded sessions.
+ * @throws {InvalidInputError} If the file cannot be read or is not a valid trace.
+ */
+export function readTraceFile(path: string): RecordedArrival[] {
+  const text = readTextFile(path)
+  try {
+    return parseArrivalTrace(text, path.endsWith('.json') ? 'json' : 'csv')
+  } catch (error) {
+    throw new InvalidInputError(`${path}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
@@ -0,0 +1,98 @@
+'use client'
+
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis, ResponsiveContainer, Tooltip as RechartsTooltip } from 'recharts'
+
+import type { ArrivalHourDataPoint } from '@/app/actions'
+import { type ChartConfig, ChartContainer } from '@/components/ui/chart'
+
+/**
+ * @interface DemandByHourChartProps
+ * @description Props for the DemandByHourChart component.
+ */
+interface DemandByHourChartProps {
+  /** @type {ArrivalHourDataPoint[]} data - One data point per hour of arrival (0-23). */
+  data: ArrivalHourDataPoint[]
+}
+
+/**
+ * @const {ChartConfig} chartConfig
+ * @description Configuration for the chart's series, including label and color.
+ */
+const chartConfig = {
+  averageRequestedKwh: {
+    label: 'Avg. Requested Energy',
+    color: 'hsl(var(--chart-2))', // Blue
+  },
+} satisfies ChartConfig
+
+/**
+ * DemandByHourChart component.
+ * Renders a bar chart of the average energy requested per arrival for each hour of arrival.
+ * @param {DemandByHourChartProps} props - Component props.
+ * @returns {JSX.Element} The bar chart visualization or a placeholder if no data.
+ */
+export function DemandByHourChart({ data }: DemandByHourChartProps) {
+  if (!data || data.every((point) => point.arrivals === 0)) {
+    return (
+      <div className="flex h-[250px] flex-col items-center justify-center text-muted-foreground">
+        <p className="text-sm">No arrivals were recorded.</p>
+      </div>
+    )
+  }
+
+  const formattedData = data.map((point) => ({
+    ...point,
+    time: `${String(point.hour).padStart(2, '0')}:00`,
+  }))
+
+  return (
+    <ChartContainer config={chartConfig} className="h-[250px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={formattedData} margin={{ top: 5, right: 5, left: -25, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--chart-grid))" vertical={false} />
+          <XAxis
+            dataKey="time"
+            stroke="hsl(var(--muted-foreground))"
+            tickLine={false}
+            axisLine={false}
+            tickMargin={8}
+            className="text-[11px]"
+            interval="preserveStartEnd"
+            minTickGap={40}
+          />
+          <YAxis
+            stroke="hsl(var(--muted-foreground))"
+            tickLine={false}
+            axisLine={false}
+            tickMargin={5}
+            className="text-[11px]"
+            tickFormatter={(value) => `${value}`} // Display plain number for kWh
+          />
+          <RechartsTooltip
+            cursor={{ fill: 'hsl(var(--secondary))' }}
+            contentStyle={{
+              background: 'hsl(var(--popover))',
+              borderColor: 'hsl(var(--border))',
+              borderRadius: 'var(--radius)',
+              boxShadow: 'var(--shadow-lg)',
+              padding: '0.3rem 0.6rem',
+              fontSize: '0.75rem',
+            }}
+            labelFormatter={(label) => `Arrivals at ${label}`}
+            formatter={(value, name, item) => {
+              const config = chartConfig[name as keyof typeof chartConfig]
+              const arrivals = (item.payload as ArrivalHourDataPoint).arrivals
+              return [`${Number(value).toFixed(1)} kWh (${arrivals.toLocaleString()} arrivals)`, config?.label || name]
+            }}
+          />
+          <Bar
+            dataKey="averageRequestedKwh"
+            name="averageRequestedKwh" // Key for tooltip formatter
+            fill={chartConfig.averageRequestedKwh.color}
+            radius={[2, 2, 0, 0]}
+          />
+        </BarChart>
+      </ResponsiveContainer>
+    </ChartContainer>
+  )
+}
@@ -23,6 +23,8 @@ interface ExemplaryDayChartProps {
   data: ExemplaryDayDataPoint[]
   /** @type {number} maxPower - The theoretical maximum power, used for a reference line. */
   maxPower: number
+  /** @type {number | null} [gridLimitKw] - The grid connection limit, shown as a reference line if set. */
+  gridLimitKw?: number | null
 }
 
 /**
@@ -31,18 +33,22 @@ interface ExemplaryDayChartProps {
  */
 const chartConfig = {
   powerDemandKw: {
-    label: 'Power Demand',
+    label: 'Peak Power',
     color: 'hsl(var(--chart-1))', // Orange
   },
+  averagePowerKw: {
+    label: 'Hourly Average',
+    color: 'hsl(var(--chart-2))', // Blue
+  },
 } satisfies ChartConfig
 
 /**
  * ExemplaryDayChart component.
- * Renders a line chart showing power demand for each hour of an exemplary day.
+ * Renders a line chart showing the peak and average power demand for each hour of an exemplary day.
  * @param {ExemplaryDayChartProps} props - Component props.
  * @returns {JSX.Element} The line chart visualization or a placeholder if no data.
  */
-export function ExemplaryDayChart({ data, maxPower }: ExemplaryDayChartProps) {
+export function ExemplaryDayChart({ data, maxPower, gridLimitKw }: ExemplaryDayChartProps) {
   if (!data || data.length === 0) {
     return (
       <div className="flex h-[250px] flex-col items-center justify-center text-muted-foreground">
@@ -117,6 +123,20 @@ export function ExemplaryDayChart({ data, maxPower }: ExemplaryDayChartProps) {
             stroke="hsl(var(--destructive) / 0.5)"
             strokeDasharray="2 2"
           />
+          {gridLimitKw && (
+            <ReferenceLine
+              y={gridLimitKw}
+              label={{
+                value: 'Grid Limit',
+                position: 'insideBottomRight',
+                className: 'text-[10px] fill-muted-foreground',
+                dy: -5,
+                dx: -5,
+              }}
+              stroke="hsl(var(--muted-foreground) / 0.6)"
+              strokeDasharray="4 4"
+            />
+          )}
           <Line
             type="monotone"
             dataKey="powerDemandKw"
@@ -126,6 +146,16 @@ export function ExemplaryDayChart({ data, maxPower }: ExemplaryDayChartProps) {
             dot={false}
             activeDot={{ r: 4, strokeWidth: 1, className: 'stroke-primary fill-background' }}
           />
+          <Line
+            type="monotone"
+            dataKey="averagePowerKw"
+            name="averagePowerKw"
+            stroke={chartConfig.averagePowerKw.color}
+            strokeWidth={1.5}
+            strokeDasharray="4 2"
+            dot={false}
+            activeDot={{ r: 3, strokeWidth: 1, className: 'fill-background' }}
+          />
         </LineChart>
       </ResponsiveContainer>
     </ChartContainer>
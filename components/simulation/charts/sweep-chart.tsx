@@ -0,0 +1,126 @@
+'use client'
+
+import { Line, LineChart, CartesianGrid, XAxis, YAxis, ResponsiveContainer, Tooltip as RechartsTooltip } from 'recharts'
+
+import type { SweepPoint } from '@/lib/simulation/sweep'
+import { type ChartConfig, ChartContainer } from '@/components/ui/chart'
+
+/**
+ * @interface SweepChartProps
+ * @description Props for the SweepChart component.
+ */
+interface SweepChartProps {
+  /** @type {SweepPoint[]} data - Sweep results of a single chargepoint power, ordered by chargepoint count. */
+  data: SweepPoint[]
+}
+
+/**
+ * @const {ChartConfig} chartConfig
+ * @description Configuration for the chart's series, including label and color.
+ */
+const chartConfig = {
+  concurrencyFactor: {
+    label: 'Concurrency Factor',
+    color: 'hsl(var(--chart-1))', // Orange
+  },
+  actualMaxPowerDemandKw: {
+    label: 'Max Power',
+    color: 'hsl(var(--chart-2))', // Blue
+  },
+} satisfies ChartConfig
+
+/**
+ * SweepChart component.
+ * Renders the concurrency factor (left axis) and the actual max power demand (right axis) against the
+ * number of chargepoints.
+ * @param {SweepChartProps} props - Component props.
+ * @returns {JSX.Element} The line chart visualization or a placeholder if no data.
+ */
+export function SweepChart({ data }: SweepChartProps) {
+  if (!data || data.length === 0) {
+    return (
+      <div className="flex h-[250px] flex-col items-center justify-center text-muted-foreground">
+        <p className="text-sm">Run a sweep to see how the concurrency factor changes with station size.</p>
+      </div>
+    )
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="h-[250px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 5, right: 5, left: -15, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--chart-grid))" vertical={false} />
+          <XAxis
+            dataKey="numChargepoints"
+            stroke="hsl(var(--muted-foreground))"
+            tickLine={false}
+            axisLine={false}
+            tickMargin={8}
+            className="text-[11px]"
+            interval="preserveStartEnd"
+            minTickGap={20}
+          />
+          <YAxis
+            yAxisId="concurrency"
+            stroke="hsl(var(--muted-foreground))"
+            tickLine={false}
+            axisLine={false}
+            tickMargin={5}
+            className="text-[11px]"
+            tickFormatter={(value) => `${value}%`}
+            domain={[0, 100]}
+          />
+          <YAxis
+            yAxisId="power"
+            orientation="right"
+            stroke="hsl(var(--muted-foreground))"
+            tickLine={false}
+            axisLine={false}
+            tickMargin={5}
+            className="text-[11px]"
+            tickFormatter={(value) => `${value}`} // Display plain number for kW
+            domain={[0, 'dataMax + 20']}
+          />
+          <RechartsTooltip
+            cursor={{ stroke: 'hsl(var(--border))', strokeWidth: 1 }}
+            contentStyle={{
+              background: 'hsl(var(--popover))',
+              borderColor: 'hsl(var(--border))',
+              borderRadius: 'var(--radius)',
+              boxShadow: 'var(--shadow-lg)',
+              padding: '0.3rem 0.6rem',
+              fontSize: '0.75rem',
+            }}
+            labelFormatter={(label) => `${label} chargepoints`}
+            formatter={(value, name) => {
+              const config = chartConfig[name as keyof typeof chartConfig]
+              const unit = name === 'concurrencyFactor' ? '%' : ' kW'
+              return [`${Number(value).toFixed(1)}${unit}`, config?.label || name]
+            }}
+          />
+          <Line
+            yAxisId="concurrency"
+            type="monotone"
+            dataKey="concurrencyFactor"
+            name="concurrencyFactor" // Key for tooltip formatter
+            stroke={chartConfig.concurrencyFactor.color}
+            strokeWidth={1.5}
+            dot={{ r: 2 }}
+            activeDot={{ r: 4, strokeWidth: 1, className: 'stroke-primary fill-background' }}
+          />
+          <Line
+            yAxisId="power"
+            type="monotone"
+            dataKey="actualMaxPowerDemandKw"
+            name="actualMaxPowerDemandKw"
+            stroke={chartConfig.actualMaxPowerDemandKw.color}
+            strokeWidth={1.5}
+            strokeDasharray="4 2"
+            dot={{ r: 2 }}
+            activeDot={{ r: 3, strokeWidth: 1, className: 'fill-background' }}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </ChartContainer>
+  )
+}
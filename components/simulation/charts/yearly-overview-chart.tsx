@@ -13,6 +13,7 @@ import {
 
 import type { DailyPeakDataPoint } from '@/app/actions'
 import { type ChartConfig, ChartContainer } from '@/components/ui/chart'
+import { formatSimulationDate } from '@/components/simulation/common'
 
 /**
  * @interface YearlyOverviewChartProps
@@ -23,6 +24,8 @@ interface YearlyOverviewChartProps {
   data: DailyPeakDataPoint[]
   /** @type {number} maxPower - The theoretical maximum power, used for a reference line. */
   maxPower: number
+  /** @type {number | null} [gridLimitKw] - The grid connection limit, shown as a reference line if set. */
+  gridLimitKw?: number | null
 }
 
 /**
@@ -42,7 +45,7 @@ const chartConfig = {
  * @param {YearlyOverviewChartProps} props - Component props.
  * @returns {JSX.Element} The bar chart visualization or a placeholder if no data.
  */
-export function YearlyOverviewChart({ data, maxPower }: YearlyOverviewChartProps) {
+export function YearlyOverviewChart({ data, maxPower, gridLimitKw }: YearlyOverviewChartProps) {
   if (!data || data.length === 0) {
     return (
       <div className="flex h-[250px] flex-col items-center justify-center text-muted-foreground">
@@ -51,6 +54,11 @@ export function YearlyOverviewChart({ data, maxPower }: YearlyOverviewChartProps
     )
   }
 
+  // Label the first day of each month, plus the first day shown
+  const monthStartTicks = data
+    .filter((point, index) => index === 0 || point.date.endsWith('-01'))
+    .map((point) => point.date)
+
   return (
     <ChartContainer config={chartConfig} className="h-[250px] w-full">
       <ResponsiveContainer width="100%" height="100%">
@@ -66,17 +74,15 @@ export function YearlyOverviewChart({ data, maxPower }: YearlyOverviewChartProps
         >
           <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--chart-grid))" vertical={false} />
           <XAxis
-            dataKey="day"
+            dataKey="date"
             stroke="hsl(var(--muted-foreground))"
             tickLine={false}
             axisLine={false}
             tickMargin={8}
             className="text-[11px]"
-            interval="preserveStartEnd" // Ensures first and last ticks are shown if possible
-            minTickGap={60} // Minimum gap between ticks to avoid clutter
-            tickFormatter={(tick) =>
-              tick % 30 === 0 || tick === 1 || tick === data[data.length - 1]?.day ? `D${tick}` : ''
-            } // Show labels for D1, D365 and roughly monthly
+            ticks={monthStartTicks}
+            minTickGap={20} // Minimum gap between ticks to avoid clutter
+            tickFormatter={(date: string) => formatSimulationDate(date).replace(/, \d{4}$/, '')} // e.g. "Mar 1"
           />
           <YAxis
             stroke="hsl(var(--muted-foreground))"
@@ -97,10 +103,11 @@ export function YearlyOverviewChart({ data, maxPower }: YearlyOverviewChartProps
               padding: '0.3rem 0.6rem',
               fontSize: '0.75rem',
             }}
-            labelFormatter={(label) => `Day ${label}`}
-            formatter={(value, name) => {
+            labelFormatter={(label) => formatSimulationDate(String(label), true)}
+            formatter={(value, name, item) => {
               const config = chartConfig[name as keyof typeof chartConfig]
-              return [`${Number(value).toFixed(1)} kW`, config?.label || name]
+              const energyKwh = (item.payload as DailyPeakDataPoint).energyKwh
+              return [`${Number(value).toFixed(1)} kW (${energyKwh.toFixed(1)} kWh)`, config?.label || name]
             }}
           />
           <ReferenceLine
@@ -115,6 +122,20 @@ export function YearlyOverviewChart({ data, maxPower }: YearlyOverviewChartProps
             stroke="hsl(var(--destructive) / 0.5)"
             strokeDasharray="2 2"
           />
+          {gridLimitKw && (
+            <ReferenceLine
+              y={gridLimitKw}
+              label={{
+                value: 'Grid Limit',
+                position: 'insideBottomRight',
+                className: 'text-[10px] fill-muted-foreground',
+                dy: -5,
+                dx: -5,
+              }}
+              stroke="hsl(var(--muted-foreground) / 0.6)"
+              strokeDasharray="4 4"
+            />
+          )}
           <Bar
             dataKey="peakPowerKw"
             name="peakPowerKw" // Key for tooltip formatter
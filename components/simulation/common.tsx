@@ -1,12 +1,14 @@
 /**
  * @file components/simulation/common.tsx
  * @description Contains common UI components used within the simulation results display,
- * such as stat cards and chart wrapper cards.
+ * such as stat cards, Monte Carlo distribution bands and chart wrapper cards, and date formatting shared
+ * by the result views.
  */
 'use client'
 
 import type React from 'react'
 
+import type { MetricSummary } from '@/lib/simulation/monte-carlo'
 import { cn } from '@/lib/utils'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 
@@ -24,6 +26,8 @@ export interface StatCardProps {
   description?: string
   /** @type {boolean} [small] - If true, applies smaller padding and font sizes. */
   small?: boolean
+  /** @type {React.ReactNode} [children] - Optional extra content below the description, e.g. a DistributionBand. */
+  children?: React.ReactNode
   // icon?: React.ReactNode; // Optional icon placeholder
 }
 
@@ -33,16 +37,62 @@ export interface StatCardProps {
  * @param {StatCardProps} props - Component props.
  * @returns {JSX.Element} The statistic card.
  */
-export function StatCard({ title, value, description, small }: StatCardProps) {
+export function StatCard({ title, value, description, small, children }: StatCardProps) {
   return (
     <Card className={cn('border-border bg-card shadow-card', small ? 'p-4' : 'p-5')}>
       <p className={cn('mb-0.5 text-xs text-muted-foreground', small ? 'mb-0' : 'mb-0.5')}>{title}</p>
       <p className={cn('font-semibold text-foreground', small ? 'text-xl' : 'text-2xl')}>{value}</p>
       {description && <p className="mt-0.5 text-xs text-muted-foreground">{description}</p>}
+      {children}
     </Card>
   )
 }
 
+/**
+ * @interface DistributionBandProps
+ * @description Props for the DistributionBand component.
+ */
+export interface DistributionBandProps {
+  /** @type {MetricSummary} summary - Distribution of the metric over the Monte Carlo runs. */
+  summary: MetricSummary
+  /** @type {number} value - The value of the displayed run, marked on the band. */
+  value: number
+  /** @type {(value: number) => string} format - Formats a value of the metric, including its unit. */
+  format: (value: number) => string
+}
+
+/**
+ * DistributionBand component.
+ * Draws the range of a metric over all Monte Carlo runs: the full track spans min to max, the shaded band
+ * P5 to P95, the line marks the median and the dot the value of the displayed run.
+ * @param {DistributionBandProps} props - Component props.
+ * @returns {JSX.Element} The band with its P5-P95 and mean ± standard deviation labels.
+ */
+export function DistributionBand({ summary, value, format }: DistributionBandProps) {
+  const range = summary.max - summary.min
+  const toPercent = (x: number) => (range > 0 ? ((x - summary.min) / range) * 100 : 50)
+
+  return (
+    <div className="mt-3 space-y-1">
+      <div className="relative h-1.5 rounded-full bg-secondary">
+        <div
+          className="absolute inset-y-0 rounded-full bg-chart-2/40"
+          style={{ left: `${toPercent(summary.p5)}%`, width: `${toPercent(summary.p95) - toPercent(summary.p5)}%` }}
+        />
+        <div className="absolute inset-y-0 w-px bg-foreground/70" style={{ left: `${toPercent(summary.p50)}%` }} />
+        <div
+          className="absolute top-1/2 h-2 w-2 -translate-x-1/2 -translate-y-1/2 rounded-full bg-chart-1"
+          style={{ left: `${toPercent(value)}%` }}
+        />
+      </div>
+      <p className="text-[11px] text-muted-foreground">
+        P5–P95: {format(summary.p5)} – {format(summary.p95)} · mean {format(summary.mean)} ±{' '}
+        {format(summary.standardDeviation)}
+      </p>
+    </div>
+  )
+}
+
 /**
  * @interface ChartCardProps
  * @description Props for the ChartCard component.
@@ -86,3 +136,20 @@ export function ChartCard({ title, description, children, controls }: ChartCardP
     </Card>
   )
 }
+
+/**
+ * Formats a calendar date for display, e.g. "Sun, Mar 26, 2023".
+ * The date is already local to the simulated station, so it is formatted as UTC to avoid a second shift.
+ * @param {string} date - The date, YYYY-MM-DD.
+ * @param {boolean} [withWeekday] - Whether to prefix the day of the week.
+ * @returns {string} The formatted date.
+ */
+export function formatSimulationDate(date: string, withWeekday = false): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    weekday: withWeekday ? 'short' : undefined,
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
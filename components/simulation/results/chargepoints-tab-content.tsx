@@ -0,0 +1,127 @@
+/**
+ * @file components/simulation/results/chargepoints-tab-content.tsx
+ * @description Renders the content for the "Chargepoints" tab,
+ * showing energy, peak power and utilization per chargepoint group,
+ * and how long each chargepoint was occupied and how much of that time it sat idle.
+ */
+'use client'
+
+import type { ChargepointGroupStatistics, ChargepointStatistics } from '@/app/actions'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+
+/**
+ * @interface ChargepointsTabContentProps
+ * @description Props for the ChargepointsTabContent component.
+ */
+interface ChargepointsTabContentProps {
+  chargepointStats: ChargepointStatistics[]
+  groupStats: ChargepointGroupStatistics[]
+  departuresBeforeFull: number
+}
+
+/**
+ * ChargepointsTabContent component.
+ * Displays statistics per chargepoint group, and occupancy and idle time per chargepoint.
+ * @param {ChargepointsTabContentProps} props - Component props.
+ * @returns {JSX.Element} The content for the chargepoints tab.
+ */
+export function ChargepointsTabContent({
+  chargepointStats,
+  groupStats,
+  departuresBeforeFull,
+}: ChargepointsTabContentProps) {
+  return (
+    <div className="space-y-6">
+      <Card className="border-border bg-card shadow-card">
+        <CardHeader>
+          <CardTitle className="text-base font-medium">Chargepoint Groups</CardTitle>
+          <CardDescription className="text-sm text-muted-foreground">
+            Utilization is the share of chargepoint time with an EV attached.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="pt-2">
+          <Table className="text-sm">
+            <TableHeader>
+              <TableRow>
+                <TableHead className="h-11 px-4 text-left align-middle font-medium text-muted-foreground">
+                  Group
+                </TableHead>
+                <TableHead className="h-11 px-4 text-right align-middle font-medium text-muted-foreground">
+                  Peak Power
+                </TableHead>
+                <TableHead className="h-11 px-4 text-right align-middle font-medium text-muted-foreground">
+                  Energy
+                </TableHead>
+                <TableHead className="h-11 px-4 text-right align-middle font-medium text-muted-foreground">
+                  Utilization
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groupStats.map((group) => (
+                <TableRow key={group.id} className="hover:bg-secondary/80 data-[state=selected]:bg-muted">
+                  <TableCell className="px-4 py-2 align-middle font-medium">{group.label}</TableCell>
+                  <TableCell className="px-4 py-2 text-right align-middle">{group.peakPowerKw.toFixed(1)} kW</TableCell>
+                  <TableCell className="px-4 py-2 text-right align-middle">
+                    {group.energyKwh.toLocaleString(undefined, { maximumFractionDigits: 0 })} kWh
+                  </TableCell>
+                  <TableCell className="px-4 py-2 text-right align-middle">{group.utilization.toFixed(1)}%</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+      <Card className="border-border bg-card shadow-card">
+        <CardHeader>
+          <CardTitle className="text-base font-medium">Chargepoint Occupancy</CardTitle>
+          <CardDescription className="text-sm text-muted-foreground">
+            Idle time is time with an EV attached that did not draw any energy. {departuresBeforeFull.toLocaleString()}{' '}
+            EVs left before they were fully charged.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="pt-2">
+          <Table className="text-sm">
+            <TableHeader>
+              <TableRow>
+                <TableHead className="h-11 px-4 text-left align-middle font-medium text-muted-foreground">
+                  Chargepoint
+                </TableHead>
+                <TableHead className="h-11 px-4 text-left align-middle font-medium text-muted-foreground">
+                  Group
+                </TableHead>
+                <TableHead className="h-11 px-4 text-right align-middle font-medium text-muted-foreground">
+                  Power
+                </TableHead>
+                <TableHead className="h-11 px-4 text-right align-middle font-medium text-muted-foreground">
+                  Occupied
+                </TableHead>
+                <TableHead className="h-11 px-4 text-right align-middle font-medium text-muted-foreground">
+                  Idle
+                </TableHead>
+                <TableHead className="h-11 px-4 text-right align-middle font-medium text-muted-foreground">
+                  Idle Share
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {chargepointStats.map((cp) => (
+                <TableRow key={cp.id} className="hover:bg-secondary/80 data-[state=selected]:bg-muted">
+                  <TableCell className="px-4 py-2 align-middle font-medium">CP {cp.id}</TableCell>
+                  <TableCell className="px-4 py-2 align-middle text-muted-foreground">{cp.groupLabel}</TableCell>
+                  <TableCell className="px-4 py-2 text-right align-middle">{cp.powerKw} kW</TableCell>
+                  <TableCell className="px-4 py-2 text-right align-middle">{cp.occupiedHours.toFixed(1)} h</TableCell>
+                  <TableCell className="px-4 py-2 text-right align-middle">{cp.idleHours.toFixed(1)} h</TableCell>
+                  <TableCell className="px-4 py-2 text-right align-middle">
+                    {cp.occupiedHours > 0 ? ((cp.idleHours / cp.occupiedHours) * 100).toFixed(1) : '0.0'}%
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,14 +1,16 @@
 /**
  * @file components/simulation/results/charts-tab-content.tsx
  * @description Renders the content for the "Performance Charts" tab,
- * including charts for exemplary day power and yearly peak power, along with their filters.
+ * including charts for exemplary day power, yearly peak power and requested energy by arrival hour, along with
+ * their filters.
  */
 'use client'
 
-import type { ExemplaryDayDataPoint, DailyPeakDataPoint } from '@/app/actions'
-import { ChartCard } from '@/components/simulation/common'
+import type { ArrivalHourDataPoint, ExemplaryDayDataPoint, DailyPeakDataPoint } from '@/app/actions'
+import { ChartCard, formatSimulationDate } from '@/components/simulation/common'
 import { ExemplaryDayChart } from '@/components/simulation/charts/exemplary-day-chart'
 import { YearlyOverviewChart } from '@/components/simulation/charts/yearly-overview-chart'
+import { DemandByHourChart } from '@/components/simulation/charts/demand-by-hour-chart'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Label } from '@/components/ui/label'
 
@@ -17,9 +19,13 @@ import { Label } from '@/components/ui/label'
  * @description Props for the ChartsTabContent component.
  */
 interface ChartsTabContentProps {
+  exemplaryDay: number
+  exemplaryDate: string
   exemplaryDayPowerData: ExemplaryDayDataPoint[]
   yearlyPeakPowerData: DailyPeakDataPoint[]
+  demandByHourData: ArrivalHourDataPoint[]
   theoreticalMaxPowerKw: number
+  gridLimitKw: number | null
   hourRange: { start: number; end: number }
   onHourRangeChange: (newRange: { start: number; end: number }) => void
   yearlyPeriod: string
@@ -35,9 +41,13 @@ interface ChartsTabContentProps {
  * @returns {JSX.Element} The content for the charts tab.
  */
 export function ChartsTabContent({
+  exemplaryDay,
+  exemplaryDate,
   exemplaryDayPowerData,
   yearlyPeakPowerData,
+  demandByHourData,
   theoreticalMaxPowerKw,
+  gridLimitKw,
   hourRange,
   onHourRangeChange,
   yearlyPeriod,
@@ -49,7 +59,7 @@ export function ChartsTabContent({
     <div className="space-y-6">
       <ChartCard
         title="Exemplary Day Power Demand"
-        description="Simulated power demand (kW) over a 24-hour period."
+        description={`Peak power demand (kW) per hour on ${formatSimulationDate(exemplaryDate, true)} (day ${exemplaryDay}), the day with the highest simulated peak.`}
         controls={
           <div className="flex items-center gap-2">
             <div className="flex items-center gap-1.5">
@@ -115,7 +125,7 @@ export function ChartsTabContent({
           </div>
         }
       >
-        <ExemplaryDayChart data={exemplaryDayPowerData} maxPower={theoreticalMaxPowerKw} />
+        <ExemplaryDayChart data={exemplaryDayPowerData} maxPower={theoreticalMaxPowerKw} gridLimitKw={gridLimitKw} />
       </ChartCard>
       <ChartCard
         title="Daily Peak Power Overview"
@@ -135,7 +145,13 @@ export function ChartsTabContent({
           </Select>
         }
       >
-        <YearlyOverviewChart data={yearlyPeakPowerData} maxPower={theoreticalMaxPowerKw} />
+        <YearlyOverviewChart data={yearlyPeakPowerData} maxPower={theoreticalMaxPowerKw} gridLimitKw={gridLimitKw} />
+      </ChartCard>
+      <ChartCard
+        title="Requested Energy by Arrival Hour"
+        description="Average energy (kWh) requested per arriving EV, by local hour of arrival, including EVs without demand."
+      >
+        <DemandByHourChart data={demandByHourData} />
       </ChartCard>
     </div>
   )
@@ -6,6 +6,7 @@
 'use client'
 
 import type { SimulationInputParameters } from '@/app/actions'
+import { CONNECTOR_LABELS } from '@/lib/simulation/config'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 
 /**
@@ -31,18 +32,62 @@ export function DetailsTabContent({ inputsUsed }: DetailsTabContentProps) {
       <CardContent className="text-sm">
         <ul className="space-y-1.5 text-muted-foreground">
           <li>
-            <span className="font-medium text-foreground">Chargepoints:</span> {inputsUsed.numChargepoints}
+            <span className="font-medium text-foreground">Chargepoints:</span>{' '}
+            {inputsUsed.chargepointGroups
+              .map((group) => `${group.count}× ${group.powerKw} kW ${CONNECTOR_LABELS[group.connector]}`)
+              .join(', ')}
           </li>
           <li>
             <span className="font-medium text-foreground">Arrival Multiplier:</span> {inputsUsed.arrivalMultiplier}%
           </li>
           <li>
-            <span className="font-medium text-foreground">Car Consumption (UI):</span>{' '}
-            {inputsUsed.carConsumptionKwh100km} kWh/100km
+            <span className="font-medium text-foreground">Car Consumption:</span> {inputsUsed.carConsumptionKwh100km}{' '}
+            kWh/100km
           </li>
           <li>
-            <span className="font-medium text-foreground">Chargepoint Power (UI):</span> {inputsUsed.chargepointPowerKw}{' '}
-            kW
+            <span className="font-medium text-foreground">Seasonality:</span>{' '}
+            {inputsUsed.seasonality === 'none' ? 'None' : inputsUsed.seasonality}
+          </li>
+          <li>
+            <span className="font-medium text-foreground">Max Queue Length:</span> {inputsUsed.maxQueueLength}
+          </li>
+          <li>
+            <span className="font-medium text-foreground">Driver Patience:</span> {inputsUsed.driverPatienceMinutes} min
+          </li>
+          <li>
+            <span className="font-medium text-foreground">Grid Connection Limit:</span>{' '}
+            {inputsUsed.gridConnectionLimitKw > 0 ? `${inputsUsed.gridConnectionLimitKw} kW` : 'None'}
+          </li>
+          <li>
+            <span className="font-medium text-foreground">Load Management:</span> {inputsUsed.loadManagementStrategy}
+          </li>
+          <li>
+            <span className="font-medium text-foreground">Demand by Hour:</span>{' '}
+            {inputsUsed.demandProfile === 'none' ? 'Same all day' : inputsUsed.demandProfile}
+          </li>
+          <li>
+            <span className="font-medium text-foreground">Dwell Time:</span>{' '}
+            {inputsUsed.dwellTimeProfile === 'none' ? 'Leave when fully charged' : inputsUsed.dwellTimeProfile}
+          </li>
+          <li>
+            <span className="font-medium text-foreground">Time Resolution:</span> {inputsUsed.tickMinutes} min
+          </li>
+          <li>
+            <span className="font-medium text-foreground">Monte Carlo Runs:</span> {inputsUsed.monteCarloRuns}
+          </li>
+          <li>
+            <span className="font-medium text-foreground">Start Date:</span> {inputsUsed.startDate} (
+            {inputsUsed.timeZone})
+          </li>
+          <li>
+            <span className="font-medium text-foreground">Holidays:</span>{' '}
+            {inputsUsed.holidays.length > 0 ? inputsUsed.holidays.join(', ') : 'None'}
+          </li>
+          <li>
+            <span className="font-medium text-foreground">Weekends:</span>{' '}
+            {inputsUsed.dayTypeProfile === 'weekend'
+              ? 'Quieter weekend and holiday profiles'
+              : 'Same profile every day'}
           </li>
         </ul>
       </CardContent>
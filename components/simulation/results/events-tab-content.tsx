@@ -1,21 +1,25 @@
 /**
  * @file components/simulation/results/events-tab-content.tsx
  * @description Renders the content for the "Charging Events" tab,
- * including average session stats and a monthly breakdown table.
+ * including average session stats and a paginated table of the recorded sessions.
  */
 'use client'
 
-import type { ChargingEventsBreakdown } from '@/app/actions'
+import type { ChargingEventsBreakdown, QueueStatistics } from '@/app/actions'
+import type { ChargingSession } from '@/lib/simulation/session'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { StatCard } from '@/components/simulation/common'
 
+import { SessionsTable } from './sessions-table'
+
 /**
  * @interface EventsTabContentProps
  * @description Props for the EventsTabContent component.
  */
 interface EventsTabContentProps {
   eventsBreakdown: ChargingEventsBreakdown
+  queueStats: QueueStatistics
+  sessions: ChargingSession[]
   monthNames: string[]
 }
 
@@ -25,13 +29,16 @@ interface EventsTabContentProps {
  * @param {EventsTabContentProps} props - Component props.
  * @returns {JSX.Element} The content for the events tab.
  */
-export function EventsTabContent({ eventsBreakdown, monthNames }: EventsTabContentProps) {
+export function EventsTabContent({ eventsBreakdown, queueStats, sessions, monthNames }: EventsTabContentProps) {
+  // Month filter labels carry the number of charging sessions started in that month
+  const monthLabels = monthNames.map((name, index) => `${name} (${eventsBreakdown.perMonth[index] ?? 0})`)
+
   return (
     <Card className="border-border bg-card shadow-card">
       <CardHeader>
         <CardTitle className="text-base font-medium">Charging Events Breakdown</CardTitle>
         <CardDescription className="text-sm text-muted-foreground">
-          Illustrative breakdown of total charging sessions (mocked).
+          Every EV arrival recorded by the simulation, including arrivals that did not charge.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-5 pt-2">
@@ -39,26 +46,27 @@ export function EventsTabContent({ eventsBreakdown, monthNames }: EventsTabConte
           <StatCard title="Avg. Daily Sessions" value={eventsBreakdown.avgPerDay.toFixed(1)} small />
           <StatCard title="Avg. Weekly Sessions" value={eventsBreakdown.avgPerWeek.toFixed(1)} small />
         </div>
-        <Table className="text-sm">
-          <TableHeader>
-            <TableRow>
-              <TableHead className="h-11 min-w-[120px] px-4 text-left align-middle font-medium text-muted-foreground">
-                Month
-              </TableHead>
-              <TableHead className="h-11 px-4 text-right align-middle font-medium text-muted-foreground">
-                Sessions
-              </TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {eventsBreakdown.perMonth.map((sessions, index) => (
-              <TableRow key={monthNames[index]} className="hover:bg-secondary/80 data-[state=selected]:bg-muted">
-                <TableCell className="px-4 py-3 align-middle font-medium">{monthNames[index]}</TableCell>
-                <TableCell className="px-4 py-3 text-right align-middle">{sessions.toLocaleString()}</TableCell>
-              </TableRow>
-            ))}
-          </TableBody>
-        </Table>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+          <StatCard
+            title="Rejected Arrivals"
+            value={queueStats.rejectedArrivals.toLocaleString()}
+            description={`${queueStats.balkedArrivals} balked, ${queueStats.renegedArrivals} reneged, ${queueStats.incompatibleArrivals} incompatible`}
+            small
+          />
+          <StatCard
+            title="Avg. Waiting Time"
+            value={`${queueStats.averageWaitingTimeMinutes.toFixed(1)} min`}
+            description={`Max: ${queueStats.maxWaitingTimeMinutes.toFixed(0)} min`}
+            small
+          />
+          <StatCard
+            title="Avg. Queue Length"
+            value={queueStats.averageQueueLength.toFixed(2)}
+            description={`Max: ${queueStats.maxQueueLength}`}
+            small
+          />
+        </div>
+        <SessionsTable sessions={sessions} monthNames={monthLabels} />
       </CardContent>
     </Card>
   )
@@ -0,0 +1,171 @@
+/**
+ * @file components/simulation/results/sessions-table.tsx
+ * @description Paginated table of the individual charging sessions recorded by the simulation,
+ * with a month filter.
+ */
+'use client'
+
+import { useState, useMemo } from 'react'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+
+import type { ChargingSession, ChargingSessionOutcome } from '@/lib/simulation/session'
+import { VEHICLE_MODELS } from '@/lib/simulation/vehicles'
+import { formatSimulationDate } from '@/components/simulation/common'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+
+/**
+ * @const {number} PAGE_SIZE
+ * @description Number of sessions shown per page.
+ */
+const PAGE_SIZE = 25
+
+/**
+ * @const {Record<ChargingSessionOutcome, string>} OUTCOME_LABELS
+ * @description Human-readable labels for session outcomes.
+ */
+const OUTCOME_LABELS: Record<ChargingSessionOutcome, string> = {
+  charged: 'Charged',
+  'no-demand': 'No demand',
+  rejected: 'Rejected',
+  waiting: 'Waiting',
+}
+
+/**
+ * Formats a session timestamp as local date and time of day, e.g. "Mar 26, 2023 14:45".
+ * @param {string | null} timestamp - ISO 8601 timestamp in the station's local time.
+ * @returns {string} The formatted timestamp, or a dash if it is null.
+ */
+function formatTimestamp(timestamp: string | null): string {
+  if (timestamp === null) return '—'
+  return `${formatSimulationDate(timestamp.slice(0, 10))} ${timestamp.slice(11, 16)}`
+}
+
+/**
+ * @interface SessionsTableProps
+ * @description Props for the SessionsTable component.
+ */
+interface SessionsTableProps {
+  sessions: ChargingSession[]
+  monthNames: string[]
+}
+
+/**
+ * SessionsTable component.
+ * Displays the recorded charging sessions page by page, optionally restricted to one month.
+ * @param {SessionsTableProps} props - Component props.
+ * @returns {JSX.Element} The sessions table with its filter and pagination controls.
+ */
+export function SessionsTable({ sessions, monthNames }: SessionsTableProps) {
+  const [month, setMonth] = useState<string>('all')
+  const [page, setPage] = useState(0)
+
+  const filteredSessions = useMemo(() => {
+    if (month === 'all') return sessions
+    const monthIndex = Number.parseInt(month)
+    // Timestamps are local, so the month in the string is the calendar month at the station
+    return sessions.filter((session) => Number.parseInt(session.arrivalTime.slice(5, 7)) - 1 === monthIndex)
+  }, [sessions, month])
+
+  const pageCount = Math.max(1, Math.ceil(filteredSessions.length / PAGE_SIZE))
+  const currentPage = Math.min(page, pageCount - 1)
+  const pageSessions = filteredSessions.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">{filteredSessions.length.toLocaleString()} arrivals</p>
+        <Select
+          value={month}
+          onValueChange={(value) => {
+            setMonth(value)
+            setPage(0)
+          }}
+        >
+          <SelectTrigger className="h-7 w-[130px] text-xs [&_svg]:h-3.5 [&_svg]:w-3.5">
+            <SelectValue placeholder="Month" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all" className="text-xs">
+              All months
+            </SelectItem>
+            {monthNames.map((name, index) => (
+              <SelectItem key={name} value={index.toString()} className="text-xs">
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Table className="text-sm">
+        <TableHeader>
+          <TableRow>
+            <TableHead className="h-11 px-4 text-left align-middle font-medium text-muted-foreground">#</TableHead>
+            <TableHead className="h-11 px-4 text-left align-middle font-medium text-muted-foreground">
+              Arrival
+            </TableHead>
+            <TableHead className="h-11 px-4 text-left align-middle font-medium text-muted-foreground">
+              Vehicle
+            </TableHead>
+            <TableHead className="h-11 px-4 text-left align-middle font-medium text-muted-foreground">CP</TableHead>
+            <TableHead className="h-11 px-4 text-right align-middle font-medium text-muted-foreground">
+              Requested
+            </TableHead>
+            <TableHead className="h-11 px-4 text-right align-middle font-medium text-muted-foreground">
+              Delivered
+            </TableHead>
+            <TableHead className="h-11 px-4 text-left align-middle font-medium text-muted-foreground">End</TableHead>
+            <TableHead className="h-11 px-4 text-left align-middle font-medium text-muted-foreground">
+              Outcome
+            </TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {pageSessions.map((session) => (
+            <TableRow key={session.id} className="hover:bg-secondary/80 data-[state=selected]:bg-muted">
+              <TableCell className="px-4 py-2 align-middle text-muted-foreground">{session.id}</TableCell>
+              <TableCell className="px-4 py-2 align-middle">{formatTimestamp(session.arrivalTime)}</TableCell>
+              <TableCell className="px-4 py-2 align-middle">
+                {VEHICLE_MODELS[session.vehicleModelId]?.name ?? session.vehicleModelId}
+              </TableCell>
+              <TableCell className="px-4 py-2 align-middle">{session.chargepointId ?? '—'}</TableCell>
+              <TableCell className="px-4 py-2 text-right align-middle">{session.requestedKwh.toFixed(1)} kWh</TableCell>
+              <TableCell className="px-4 py-2 text-right align-middle">{session.deliveredKwh.toFixed(1)} kWh</TableCell>
+              <TableCell className="px-4 py-2 align-middle">{formatTimestamp(session.endTime)}</TableCell>
+              <TableCell className="px-4 py-2 align-middle">
+                {OUTCOME_LABELS[session.outcome]}
+                {session.rejectionReason && <span className="text-muted-foreground"> ({session.rejectionReason})</span>}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <div className="flex items-center justify-end gap-2">
+        <span className="text-xs text-muted-foreground">
+          Page {currentPage + 1} of {pageCount}
+        </span>
+        <Button
+          variant="secondary"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => setPage(currentPage - 1)}
+          disabled={currentPage === 0}
+          aria-label="Previous page"
+        >
+          <ChevronLeft className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          variant="secondary"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => setPage(currentPage + 1)}
+          disabled={currentPage >= pageCount - 1}
+          aria-label="Next page"
+        >
+          <ChevronRight className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+    </div>
+  )
+}
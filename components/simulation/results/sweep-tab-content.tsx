@@ -0,0 +1,274 @@
+/**
+ * @file components/simulation/results/sweep-tab-content.tsx
+ * @description Renders the content for the "Sweep" tab: runs the simulation for a range of chargepoint
+ * counts (and optionally several powers) with the inputs of the current run, and shows the concurrency
+ * factor curve as a chart and a table with CSV export.
+ */
+'use client'
+
+import { useState, useTransition } from 'react'
+import { Download, Loader2 } from 'lucide-react'
+import { toast as sonnerToast } from 'sonner'
+
+import { runSweepAction, type SimulationInputParameters, type SweepOutputResults } from '@/app/actions'
+import { ChartCard } from '@/components/simulation/common'
+import { SweepChart } from '@/components/simulation/charts/sweep-chart'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+
+/**
+ * @const {number} MAX_SWEEP_RUNS
+ * @description Maximum number of simulations per sweep, to keep the server action responsive.
+ */
+const MAX_SWEEP_RUNS = 120
+
+/**
+ * @interface SweepTabContentProps
+ * @description Props for the SweepTabContent component.
+ */
+interface SweepTabContentProps {
+  /** @type {SimulationInputParameters} baseInputs - Inputs of the current run, shared by every sweep run. */
+  baseInputs: SimulationInputParameters
+  /** @type {SweepOutputResults | null} sweepResults - Results of the last sweep, kept by the parent across tab switches. */
+  sweepResults: SweepOutputResults | null
+  /** @type {(results: SweepOutputResults) => void} onSweepResults - Called when a sweep finishes. */
+  onSweepResults: (results: SweepOutputResults) => void
+}
+
+/**
+ * Offers the CSV export of a sweep as a file download.
+ * @param {string} csv - The CSV text.
+ */
+function downloadCsv(csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = 'chargepoint-sweep.csv'
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * SweepTabContent component.
+ * Displays the sweep controls, the concurrency factor chart and the results table.
+ * @param {SweepTabContentProps} props - Component props.
+ * @returns {JSX.Element} The content for the sweep tab.
+ */
+export function SweepTabContent({ baseInputs, sweepResults, onSweepResults }: SweepTabContentProps) {
+  const [isRunning, startTransition] = useTransition()
+  const [minChargepoints, setMinChargepoints] = useState('1')
+  const [maxChargepoints, setMaxChargepoints] = useState('30')
+  const [stepChargepoints, setStepChargepoints] = useState('1')
+  const [powersKw, setPowersKw] = useState(String(baseInputs.chargepointGroups[0]?.powerKw ?? 11))
+  const [selectedPowerKw, setSelectedPowerKw] = useState<number | null>(null)
+
+  const handleRunSweep = () => {
+    const min = Number.parseInt(minChargepoints)
+    const max = Number.parseInt(maxChargepoints)
+    const step = Number.parseInt(stepChargepoints)
+    const chargepointPowersKw = powersKw
+      .split(',')
+      .map((value) => Number.parseFloat(value))
+      .filter((value) => value > 0)
+    if (!(min >= 1 && max >= min && step >= 1) || chargepointPowersKw.length === 0) {
+      sonnerToast.error('Invalid Sweep', {
+        description: 'Use 1 ≤ from ≤ to, a step of at least 1 and at least one positive power.',
+      })
+      return
+    }
+    const runs = (Math.floor((max - min) / step) + 1) * chargepointPowersKw.length
+    if (runs > MAX_SWEEP_RUNS) {
+      sonnerToast.error('Sweep Too Large', {
+        description: `${runs} runs requested, at most ${MAX_SWEEP_RUNS} are allowed.`,
+      })
+      return
+    }
+
+    startTransition(async () => {
+      try {
+        const results = await runSweepAction({
+          baseInputs,
+          minChargepoints: min,
+          maxChargepoints: max,
+          stepChargepoints: step,
+          chargepointPowersKw,
+        })
+        onSweepResults(results)
+        setSelectedPowerKw(chargepointPowersKw[0])
+      } catch (error) {
+        console.error('Sweep failed:', error)
+        sonnerToast.error('Sweep Failed', {
+          description: error instanceof Error ? error.message : 'An unknown error occurred.',
+        })
+      }
+    })
+  }
+
+  const sweepPowersKw = [...new Set(sweepResults?.points.map((point) => point.chargepointPowerKw) ?? [])]
+  const chartPowerKw =
+    selectedPowerKw !== null && sweepPowersKw.includes(selectedPowerKw) ? selectedPowerKw : sweepPowersKw[0]
+  const chartPoints = sweepResults?.points.filter((point) => point.chargepointPowerKw === chartPowerKw) ?? []
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-border bg-card shadow-card">
+        <CardHeader>
+          <CardTitle className="text-base font-medium">Chargepoint Sweep</CardTitle>
+          <CardDescription className="text-sm text-muted-foreground">
+            Runs the simulation once per station size with identical Type 2 chargepoints and all other inputs of the
+            current run, using the same seed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="pt-2">
+          <div className="grid grid-cols-2 items-end gap-3 sm:grid-cols-[1fr_1fr_1fr_2fr_auto]">
+            <div className="space-y-1.5">
+              <Label htmlFor="sweep-min" className="text-xs text-foreground/80">
+                From
+              </Label>
+              <Input
+                id="sweep-min"
+                type="number"
+                value={minChargepoints}
+                onChange={(event) => setMinChargepoints(event.target.value)}
+                disabled={isRunning}
+                className="h-8 border-border bg-input text-xs"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="sweep-max" className="text-xs text-foreground/80">
+                To
+              </Label>
+              <Input
+                id="sweep-max"
+                type="number"
+                value={maxChargepoints}
+                onChange={(event) => setMaxChargepoints(event.target.value)}
+                disabled={isRunning}
+                className="h-8 border-border bg-input text-xs"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="sweep-step" className="text-xs text-foreground/80">
+                Step
+              </Label>
+              <Input
+                id="sweep-step"
+                type="number"
+                value={stepChargepoints}
+                onChange={(event) => setStepChargepoints(event.target.value)}
+                disabled={isRunning}
+                className="h-8 border-border bg-input text-xs"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="sweep-powers" className="text-xs text-foreground/80">
+                Powers (kW, comma-separated)
+              </Label>
+              <Input
+                id="sweep-powers"
+                value={powersKw}
+                onChange={(event) => setPowersKw(event.target.value)}
+                disabled={isRunning}
+                className="h-8 border-border bg-input text-xs"
+              />
+            </div>
+            <Button onClick={handleRunSweep} disabled={isRunning} className="h-8 text-xs">
+              {isRunning ? (
+                <>
+                  <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" /> Running...
+                </>
+              ) : (
+                'Run Sweep'
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <ChartCard
+        title="Concurrency Factor vs. Chargepoints"
+        description="Concurrency factor (left axis) and actual max power demand in kW (right axis, dashed)."
+        controls={
+          sweepPowersKw.length > 1 && (
+            <Select value={String(chartPowerKw)} onValueChange={(value) => setSelectedPowerKw(Number(value))}>
+              <SelectTrigger className="h-7 w-[110px] text-xs [&_svg]:h-3.5 [&_svg]:w-3.5">
+                <SelectValue placeholder="Power" />
+              </SelectTrigger>
+              <SelectContent>
+                {sweepPowersKw.map((powerKw) => (
+                  <SelectItem key={powerKw} value={String(powerKw)} className="text-xs">
+                    {powerKw} kW
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )
+        }
+      >
+        <SweepChart data={chartPoints} />
+      </ChartCard>
+
+      {sweepResults && (
+        <Card className="border-border bg-card shadow-card">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-base font-medium">Sweep Results</CardTitle>
+            <Button variant="secondary" onClick={() => downloadCsv(sweepResults.csv)} className="h-7 text-xs">
+              <Download className="mr-1.5 h-3.5 w-3.5" /> Export CSV
+            </Button>
+          </CardHeader>
+          <CardContent className="pt-2">
+            <Table className="text-sm">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="h-11 px-4 text-left align-middle font-medium text-muted-foreground">
+                    Chargepoints
+                  </TableHead>
+                  <TableHead className="h-11 px-4 text-right align-middle font-medium text-muted-foreground">
+                    Power
+                  </TableHead>
+                  <TableHead className="h-11 px-4 text-right align-middle font-medium text-muted-foreground">
+                    Max Power
+                  </TableHead>
+                  <TableHead className="h-11 px-4 text-right align-middle font-medium text-muted-foreground">
+                    Concurrency
+                  </TableHead>
+                  <TableHead className="h-11 px-4 text-right align-middle font-medium text-muted-foreground">
+                    Energy
+                  </TableHead>
+                  <TableHead className="h-11 px-4 text-right align-middle font-medium text-muted-foreground">
+                    Rejected
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sweepResults.points.map((point) => (
+                  <TableRow
+                    key={`${point.chargepointPowerKw}-${point.numChargepoints}`}
+                    className="hover:bg-secondary/80 data-[state=selected]:bg-muted"
+                  >
+                    <TableCell className="px-4 py-2 align-middle font-medium">{point.numChargepoints}</TableCell>
+                    <TableCell className="px-4 py-2 text-right align-middle">{point.chargepointPowerKw} kW</TableCell>
+                    <TableCell className="px-4 py-2 text-right align-middle">
+                      {point.actualMaxPowerDemandKw.toFixed(1)} kW
+                    </TableCell>
+                    <TableCell className="px-4 py-2 text-right align-middle">
+                      {point.concurrencyFactor.toFixed(1)}%
+                    </TableCell>
+                    <TableCell className="px-4 py-2 text-right align-middle">
+                      {point.totalEnergyConsumedKwh.toLocaleString(undefined, { maximumFractionDigits: 0 })} kWh
+                    </TableCell>
+                    <TableCell className="px-4 py-2 text-right align-middle">{point.rejectedArrivals}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
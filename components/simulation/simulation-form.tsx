@@ -7,30 +7,182 @@
 
 import { useState } from 'react'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { useForm } from 'react-hook-form'
-import { Loader2, RefreshCw } from 'lucide-react'
+import { useFieldArray, useForm } from 'react-hook-form'
+import { Loader2, Plus, RefreshCw, Trash2 } from 'lucide-react'
 import * as z from 'zod'
 
-import type { SimulationInputParameters } from '@/app/actions'
-import { POWER_PER_CHARGEPOINT_KW, KWH_PER_100KM } from '@/lib/simulation/config'
+import type { ChargepointGroupInput, SimulationInputParameters } from '@/app/actions'
+import type { SimulationExecutionMode } from '@/app/simulation-stream'
+import type { LoadManagementStrategyName } from '@/lib/simulation/load-management'
+import {
+  POWER_PER_CHARGEPOINT_KW,
+  KWH_PER_100KM,
+  DEFAULT_MAX_QUEUE_LENGTH,
+  DEFAULT_DRIVER_PATIENCE_MINUTES,
+  CONNECTOR_LABELS,
+  DEFAULT_TICK_MINUTES,
+  TICK_MINUTES_OPTIONS,
+  DEFAULT_START_DATE,
+  MAX_MONTE_CARLO_RUNS,
+  type ConnectorType,
+} from '@/lib/simulation/config'
 import { cn } from '@/lib/utils'
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Slider } from '@/components/ui/slider'
 import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+
+/**
+ * @const {number} MAX_CHARGEPOINT_GROUPS
+ * @description Maximum number of chargepoint groups that can be defined.
+ */
+const MAX_CHARGEPOINT_GROUPS = 6
+
+/**
+ * @const {ChargepointGroupInput[]} DEFAULT_CHARGEPOINT_GROUPS
+ * @description Default station: a single group of 20 Type 2 chargepoints.
+ */
+const DEFAULT_CHARGEPOINT_GROUPS: ChargepointGroupInput[] = [
+  { count: 20, powerKw: POWER_PER_CHARGEPOINT_KW, connector: 'type2' },
+]
+
+/**
+ * @const {RegExp} ISO_DATE_PATTERN
+ * @description Matches a calendar date in YYYY-MM-DD format.
+ */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Splits the comma-separated holiday input into individual dates.
+ * @param {string} value - The raw input, e.g. "2023-12-25, 2023-12-26".
+ * @returns {string[]} The trimmed, non-empty entries.
+ */
+const parseHolidayList = (value: string): string[] =>
+  value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
 
 /**
  * @const {z.ZodObject} formSchema
  * @description Zod schema for validating simulation form inputs.
  */
 const formSchema = z.object({
-  numChargepoints: z.coerce.number().min(1, 'Must be at least 1').max(100, 'Cannot exceed 100'),
+  chargepointGroups: z
+    .array(
+      z.object({
+        count: z.coerce
+          .number()
+          .int('Must be a whole number')
+          .min(1, 'Must be at least 1')
+          .max(100, 'Cannot exceed 100'),
+        powerKw: z.coerce.number().min(1, 'Must be at least 1').max(350, 'Cannot exceed 350'),
+        connector: z.enum(['type2', 'ccs', 'chademo']),
+      }),
+    )
+    .min(1, 'Add at least one chargepoint group')
+    .max(MAX_CHARGEPOINT_GROUPS, `Cannot exceed ${MAX_CHARGEPOINT_GROUPS} groups`),
   arrivalMultiplier: z.coerce.number().min(20, 'Must be at least 20%').max(200, 'Cannot exceed 200%'),
   carConsumptionKwh100km: z.coerce.number().min(5, 'Must be at least 5').max(50, 'Cannot exceed 50'),
-  chargepointPowerKw: z.coerce.number().min(1, 'Must be at least 1').max(100, 'Cannot exceed 100'),
+  seasonality: z.enum(['none', 'temperate']),
+  maxQueueLength: z.coerce
+    .number()
+    .int('Must be a whole number')
+    .min(0, 'Cannot be negative')
+    .max(50, 'Cannot exceed 50'),
+  driverPatienceMinutes: z.coerce.number().min(0, 'Cannot be negative').max(240, 'Cannot exceed 240'),
+  gridConnectionLimitKw: z.coerce.number().min(0, 'Cannot be negative').max(10000, 'Cannot exceed 10000'),
+  loadManagementStrategy: z.enum(['equal-share', 'fifo', 'earliest-departure']),
+  demandProfile: z.enum(['none', 'commuter']),
+  dwellTimeProfile: z.enum(['none', 'supermarket', 'workplace']),
+  tickMinutes: z.coerce.number().refine((value) => TICK_MINUTES_OPTIONS.includes(value), 'Unsupported time resolution'),
+  startDate: z.string().regex(ISO_DATE_PATTERN, 'Enter a date'),
+  timeZone: z.string(),
+  holidays: z
+    .string()
+    .refine(
+      (value) => parseHolidayList(value).every((date) => ISO_DATE_PATTERN.test(date)),
+      'Use YYYY-MM-DD, comma-separated',
+    ),
+  dayTypeProfile: z.enum(['uniform', 'weekend']),
+  monteCarloRuns: z.coerce
+    .number()
+    .int('Must be a whole number')
+    .min(1, 'Must be at least 1')
+    .max(MAX_MONTE_CARLO_RUNS, `Cannot exceed ${MAX_MONTE_CARLO_RUNS}`),
 })
 
+/**
+ * @const {ConnectorType[]} connectorOptions
+ * @description Options for the connector type dropdown of a chargepoint group.
+ */
+const connectorOptions = Object.keys(CONNECTOR_LABELS) as ConnectorType[]
+
+/**
+ * @const {{value: LoadManagementStrategyName, label: string}[]} loadManagementOptions
+ * @description Options for the load management strategy dropdown.
+ */
+const loadManagementOptions: Array<{ value: LoadManagementStrategyName; label: string }> = [
+  { value: 'equal-share', label: 'Equal share' },
+  { value: 'fifo', label: 'First plugged in first' },
+  { value: 'earliest-departure', label: 'Earliest departure first' },
+]
+
+/**
+ * @const {{value: SimulationInputParameters['demandProfile'], label: string}[]} demandProfileOptions
+ * @description Options for the demand by hour of arrival dropdown.
+ */
+const demandProfileOptions: Array<{ value: SimulationInputParameters['demandProfile']; label: string }> = [
+  { value: 'none', label: 'Same all day' },
+  { value: 'commuter', label: 'Commuter (longer evening trips)' },
+]
+
+/**
+ * @const {{value: SimulationInputParameters['dwellTimeProfile'], label: string}[]} dwellTimeOptions
+ * @description Options for the dwell time (parking duration) dropdown.
+ */
+const dwellTimeOptions: Array<{ value: SimulationInputParameters['dwellTimeProfile']; label: string }> = [
+  { value: 'none', label: 'Leave when fully charged' },
+  { value: 'supermarket', label: 'Supermarket (20-90 min)' },
+  { value: 'workplace', label: 'Workplace (2-9 h)' },
+]
+
+/**
+ * @const {{value: SimulationInputParameters['seasonality'], label: string}[]} seasonalityOptions
+ * @description Options for the seasonality dropdown.
+ */
+const seasonalityOptions: Array<{ value: SimulationInputParameters['seasonality']; label: string }> = [
+  { value: 'none', label: 'None' },
+  { value: 'temperate', label: 'Temperate (winter +25%)' },
+]
+
+/**
+ * @const {string[]} timeZoneOptions
+ * @description Time zones offered for the station. 'UTC' runs without daylight saving time.
+ */
+const timeZoneOptions = ['UTC', 'Europe/Berlin', 'Europe/London', 'America/New_York', 'Asia/Tokyo']
+
+/**
+ * @const {{value: SimulationInputParameters['dayTypeProfile'], label: string}[]} dayTypeProfileOptions
+ * @description Options for the weekend arrival profile dropdown.
+ */
+const dayTypeProfileOptions: Array<{ value: SimulationInputParameters['dayTypeProfile']; label: string }> = [
+  { value: 'uniform', label: 'Same every day' },
+  { value: 'weekend', label: 'Quieter weekends' },
+]
+
+/**
+ * @const {{value: SimulationExecutionMode, label: string}[]} executionModeOptions
+ * @description Options for where the simulation runs. It is not part of the simulation inputs.
+ */
+const executionModeOptions: Array<{ value: SimulationExecutionMode; label: string }> = [
+  { value: 'server', label: 'Server (streamed)' },
+  { value: 'browser', label: 'This browser (Web Worker)' },
+]
+
 /**
  * @typedef {z.infer<typeof formSchema>} SimulationFormValues
  * @description Type inferred from the formSchema, representing the structure of form values.
@@ -46,6 +198,10 @@ interface SimulationFormProps {
   onSubmit: (values: SimulationInputParameters) => Promise<void>
   /** @type {boolean} isSubmitting - Flag indicating if the form is currently submitting. */
   isSubmitting: boolean
+  /** @type {SimulationExecutionMode} executionMode - Whether runs execute on the server or in the browser. */
+  executionMode: SimulationExecutionMode
+  /** @type {(mode: SimulationExecutionMode) => void} onExecutionModeChange - Called when the user picks where to run. */
+  onExecutionModeChange: (mode: SimulationExecutionMode) => void
   /** @type {Partial<SimulationInputParameters>} [initialValues] - Optional initial values for the form fields. */
   initialValues?: Partial<SimulationInputParameters>
   /** @type {string} [className] - Optional CSS class name for custom styling. */
@@ -58,19 +214,40 @@ interface SimulationFormProps {
  * @param {SimulationFormProps} props - Component props.
  * @returns {JSX.Element} The simulation configuration form.
  */
-export function SimulationForm({ onSubmit, isSubmitting, initialValues, className }: SimulationFormProps) {
+export function SimulationForm({
+  onSubmit,
+  isSubmitting,
+  executionMode,
+  onExecutionModeChange,
+  initialValues,
+  className,
+}: SimulationFormProps) {
   const form = useForm<SimulationFormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
-      numChargepoints: initialValues?.numChargepoints || 20,
+      chargepointGroups: initialValues?.chargepointGroups ?? DEFAULT_CHARGEPOINT_GROUPS,
       arrivalMultiplier: initialValues?.arrivalMultiplier || 100,
       carConsumptionKwh100km: initialValues?.carConsumptionKwh100km || KWH_PER_100KM,
-      chargepointPowerKw: initialValues?.chargepointPowerKw || POWER_PER_CHARGEPOINT_KW,
+      seasonality: initialValues?.seasonality ?? 'none',
+      maxQueueLength: initialValues?.maxQueueLength ?? DEFAULT_MAX_QUEUE_LENGTH,
+      driverPatienceMinutes: initialValues?.driverPatienceMinutes ?? DEFAULT_DRIVER_PATIENCE_MINUTES,
+      gridConnectionLimitKw: initialValues?.gridConnectionLimitKw ?? 0,
+      loadManagementStrategy: initialValues?.loadManagementStrategy ?? 'equal-share',
+      demandProfile: initialValues?.demandProfile ?? 'none',
+      dwellTimeProfile: initialValues?.dwellTimeProfile ?? 'none',
+      tickMinutes: initialValues?.tickMinutes ?? DEFAULT_TICK_MINUTES,
+      startDate: initialValues?.startDate ?? DEFAULT_START_DATE,
+      timeZone: initialValues?.timeZone ?? 'UTC',
+      holidays: (initialValues?.holidays ?? []).join(', '),
+      dayTypeProfile: initialValues?.dayTypeProfile ?? 'uniform',
+      monteCarloRuns: initialValues?.monteCarloRuns ?? 1,
     },
   })
 
+  const chargepointGroups = useFieldArray({ control: form.control, name: 'chargepointGroups' })
+  const totalChargepoints = form.watch('chargepointGroups').reduce((sum, group) => sum + (Number(group.count) || 0), 0)
+
   // Local state to display slider values dynamically
-  const [numChargepointsVal, setNumChargepointsVal] = useState(form.getValues('numChargepoints'))
   const [arrivalMultiplierVal, setArrivalMultiplierVal] = useState(form.getValues('arrivalMultiplier'))
 
   /**
@@ -78,7 +255,7 @@ export function SimulationForm({ onSubmit, isSubmitting, initialValues, classNam
    * @param {SimulationFormValues} values - The validated form values.
    */
   const handleSubmit = (values: SimulationFormValues) => {
-    onSubmit(values)
+    onSubmit({ ...values, holidays: parseHolidayList(values.holidays) })
   }
 
   /**
@@ -86,13 +263,24 @@ export function SimulationForm({ onSubmit, isSubmitting, initialValues, classNam
    */
   const handleReset = () => {
     const resetValues = {
-      numChargepoints: initialValues?.numChargepoints || 20,
+      chargepointGroups: initialValues?.chargepointGroups ?? DEFAULT_CHARGEPOINT_GROUPS,
       arrivalMultiplier: initialValues?.arrivalMultiplier || 100,
       carConsumptionKwh100km: initialValues?.carConsumptionKwh100km || KWH_PER_100KM,
-      chargepointPowerKw: initialValues?.chargepointPowerKw || POWER_PER_CHARGEPOINT_KW,
+      seasonality: initialValues?.seasonality ?? 'none',
+      maxQueueLength: initialValues?.maxQueueLength ?? DEFAULT_MAX_QUEUE_LENGTH,
+      driverPatienceMinutes: initialValues?.driverPatienceMinutes ?? DEFAULT_DRIVER_PATIENCE_MINUTES,
+      gridConnectionLimitKw: initialValues?.gridConnectionLimitKw ?? 0,
+      loadManagementStrategy: initialValues?.loadManagementStrategy ?? 'equal-share',
+      demandProfile: initialValues?.demandProfile ?? 'none',
+      dwellTimeProfile: initialValues?.dwellTimeProfile ?? 'none',
+      tickMinutes: initialValues?.tickMinutes ?? DEFAULT_TICK_MINUTES,
+      startDate: initialValues?.startDate ?? DEFAULT_START_DATE,
+      timeZone: initialValues?.timeZone ?? 'UTC',
+      holidays: (initialValues?.holidays ?? []).join(', '),
+      dayTypeProfile: initialValues?.dayTypeProfile ?? 'uniform',
+      monteCarloRuns: initialValues?.monteCarloRuns ?? 1,
     }
     form.reset(resetValues)
-    setNumChargepointsVal(resetValues.numChargepoints)
     setArrivalMultiplierVal(resetValues.arrivalMultiplier)
   }
 
@@ -104,32 +292,96 @@ export function SimulationForm({ onSubmit, isSubmitting, initialValues, classNam
       <CardContent className="space-y-5">
         <Form {...form}>
           <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-5">
-            <FormField
-              control={form.control}
-              name="numChargepoints"
-              render={({ field }) => (
-                <FormItem>
-                  <div className="mb-1.5 flex items-center justify-between">
-                    <FormLabel className="text-xs text-foreground/80">Chargepoints</FormLabel>
-                    <span className="text-xs text-muted-foreground">{numChargepointsVal}</span>
-                  </div>
-                  <FormControl>
-                    <Slider
-                      min={1}
-                      max={100}
-                      step={1}
-                      defaultValue={[field.value]}
-                      onValueChange={(value) => {
-                        field.onChange(value[0])
-                        setNumChargepointsVal(value[0])
-                      }}
-                      disabled={isSubmitting}
-                    />
-                  </FormControl>
-                  <FormMessage className="mt-1 text-xs" />
-                </FormItem>
-              )}
-            />
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-foreground/80">Chargepoint Groups</span>
+                <span className="text-xs text-muted-foreground">{totalChargepoints} chargepoints</span>
+              </div>
+              {chargepointGroups.fields.map((group, index) => (
+                <div key={group.id} className="grid grid-cols-[1fr_1fr_1.6fr_auto] items-start gap-2">
+                  <FormField
+                    control={form.control}
+                    name={`chargepointGroups.${index}.count`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            {...field}
+                            disabled={isSubmitting}
+                            aria-label="Number of chargepoints"
+                            className="h-8 border-border bg-input text-xs placeholder:text-muted-foreground/60 focus-visible:ring-ring/50"
+                          />
+                        </FormControl>
+                        <FormMessage className="mt-1 text-xs" />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`chargepointGroups.${index}.powerKw`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            {...field}
+                            disabled={isSubmitting}
+                            aria-label="Power per chargepoint (kW)"
+                            className="h-8 border-border bg-input text-xs placeholder:text-muted-foreground/60 focus-visible:ring-ring/50"
+                          />
+                        </FormControl>
+                        <FormMessage className="mt-1 text-xs" />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`chargepointGroups.${index}.connector`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <Select value={field.value} onValueChange={field.onChange} disabled={isSubmitting}>
+                          <FormControl>
+                            <SelectTrigger className="h-8 text-xs [&_svg]:h-3.5 [&_svg]:w-3.5">
+                              <SelectValue placeholder="Connector" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {connectorOptions.map((connector) => (
+                              <SelectItem key={connector} value={connector} className="text-xs">
+                                {CONNECTOR_LABELS[connector]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage className="mt-1 text-xs" />
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="icon"
+                    onClick={() => chargepointGroups.remove(index)}
+                    disabled={isSubmitting || chargepointGroups.fields.length === 1}
+                    className="h-8 w-8 border-border hover:bg-secondary/80"
+                    aria-label="Remove group"
+                  >
+                    <Trash2 className="h-3.5 w-3.5 text-secondary-foreground" />
+                  </Button>
+                </div>
+              ))}
+              <p className="text-[11px] text-muted-foreground">Count · kW per chargepoint · connector</p>
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => chargepointGroups.append({ count: 4, powerKw: 150, connector: 'ccs' })}
+                disabled={isSubmitting || chargepointGroups.fields.length >= MAX_CHARGEPOINT_GROUPS}
+                className="h-7 w-full text-xs"
+              >
+                <Plus className="mr-1.5 h-3.5 w-3.5" /> Add Group
+              </Button>
+            </div>
             <FormField
               control={form.control}
               name="arrivalMultiplier"
@@ -156,30 +408,304 @@ export function SimulationForm({ onSubmit, isSubmitting, initialValues, classNam
                 </FormItem>
               )}
             />
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="carConsumptionKwh100km"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs text-foreground/80">Consumption (kWh/100km)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        {...field}
+                        disabled={isSubmitting}
+                        className="h-8 border-border bg-input text-xs placeholder:text-muted-foreground/60 focus-visible:ring-ring/50"
+                      />
+                    </FormControl>
+                    <FormMessage className="mt-1 text-xs" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="seasonality"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs text-foreground/80">Seasonality</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange} disabled={isSubmitting}>
+                      <FormControl>
+                        <SelectTrigger className="h-8 text-xs [&_svg]:h-3.5 [&_svg]:w-3.5">
+                          <SelectValue placeholder="Seasonality" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {seasonalityOptions.map((opt) => (
+                          <SelectItem key={opt.value} value={opt.value} className="text-xs">
+                            {opt.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage className="mt-1 text-xs" />
+                  </FormItem>
+                )}
+              />
+            </div>
             <FormField
               control={form.control}
-              name="carConsumptionKwh100km"
+              name="demandProfile"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel className="text-xs text-foreground/80">Avg. Car Consumption (kWh/100km)</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="number"
-                      {...field}
-                      disabled={isSubmitting}
-                      className="h-8 border-border bg-input text-xs placeholder:text-muted-foreground/60 focus-visible:ring-ring/50"
-                    />
-                  </FormControl>
+                  <FormLabel className="text-xs text-foreground/80">Demand by Arrival Hour</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange} disabled={isSubmitting}>
+                    <FormControl>
+                      <SelectTrigger className="h-8 text-xs [&_svg]:h-3.5 [&_svg]:w-3.5">
+                        <SelectValue placeholder="Demand by hour" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {demandProfileOptions.map((opt) => (
+                        <SelectItem key={opt.value} value={opt.value} className="text-xs">
+                          {opt.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                   <FormMessage className="mt-1 text-xs" />
                 </FormItem>
               )}
             />
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="maxQueueLength"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs text-foreground/80">Max Queue Length</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        {...field}
+                        disabled={isSubmitting}
+                        className="h-8 border-border bg-input text-xs placeholder:text-muted-foreground/60 focus-visible:ring-ring/50"
+                      />
+                    </FormControl>
+                    <FormMessage className="mt-1 text-xs" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="driverPatienceMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs text-foreground/80">Patience (min)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        {...field}
+                        disabled={isSubmitting}
+                        className="h-8 border-border bg-input text-xs placeholder:text-muted-foreground/60 focus-visible:ring-ring/50"
+                      />
+                    </FormControl>
+                    <FormMessage className="mt-1 text-xs" />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="gridConnectionLimitKw"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs text-foreground/80">Grid Limit (kW, 0 = none)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        {...field}
+                        disabled={isSubmitting}
+                        className="h-8 border-border bg-input text-xs placeholder:text-muted-foreground/60 focus-visible:ring-ring/50"
+                      />
+                    </FormControl>
+                    <FormMessage className="mt-1 text-xs" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="loadManagementStrategy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs text-foreground/80">Load Management</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange} disabled={isSubmitting}>
+                      <FormControl>
+                        <SelectTrigger className="h-8 text-xs [&_svg]:h-3.5 [&_svg]:w-3.5">
+                          <SelectValue placeholder="Strategy" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {loadManagementOptions.map((opt) => (
+                          <SelectItem key={opt.value} value={opt.value} className="text-xs">
+                            {opt.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage className="mt-1 text-xs" />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-[1.6fr_1fr] gap-3">
+              <FormField
+                control={form.control}
+                name="dwellTimeProfile"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs text-foreground/80">Dwell Time</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange} disabled={isSubmitting}>
+                      <FormControl>
+                        <SelectTrigger className="h-8 text-xs [&_svg]:h-3.5 [&_svg]:w-3.5">
+                          <SelectValue placeholder="Dwell time" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {dwellTimeOptions.map((opt) => (
+                          <SelectItem key={opt.value} value={opt.value} className="text-xs">
+                            {opt.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage className="mt-1 text-xs" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="tickMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs text-foreground/80">Resolution</FormLabel>
+                    <Select
+                      value={String(field.value)}
+                      onValueChange={(value) => field.onChange(Number(value))}
+                      disabled={isSubmitting}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="h-8 text-xs [&_svg]:h-3.5 [&_svg]:w-3.5">
+                          <SelectValue placeholder="Resolution" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {TICK_MINUTES_OPTIONS.map((minutes) => (
+                          <SelectItem key={minutes} value={String(minutes)} className="text-xs">
+                            {minutes} min
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage className="mt-1 text-xs" />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs text-foreground/80">Start Date</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="date"
+                        {...field}
+                        disabled={isSubmitting}
+                        className="h-8 border-border bg-input text-xs placeholder:text-muted-foreground/60 focus-visible:ring-ring/50"
+                      />
+                    </FormControl>
+                    <FormMessage className="mt-1 text-xs" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="timeZone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs text-foreground/80">Time Zone</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange} disabled={isSubmitting}>
+                      <FormControl>
+                        <SelectTrigger className="h-8 text-xs [&_svg]:h-3.5 [&_svg]:w-3.5">
+                          <SelectValue placeholder="Time zone" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {timeZoneOptions.map((timeZone) => (
+                          <SelectItem key={timeZone} value={timeZone} className="text-xs">
+                            {timeZone}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage className="mt-1 text-xs" />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-[1.6fr_1fr] gap-3">
+              <FormField
+                control={form.control}
+                name="holidays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs text-foreground/80">Holidays</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        placeholder="2023-12-25, 2023-12-26"
+                        disabled={isSubmitting}
+                        className="h-8 border-border bg-input text-xs placeholder:text-muted-foreground/60 focus-visible:ring-ring/50"
+                      />
+                    </FormControl>
+                    <FormMessage className="mt-1 text-xs" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="dayTypeProfile"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs text-foreground/80">Weekends</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange} disabled={isSubmitting}>
+                      <FormControl>
+                        <SelectTrigger className="h-8 text-xs [&_svg]:h-3.5 [&_svg]:w-3.5">
+                          <SelectValue placeholder="Weekends" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {dayTypeProfileOptions.map((opt) => (
+                          <SelectItem key={opt.value} value={opt.value} className="text-xs">
+                            {opt.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage className="mt-1 text-xs" />
+                  </FormItem>
+                )}
+              />
+            </div>
             <FormField
               control={form.control}
-              name="chargepointPowerKw"
+              name="monteCarloRuns"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel className="text-xs text-foreground/80">Avg. Chargepoint Power (kW)</FormLabel>
+                  <FormLabel className="text-xs text-foreground/80">Monte Carlo Runs (1 = single seed)</FormLabel>
                   <FormControl>
                     <Input
                       type="number"
@@ -192,6 +718,27 @@ export function SimulationForm({ onSubmit, isSubmitting, initialValues, classNam
                 </FormItem>
               )}
             />
+            <div className="space-y-2">
+              <Label htmlFor="execution-mode" className="text-xs text-foreground/80">
+                Run On
+              </Label>
+              <Select
+                value={executionMode}
+                onValueChange={(value) => onExecutionModeChange(value as SimulationExecutionMode)}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger id="execution-mode" className="h-8 text-xs [&_svg]:h-3.5 [&_svg]:w-3.5">
+                  <SelectValue placeholder="Run On" />
+                </SelectTrigger>
+                <SelectContent>
+                  {executionModeOptions.map((opt) => (
+                    <SelectItem key={opt.value} value={opt.value} className="text-xs">
+                      {opt.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="flex items-center space-x-2 pt-3">
               <Button
                 variant="default"
@@ -219,9 +766,6 @@ export function SimulationForm({ onSubmit, isSubmitting, initialValues, classNam
                 <RefreshCw className="h-3.5 w-3.5 text-secondary-foreground" />
               </Button>
             </div>
-            <p className="pt-1 text-center text-xs text-muted-foreground/80">
-              Core simulation uses internal defaults. UI inputs are illustrative.
-            </p>
           </form>
         </Form>
       </CardContent>
@@ -3,21 +3,32 @@
  * @description Component responsible for displaying the results of an EV charging simulation.
  * It includes summary statistics, main tab navigation, and delegates tab content rendering
  * to specialized child components. Handles client-side filtering for charts and animated tab transitions.
- * Also animates the transition from its placeholder state to displaying results.
+ * Also animates the transition from its placeholder state to displaying results, and shows the progress of a run
+ * whose provisional results are displayed.
  */
 'use client'
 import { useState, useMemo } from 'react'
 import { AnimatePresence, motion } from 'framer-motion' // Added for placeholder/content animation
 import { LineChartIcon } from 'lucide-react'
+import { isEqual } from 'lodash-es'
 
-import type { SimulationOutputResults, ExemplaryDayDataPoint, DailyPeakDataPoint } from '@/app/actions'
-import { DAYS_IN_YEAR, HOURS_PER_DAY } from '@/lib/simulation/config'
+import type {
+  SimulationOutputResults,
+  SweepOutputResults,
+  SimulationProgressUpdate,
+  ExemplaryDayDataPoint,
+  DailyPeakDataPoint,
+} from '@/app/actions'
+import { HOURS_PER_DAY } from '@/lib/simulation/config'
+import { addMonthsToIsoDate } from '@/lib/simulation/calendar'
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { StatCard } from '@/components/simulation/common'
+import { DistributionBand, StatCard } from '@/components/simulation/common'
 
 import { ChartsTabContent } from './results/charts-tab-content'
 import { EventsTabContent } from './results/events-tab-content'
 import { DetailsTabContent } from './results/details-tab-content'
+import { ChargepointsTabContent } from './results/chargepoints-tab-content'
+import { SweepTabContent } from './results/sweep-tab-content'
 
 /**
  * @const {string[]} MONTH_NAMES
@@ -31,6 +42,8 @@ const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Se
  */
 interface SimulationResultsDisplayProps {
   results: SimulationOutputResults | null
+  /** @type {SimulationProgressUpdate | null} Progress of the running simulation, if `results` are provisional. */
+  progress?: SimulationProgressUpdate | null
 }
 
 /**
@@ -43,14 +56,14 @@ const hourOptions = Array.from({ length: HOURS_PER_DAY }, (_, i) => ({
 }))
 
 /**
- * @const {{value: string, label: string}[]} yearlyPeriodOptions
+ * @const {{value: string, label: string, months: number}[]} yearlyPeriodOptions
  * @description Options for the yearly period filter dropdown, passed to ChartsTabContent.
  */
 const yearlyPeriodOptions = [
-  { value: '1y', label: 'Last 1 Year' },
-  { value: '6m', label: 'Last 6 Months' },
-  { value: '3m', label: 'Last 3 Months' },
-  { value: '1m', label: 'Last 1 Month' },
+  { value: '1y', label: 'Last 1 Year', months: 12 },
+  { value: '6m', label: 'Last 6 Months', months: 6 },
+  { value: '3m', label: 'Last 3 Months', months: 3 },
+  { value: '1m', label: 'Last 1 Month', months: 1 },
 ]
 
 /**
@@ -73,10 +86,11 @@ const tabContentVariants = {
   exit: { opacity: 0, y: -10, transition: { duration: 0.15, ease: 'easeInOut' } },
 }
 
-export function SimulationResultsDisplay({ results }: SimulationResultsDisplayProps) {
+export function SimulationResultsDisplay({ results, progress = null }: SimulationResultsDisplayProps) {
   const [hourRange, setHourRange] = useState<{ start: number; end: number }>({ start: 0, end: HOURS_PER_DAY - 1 })
   const [yearlyPeriod, setYearlyPeriod] = useState<string>(yearlyPeriodOptions[1].value) // Default to 6m
   const [activeTab, setActiveTab] = useState<string>('charts')
+  const [sweepResults, setSweepResults] = useState<SweepOutputResults | null>(null)
 
   const filteredExemplaryDayPower: ExemplaryDayDataPoint[] = useMemo(() => {
     if (!results?.exemplaryDayPower) return []
@@ -84,23 +98,19 @@ export function SimulationResultsDisplay({ results }: SimulationResultsDisplayPr
   }, [results?.exemplaryDayPower, hourRange])
 
   const filteredYearlyPeakPower: DailyPeakDataPoint[] = useMemo(() => {
-    if (!results?.yearlyPeakPower) return []
-    let daysToInclude = DAYS_IN_YEAR
-    switch (yearlyPeriod) {
-      case '6m':
-        daysToInclude = Math.ceil(DAYS_IN_YEAR / 2)
-        break
-      case '3m':
-        daysToInclude = Math.ceil(DAYS_IN_YEAR / 4)
-        break
-      case '1m':
-        daysToInclude = Math.ceil(DAYS_IN_YEAR / 12)
-        break
-    }
-    const startIndex = Math.max(0, results.yearlyPeakPower.length - daysToInclude)
-    return results.yearlyPeakPower.slice(startIndex)
+    if (!results?.yearlyPeakPower || results.yearlyPeakPower.length === 0) return []
+    // Calendar months back from the last simulated date, so "Last 1 Month" after March 31 starts on March 1
+    const months = yearlyPeriodOptions.find((option) => option.value === yearlyPeriod)?.months ?? 12
+    const lastDate = results.yearlyPeakPower[results.yearlyPeakPower.length - 1].date
+    const cutoffDate = addMonthsToIsoDate(lastDate, -months)
+    return results.yearlyPeakPower.filter((point) => point.date > cutoffDate)
   }, [results?.yearlyPeakPower, yearlyPeriod])
 
+  const monteCarlo = results?.monteCarlo ?? null
+  // A sweep belongs to the inputs it was run with; hide it once a simulation with other inputs is shown
+  const currentSweepResults =
+    sweepResults && isEqual(sweepResults.inputsUsed.baseInputs, results?.inputsUsed) ? sweepResults : null
+
   return (
     <AnimatePresence mode="wait">
       {!results ? (
@@ -128,18 +138,109 @@ export function SimulationResultsDisplay({ results }: SimulationResultsDisplayPr
           className="space-y-6"
         >
           <div className="flex items-center justify-between">
-            <h1 className="text-2xl font-semibold text-foreground">Simulation Overview</h1>
+            <h1 className="text-2xl font-semibold text-foreground">
+              Simulation Overview
+              {progress && <span className="ml-2 text-base font-normal text-muted-foreground">(provisional)</span>}
+            </h1>
+            {monteCarlo && (
+              <p className="text-xs text-muted-foreground">
+                Monte Carlo: {monteCarlo.runs} seeds, bands show P5–P95, dot marks the run shown
+              </p>
+            )}
           </div>
 
+          {progress && (
+            <div className="space-y-2 rounded-lg border border-border bg-card p-4 shadow-subtle">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-foreground">
+                  {progress.completedMonteCarloRuns > 0
+                    ? `Monte Carlo: ${progress.completedMonteCarloRuns} of ${progress.monteCarloRuns} seeds`
+                    : `Simulating… ${progress.percentComplete.toFixed(0)}%`}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  Results up to {progress.currentDate} (day {progress.simulatedDays}); sessions follow when the run is
+                  complete
+                </span>
+              </div>
+              <div className="h-1.5 w-full overflow-hidden rounded-full bg-secondary">
+                <div
+                  className="h-full rounded-full bg-primary transition-[width] duration-300"
+                  style={{ width: `${progress.percentComplete}%` }}
+                />
+              </div>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 gap-5 md:grid-cols-2 lg:grid-cols-4">
-            <StatCard title="Total Energy Consumed" value={`${results.totalEnergyConsumedKwh.toFixed(1)} kWh`} />
-            <StatCard title="Actual Max Power Demand" value={`${results.actualMaxPowerDemandKw.toFixed(1)} kW`} />
+            <StatCard title="Total Energy Consumed" value={`${results.totalEnergyConsumedKwh.toFixed(1)} kWh`}>
+              {monteCarlo && (
+                <DistributionBand
+                  summary={monteCarlo.metrics.totalEnergyConsumedKwh}
+                  value={results.totalEnergyConsumedKwh}
+                  format={(value) => `${value.toFixed(0)} kWh`}
+                />
+              )}
+            </StatCard>
+            <StatCard
+              title="Actual Max Power Demand"
+              value={`${results.actualMaxPowerDemandKw.toFixed(1)} kW`}
+              description={`Hourly average peak: ${results.hourlyMaxPowerDemandKw.toFixed(1)} kW (${results.inputsUsed.tickMinutes}-min ticks)`}
+            >
+              {monteCarlo && (
+                <DistributionBand
+                  summary={monteCarlo.metrics.actualMaxPowerDemandKw}
+                  value={results.actualMaxPowerDemandKw}
+                  format={(value) => `${value.toFixed(1)} kW`}
+                />
+              )}
+            </StatCard>
             <StatCard
               title="Concurrency Factor"
               value={`${results.concurrencyFactor.toFixed(1)}%`}
               description={`Theoretical Max: ${results.theoreticalMaxPowerDemandKw.toFixed(1)} kW`}
+            >
+              {monteCarlo && (
+                <DistributionBand
+                  summary={monteCarlo.metrics.concurrencyFactor}
+                  value={results.concurrencyFactor}
+                  format={(value) => `${value.toFixed(1)}%`}
+                />
+              )}
+            </StatCard>
+            <StatCard title="Total Charging Sessions" value={results.numChargingSessions.toLocaleString()}>
+              {monteCarlo && (
+                <DistributionBand
+                  summary={monteCarlo.metrics.totalChargingSessions}
+                  value={results.numChargingSessions}
+                  format={(value) => value.toFixed(0)}
+                />
+              )}
+            </StatCard>
+          </div>
+
+          <div className="grid grid-cols-1 gap-5 md:grid-cols-3">
+            <StatCard
+              title="Unserved Energy"
+              value={`${results.gridStats.unservedEnergyKwh.toFixed(1)} kWh`}
+              description="Demand of rejected EVs, EVs leaving before full and EVs still charging at the end"
+              small
+            />
+            <StatCard
+              title="Curtailed by Grid Limit"
+              value={`${results.gridStats.curtailedEnergyKwh.toFixed(1)} kWh`}
+              description={
+                results.gridStats.gridConnectionLimitKw === null
+                  ? 'No grid connection limit'
+                  : `Limit of ${results.gridStats.gridConnectionLimitKw} kW binding for ${results.gridStats.curtailedHours.toFixed(1)} h`
+              }
+              small
+            />
+            <StatCard
+              title="Avg. Charging Delay"
+              value={`${results.gridStats.averageChargingDelayMinutes.toFixed(1)} min`}
+              description={`Max: ${results.gridStats.maxChargingDelayMinutes.toFixed(0)} min per session`}
+              small
             />
-            <StatCard title="Total Charging Sessions" value={results.numChargingSessions.toLocaleString()} />
           </div>
 
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
@@ -156,6 +257,18 @@ export function SimulationResultsDisplay({ results }: SimulationResultsDisplayPr
               >
                 Charging Events
               </TabsTrigger>
+              <TabsTrigger
+                value="chargepoints"
+                className="rounded-none border-b-2 border-transparent px-3 py-2.5 text-sm hover:bg-secondary data-[state=active]:border-foreground data-[state=active]:text-foreground data-[state=active]:shadow-none"
+              >
+                Chargepoints
+              </TabsTrigger>
+              <TabsTrigger
+                value="sweep"
+                className="rounded-none border-b-2 border-transparent px-3 py-2.5 text-sm hover:bg-secondary data-[state=active]:border-foreground data-[state=active]:text-foreground data-[state=active]:shadow-none"
+              >
+                Chargepoint Sweep
+              </TabsTrigger>
               <TabsTrigger
                 value="raw-stats"
                 className="rounded-none border-b-2 border-transparent px-3 py-2.5 text-sm hover:bg-secondary data-[state=active]:border-foreground data-[state=active]:text-foreground data-[state=active]:shadow-none"
@@ -176,9 +289,13 @@ export function SimulationResultsDisplay({ results }: SimulationResultsDisplayPr
               >
                 {activeTab === 'charts' && (
                   <ChartsTabContent
+                    exemplaryDay={results.exemplaryDay}
+                    exemplaryDate={results.exemplaryDate}
                     exemplaryDayPowerData={filteredExemplaryDayPower}
                     yearlyPeakPowerData={filteredYearlyPeakPower}
+                    demandByHourData={results.demandByHour}
                     theoreticalMaxPowerKw={results.theoreticalMaxPowerDemandKw}
+                    gridLimitKw={results.gridStats.gridConnectionLimitKw}
                     hourRange={hourRange}
                     onHourRangeChange={setHourRange}
                     yearlyPeriod={yearlyPeriod}
@@ -188,7 +305,26 @@ export function SimulationResultsDisplay({ results }: SimulationResultsDisplayPr
                   />
                 )}
                 {activeTab === 'events' && (
-                  <EventsTabContent eventsBreakdown={results.eventsBreakdown} monthNames={MONTH_NAMES} />
+                  <EventsTabContent
+                    eventsBreakdown={results.eventsBreakdown}
+                    queueStats={results.queueStats}
+                    sessions={results.sessions}
+                    monthNames={MONTH_NAMES}
+                  />
+                )}
+                {activeTab === 'chargepoints' && (
+                  <ChargepointsTabContent
+                    chargepointStats={results.chargepointStats}
+                    groupStats={results.groupStats}
+                    departuresBeforeFull={results.departuresBeforeFull}
+                  />
+                )}
+                {activeTab === 'sweep' && (
+                  <SweepTabContent
+                    baseInputs={results.inputsUsed}
+                    sweepResults={currentSweepResults}
+                    onSweepResults={setSweepResults}
+                  />
                 )}
                 {activeTab === 'raw-stats' && <DetailsTabContent inputsUsed={results.inputsUsed} />}
               </motion.div>
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import { TraceArrivalSource, parseArrivalTraceCsv, parseArrivalTraceJson, type RecordedArrival } from './arrivals'
+import { EVChargingSimulation } from './index'
+
+describe('parseArrivalTraceCsv', () => {
+  it('reads the columns in any order and leaves empty optional cells null', () => {
+    const records = parseArrivalTraceCsv(
+      '\uFEFFEnergy_kWh,site,arrival_time,duration_minutes\n12.5,A,2023-03-01T08:15,\n3,B,2023-03-01T09:00Z,45\n',
+    )
+    expect(records).toEqual([
+      { arrivalTime: '2023-03-01T08:15', energyKwh: 12.5, durationMinutes: null, vehicleModelId: null },
+      { arrivalTime: '2023-03-01T09:00Z', energyKwh: 3, durationMinutes: 45, vehicleModelId: null },
+    ])
+  })
+
+  it.each([
+    ['a missing required column', 'arrival_time,duration_minutes\n2023-03-01T08:00,30', /needs the columns/],
+    ['an empty file', '', /got none/],
+    ['an invalid arrival time', 'arrival_time,energy_kwh\n2023-13-01T08:00,10', /line 2/],
+    ['an empty energy cell', 'arrival_time,energy_kwh\n2023-03-01T08:00,', /Energy must be a number.*line 2/],
+    ['a negative energy', 'arrival_time,energy_kwh\n2023-03-01T08:00,-1', /Energy must be a number.*line 2/],
+    [
+      'a duration that is not a number',
+      'arrival_time,energy_kwh,duration_minutes\n2023-03-01T08:00,5,\n2023-03-01T09:00,5,soon',
+      /Duration must be a positive number.*line 3/,
+    ],
+  ])('rejects %s', (_, text, message) => {
+    expect(() => parseArrivalTraceCsv(text)).toThrow(message)
+  })
+})
+
+describe('parseArrivalTraceJson', () => {
+  it('reads the records and leaves missing optional fields null', () => {
+    expect(parseArrivalTraceJson('[{"arrivalTime":"2023-03-01T08:00","energyKwh":7,"vehicleModelId":"suv"}]')).toEqual([
+      { arrivalTime: '2023-03-01T08:00', energyKwh: 7, durationMinutes: null, vehicleModelId: 'suv' },
+    ])
+  })
+
+  it.each([
+    ['invalid JSON', '[{', SyntaxError],
+    ['an object instead of an array', '{"arrivalTime":"2023-03-01T08:00"}', /must be an array/],
+    ['a record that is not an object', '[null]', /Missing arrival time in entry 0/],
+    ['an energy given as a string', '[{"arrivalTime":"2023-03-01T08:00","energyKwh":"7"}]', /Energy must be a number/],
+    [
+      'a zero duration',
+      '[{"arrivalTime":"2023-03-01T08:00","energyKwh":7,"durationMinutes":0}]',
+      /Duration must be a positive number.*entry 0/,
+    ],
+    [
+      'a vehicle model that is not a string',
+      '[{"arrivalTime":"2023-03-01T08:00","energyKwh":7,"vehicleModelId":3}]',
+      /Vehicle model must be a string/,
+    ],
+  ])('rejects %s', (_, text, error) => {
+    expect(() => parseArrivalTraceJson(text)).toThrow(error)
+  })
+})
+
+describe('TraceArrivalSource', () => {
+  const records: RecordedArrival[] = [
+    { arrivalTime: '2023-03-01T08:00', energyKwh: 60, durationMinutes: null, vehicleModelId: null },
+    { arrivalTime: '2023-03-01T08:00', energyKwh: 20, durationMinutes: 60, vehicleModelId: null },
+  ]
+  const options = { verbose: false, maxTicks: 96 * 2, config: { startDate: '2023-03-01' } }
+
+  it('charges sessions without a vehicle model at the full chargepoint power until the recorded energy', () => {
+    const simulation = new EVChargingSimulation(2, { ...options, arrivalSource: new TraceArrivalSource(records) })
+    simulation.run()
+
+    const [untilFull, forAnHour] = simulation.getSessions()
+    expect(untilFull.deliveredKwh).toBeCloseTo(60)
+    expect(forAnHour.deliveredKwh).toBeCloseTo(11)
+    expect(simulation.stats.actualMaxPowerDemandKw).toBe(22)
+  })
+
+  it('restores sessions without a vehicle model from a snapshot', () => {
+    const arrivalSource = new TraceArrivalSource(records)
+    const simulation = new EVChargingSimulation(2, { ...options, arrivalSource })
+    simulation.runUntil(33)
+    const snapshot = JSON.parse(JSON.stringify(simulation.toSnapshot()))
+    const restored = EVChargingSimulation.fromSnapshot(snapshot, { verbose: false, arrivalSource })
+    restored.run()
+
+    expect(restored.stats.totalEnergyConsumedKwh).toBeCloseTo(71)
+  })
+})
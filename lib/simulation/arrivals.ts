@@ -0,0 +1,238 @@
+/**
+ * arrivals.ts
+ * Arrival sources that replace the sampled arrivals of a run, and the reader for recorded session traces, so a
+ * station layout can be tested against the arrivals of a real one.
+ */
+import { parseIsoDateTime, type SimulationCalendar } from './calendar'
+import { parseCsv } from './csv'
+
+/**
+ * An EV arriving in a tick, with the values the simulation would otherwise sample.
+ */
+export interface Arrival {
+  /** Energy the EV wants to charge, in kWh. It is capped at the battery capacity of its vehicle model. */
+  energyNeededKwh: number
+  /** How long the EV stays plugged in, in ticks (at least one), or null if it leaves when full. */
+  dwellTicks: number | null
+  /**
+   * Id of the vehicle model, see `SimulationConfig.vehicleModels`, or null for a vehicle that takes the full power of
+   * the chargepoint and has room for all of the energy, see `getRecordedSessionVehicleModel`.
+   */
+  vehicleModelId: string | null
+}
+
+/**
+ * Provides the arrivals of a run instead of the arrival profile, see `SimulationOptions.arrivalSource`.
+ */
+export interface ArrivalSource {
+  /**
+   * Returns the EVs arriving in a tick. It is called once per tick, in order.
+   * @param {number} tick - The tick.
+   * @param {SimulationCalendar} calendar - The calendar of the run, to map the tick to a date and time.
+   * @returns {Arrival[]} The arriving EVs, in order of arrival.
+   */
+  getArrivals(tick: number, calendar: SimulationCalendar): Arrival[]
+}
+
+/**
+ * One session of a recorded trace, e.g. from the export of an existing station.
+ */
+export interface RecordedArrival {
+  /** Arrival time, ISO 8601. Without a UTC offset it is local time in the run's time zone. */
+  arrivalTime: string
+  /** Energy charged in the recorded session, in kWh. The replayed EV wants the same. */
+  energyKwh: number
+  /** How long the EV stayed plugged in, in minutes, or null if it leaves when full. */
+  durationMinutes: number | null
+  /** Id of the vehicle model, or null if unknown, so only the chargepoint and the duration limit the session. */
+  vehicleModelId: string | null
+}
+
+export type ArrivalTraceFormat = 'csv' | 'json'
+
+/**
+ * CSV columns of a trace. Arrival time and energy are required, duration and vehicle model are optional.
+ */
+const TRACE_CSV_COLUMNS = {
+  arrivalTime: 'arrival_time',
+  energyKwh: 'energy_kwh',
+  durationMinutes: 'duration_minutes',
+  vehicleModelId: 'vehicle_model',
+}
+
+/**
+ * Checks a recorded arrival and returns it without extra fields.
+ * @param {RecordedArrival} record - The record.
+ * @param {string} position - Where the record is in the trace, for error messages, e.g. "line 3".
+ * @returns {RecordedArrival} The record.
+ * @throws {Error} If the arrival time is invalid, or the energy or duration is negative or not a number.
+ */
+function validateRecordedArrival(record: RecordedArrival, position: string): RecordedArrival {
+  const { arrivalTime, energyKwh, durationMinutes, vehicleModelId } = record
+  if (typeof arrivalTime !== 'string') {
+    throw new Error(`Missing arrival time in ${position} of the trace.`)
+  }
+  try {
+    parseIsoDateTime(arrivalTime)
+  } catch (error) {
+    throw new Error(`${error instanceof Error ? error.message : String(error)} (${position} of the trace)`)
+  }
+  if (typeof energyKwh !== 'number' || !Number.isFinite(energyKwh) || energyKwh < 0) {
+    throw new Error(`Energy must be a number of at least 0 kWh, got ${energyKwh} in ${position} of the trace.`)
+  }
+  if (
+    durationMinutes !== null &&
+    (typeof durationMinutes !== 'number' || !Number.isFinite(durationMinutes) || durationMinutes <= 0)
+  ) {
+    throw new Error(
+      `Duration must be a positive number of minutes, got ${durationMinutes} in ${position} of the trace.`,
+    )
+  }
+  if (vehicleModelId !== null && typeof vehicleModelId !== 'string') {
+    throw new Error(`Vehicle model must be a string, got ${vehicleModelId} in ${position} of the trace.`)
+  }
+  return { arrivalTime, energyKwh, durationMinutes, vehicleModelId }
+}
+
+/**
+ * Parses a trace in CSV format with a header line. The columns are `arrival_time`, `energy_kwh` and, optionally,
+ * `duration_minutes` and `vehicle_model`, in any order; other columns are ignored. Empty optional cells are null.
+ * @param {string} text - The CSV text.
+ * @returns {RecordedArrival[]} The records, in file order.
+ * @throws {Error} If a required column is missing or a record is invalid.
+ */
+export function parseArrivalTraceCsv(text: string): RecordedArrival[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''))
+  const headers = (header ?? []).map((cell) => cell.trim().toLowerCase())
+  const columnIndex = (column: string) => headers.indexOf(column)
+  const arrivalTimeIndex = columnIndex(TRACE_CSV_COLUMNS.arrivalTime)
+  const energyIndex = columnIndex(TRACE_CSV_COLUMNS.energyKwh)
+  if (arrivalTimeIndex === -1 || energyIndex === -1) {
+    throw new Error(
+      `A CSV trace needs the columns ${TRACE_CSV_COLUMNS.arrivalTime} and ${TRACE_CSV_COLUMNS.energyKwh}, got ${headers.join(', ') || 'none'}.`,
+    )
+  }
+  const durationIndex = columnIndex(TRACE_CSV_COLUMNS.durationMinutes)
+  const vehicleModelIndex = columnIndex(TRACE_CSV_COLUMNS.vehicleModelId)
+  const optionalCell = (row: string[], index: number) => (index === -1 ? '' : (row[index] ?? '').trim())
+
+  return rows.map((row, i) => {
+    const energy = optionalCell(row, energyIndex)
+    const duration = optionalCell(row, durationIndex)
+    const vehicleModel = optionalCell(row, vehicleModelIndex)
+    return validateRecordedArrival(
+      {
+        arrivalTime: optionalCell(row, arrivalTimeIndex),
+        energyKwh: energy === '' ? NaN : Number(energy),
+        durationMinutes: duration === '' ? null : Number(duration),
+        vehicleModelId: vehicleModel === '' ? null : vehicleModel,
+      },
+      `line ${i + 2}`,
+    )
+  })
+}
+
+/**
+ * Parses a trace in JSON format: an array of objects with `arrivalTime`, `energyKwh` and, optionally,
+ * `durationMinutes` and `vehicleModelId`.
+ * @param {string} text - The JSON text.
+ * @returns {RecordedArrival[]} The records, in array order.
+ * @throws {Error} If the text is not a JSON array or a record is invalid.
+ */
+export function parseArrivalTraceJson(text: string): RecordedArrival[] {
+  const content: unknown = JSON.parse(text)
+  if (!Array.isArray(content)) {
+    throw new Error('A JSON trace must be an array of sessions.')
+  }
+  return content.map((record: Partial<RecordedArrival>, i) =>
+    validateRecordedArrival(
+      {
+        arrivalTime: record?.arrivalTime as string,
+        energyKwh: record?.energyKwh as number,
+        durationMinutes: record?.durationMinutes ?? null,
+        vehicleModelId: record?.vehicleModelId ?? null,
+      },
+      `entry ${i}`,
+    ),
+  )
+}
+
+/**
+ * Parses a trace in either format.
+ * @param {string} text - The trace.
+ * @param {ArrivalTraceFormat} format - 'csv' or 'json'.
+ * @returns {RecordedArrival[]} The records.
+ * @throws {Error} If the trace is invalid.
+ */
+export function parseArrivalTrace(text: string, format: ArrivalTraceFormat): RecordedArrival[] {
+  return format === 'csv' ? parseArrivalTraceCsv(text) : parseArrivalTraceJson(text)
+}
+
+/**
+ * Returns the date of the earliest arrival as written in the trace, e.g. to start a run when the trace starts.
+ * @param {RecordedArrival[]} records - The records.
+ * @returns {string | null} The date, `YYYY-MM-DD`, or null for an empty trace.
+ */
+export function getArrivalTraceStartDate(records: RecordedArrival[]): string | null {
+  let earliest: { date: string; ms: number } | null = null
+  for (const record of records) {
+    const { year, month, day, hour, minute, second, offsetMinutes } = parseIsoDateTime(record.arrivalTime)
+    const ms = Date.UTC(year, month, day, hour, minute, second) - (offsetMinutes ?? 0) * 60 * 1000
+    if (!earliest || ms < earliest.ms) {
+      earliest = { date: record.arrivalTime.trim().slice(0, 10), ms }
+    }
+  }
+  return earliest?.date ?? null
+}
+
+/**
+ * Replays a recorded trace: every record arrives in the tick its arrival time falls in, with its energy, duration
+ * and vehicle model. Records outside the run are ignored. The source can be shared by several runs, e.g. of a sweep.
+ */
+export class TraceArrivalSource implements ArrivalSource {
+  public readonly records: RecordedArrival[]
+  /** The calendar the arrivals were last indexed for. */
+  private calendar: SimulationCalendar | null = null
+  private arrivalsByTick: Map<number, Arrival[]> = new Map()
+
+  /**
+   * @param {RecordedArrival[]} records - The recorded sessions, e.g. from `parseArrivalTrace`.
+   */
+  constructor(records: RecordedArrival[]) {
+    this.records = records
+  }
+
+  public getArrivals(tick: number, calendar: SimulationCalendar): Arrival[] {
+    if (calendar !== this.calendar) {
+      this.indexArrivals(calendar)
+    }
+    return this.arrivalsByTick.get(tick) ?? []
+  }
+
+  /**
+   * Groups the records by the tick they arrive in on a calendar, in order of arrival time.
+   * @param {SimulationCalendar} calendar - The calendar of the run.
+   */
+  private indexArrivals(calendar: SimulationCalendar): void {
+    const timedRecords = this.records.map((record) => ({
+      record,
+      ticks: calendar.getTicksSinceStart(record.arrivalTime),
+    }))
+    timedRecords.sort((a, b) => a.ticks - b.ticks)
+    this.arrivalsByTick = new Map()
+    for (const { record, ticks } of timedRecords) {
+      const tick = Math.floor(ticks)
+      const arrivals = this.arrivalsByTick.get(tick) ?? []
+      arrivals.push({
+        energyNeededKwh: record.energyKwh,
+        dwellTicks:
+          record.durationMinutes === null
+            ? null
+            : Math.max(1, Math.round(record.durationMinutes / calendar.tickMinutes)),
+        vehicleModelId: record.vehicleModelId,
+      })
+      this.arrivalsByTick.set(tick, arrivals)
+    }
+    this.calendar = calendar
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { SimulationCalendar, getDaysInMonth, isLeapYear } from './calendar'
+import { EVChargingSimulation } from './index'
+
+describe('SimulationCalendar', () => {
+  describe('leap years', () => {
+    it('knows the Gregorian leap year rules', () => {
+      expect([2023, 2024, 1900, 2000].map(isLeapYear)).toEqual([false, true, false, true])
+      expect(getDaysInMonth(2024, 1)).toBe(29)
+      expect(getDaysInMonth(2023, 1)).toBe(28)
+    })
+
+    it('covers February 29 and 366 days in a leap year', () => {
+      const calendar = new SimulationCalendar('2024-01-01', 60)
+
+      expect(calendar.getDaysInFirstYear()).toBe(366)
+      expect(calendar.getDateOfDay(58)).toBe('2024-02-28')
+      expect(calendar.getDateOfDay(59)).toBe('2024-02-29')
+      expect(calendar.getDateOfDay(60)).toBe('2024-03-01')
+      expect(calendar.getDateOfDay(365)).toBe('2024-12-31')
+    })
+
+    it('simulates 8784 hours in a leap year and 8760 otherwise', () => {
+      const leapYear = new EVChargingSimulation(1, {
+        verbose: false,
+        config: { startDate: '2024-01-01', tickMinutes: 60 },
+      })
+      const commonYear = new EVChargingSimulation(1, {
+        verbose: false,
+        config: { startDate: '2023-01-01', tickMinutes: 60 },
+      })
+
+      expect(leapYear.getMaxTicks()).toBe(8784)
+      expect(commonYear.getMaxTicks()).toBe(8760)
+    })
+
+    it('counts the leap day only if the simulated year contains it', () => {
+      expect(new SimulationCalendar('2023-03-01', 60).getDaysInFirstYear()).toBe(366)
+      expect(new SimulationCalendar('2024-03-01', 60).getDaysInFirstYear()).toBe(365)
+    })
+  })
+
+  describe('daylight saving time', () => {
+    it('skips the missing hour on the spring-forward day', () => {
+      const calendar = new SimulationCalendar('2023-03-26', 60, 'Europe/Berlin')
+
+      expect([0, 1, 2, 3].map((tick) => calendar.getHourOfDay(tick))).toEqual([0, 1, 3, 4])
+      expect(calendar.getTimestamp(1)).toBe('2023-03-26T01:00:00+01:00')
+      expect(calendar.getTimestamp(2)).toBe('2023-03-26T03:00:00+02:00')
+      // The 24 ticks of the first simulated day end at 01:00 of the next local day
+      expect(calendar.getLocalDateTime(24)).toMatchObject({ day: 27, hour: 1 })
+      expect(calendar.getTicksSinceStart('2023-03-26T03:00:00')).toBe(2)
+    })
+
+    it('repeats an hour on the fall-back day', () => {
+      const calendar = new SimulationCalendar('2023-10-29', 15, 'Europe/Berlin')
+      const ticksPerHour = calendar.ticksPerHour
+
+      expect([0, 1, 2, 3, 4].map((hour) => calendar.getHourOfDay(hour * ticksPerHour))).toEqual([0, 1, 2, 2, 3])
+      expect(calendar.getTimestamp(2 * ticksPerHour + 1)).toBe('2023-10-29T02:15:00+02:00')
+      expect(calendar.getTimestamp(3 * ticksPerHour + 1)).toBe('2023-10-29T02:15:00+01:00')
+      expect(calendar.getTicksSinceStart('2023-10-29T02:15:00+01:00')).toBe(3 * ticksPerHour + 1)
+      // The 96 ticks of the first simulated day end at 23:00 of the same local day
+      expect(calendar.getLocalDateTime(calendar.ticksPerDay - 1)).toMatchObject({ day: 29, hour: 22, minute: 45 })
+      expect(calendar.getDateOfDay(0)).toBe('2023-10-29')
+    })
+  })
+
+  describe('year boundaries', () => {
+    it('maps months and weekdays across New Year', () => {
+      const calendar = new SimulationCalendar('2023-12-30', 60)
+
+      expect(calendar.getLocalDateTime(0)).toMatchObject({ year: 2023, month: 11, day: 30, weekday: 6 })
+      expect(calendar.getDayType(0)).toBe('saturday')
+      expect(calendar.getDayType(24)).toBe('sunday-holiday')
+      expect(calendar.getLocalDateTime(47)).toMatchObject({ year: 2023, month: 11, day: 31, hour: 23 })
+      expect(calendar.getLocalDateTime(48)).toMatchObject({ year: 2024, month: 0, day: 1, hour: 0, weekday: 1 })
+      expect(calendar.getDayType(48)).toBe('weekday')
+      expect(calendar.getMonth(48)).toBe(0)
+    })
+
+    it('treats a holiday on New Year like a Sunday', () => {
+      const calendar = new SimulationCalendar('2023-12-30', 60, null, ['2024-01-01'])
+
+      expect(calendar.getDayType(48)).toBe('sunday-holiday')
+      expect(calendar.getDayType(72)).toBe('weekday')
+    })
+
+    it('changes the year at local midnight, not at UTC midnight', () => {
+      const calendar = new SimulationCalendar('2023-12-31', 60, 'America/New_York')
+
+      // 23:00 in New York is already 04:00 UTC on January 1
+      expect(calendar.getLocalDateTime(23)).toMatchObject({ year: 2023, month: 11, day: 31, hour: 23, weekday: 0 })
+      expect(calendar.getTimestamp(23)).toBe('2023-12-31T23:00:00-05:00')
+      expect(calendar.getLocalDateTime(24)).toMatchObject({ year: 2024, month: 0, day: 1, hour: 0, weekday: 1 })
+    })
+  })
+})
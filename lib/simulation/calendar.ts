@@ -0,0 +1,344 @@
+/**
+ * calendar.ts
+ * Maps simulation ticks to real dates and times: start date, month lengths, leap years,
+ * weekdays, holidays and, optionally, a time zone with daylight saving time.
+ */
+import { HOURS_PER_DAY, getTicksPerHour } from './config'
+
+const MS_PER_MINUTE = 60 * 1000
+const MS_PER_DAY = HOURS_PER_DAY * 60 * MS_PER_MINUTE
+
+/**
+ * Kind of day, used to pick the arrival profile: Monday to Friday, Saturday, or Sunday and public holidays.
+ */
+export type DayType = 'weekday' | 'saturday' | 'sunday-holiday'
+
+/**
+ * Local calendar date and wall-clock time of a tick.
+ */
+export interface LocalDateTime {
+  year: number
+  /** Zero-based month (0 = January). */
+  month: number
+  /** Day of the month (1-31). */
+  day: number
+  hour: number
+  minute: number
+  /** Day of the week (0 = Sunday). */
+  weekday: number
+}
+
+export function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0
+}
+
+/**
+ * Returns the number of days in a month, taking leap years into account.
+ * @param {number} year - The year.
+ * @param {number} month - Zero-based month (0 = January).
+ * @returns {number} The number of days.
+ */
+export function getDaysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+}
+
+/**
+ * Parses a calendar date in `YYYY-MM-DD` format.
+ * @param {string} date - The date to parse.
+ * @returns {{year: number, month: number, day: number}} The date with a zero-based month.
+ * @throws {Error} If the string is not a valid date.
+ */
+export function parseIsoDate(date: string): { year: number; month: number; day: number } {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date)
+  if (!match) {
+    throw new Error(`Invalid date "${date}", expected YYYY-MM-DD.`)
+  }
+  const year = Number(match[1])
+  const month = Number(match[2]) - 1
+  const day = Number(match[3])
+  if (month < 0 || month > 11 || day < 1 || day > getDaysInMonth(year, month)) {
+    throw new Error(`Invalid date "${date}".`)
+  }
+  return { year, month, day }
+}
+
+/**
+ * A local date and time with an optional UTC offset, as parsed by `parseIsoDateTime`.
+ */
+export interface IsoDateTime {
+  year: number
+  /** Zero-based month (0 = January). */
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+  /** Offset from UTC in minutes, or null if the timestamp has none and is local time. */
+  offsetMinutes: number | null
+}
+
+/**
+ * Parses an ISO 8601 timestamp such as "2023-03-26T14:45:00+02:00", "2023-03-26T12:45Z" or "2023-03-26 14:45".
+ * Fractions of a second are ignored.
+ * @param {string} timestamp - The timestamp to parse.
+ * @returns {IsoDateTime} Its date, time and offset.
+ * @throws {Error} If the string is not a valid timestamp.
+ */
+export function parseIsoDateTime(timestamp: string): IsoDateTime {
+  const match = /^(\d{4}-\d{2}-\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|([+-])(\d{2}):?(\d{2}))?$/.exec(
+    timestamp.trim(),
+  )
+  if (!match) {
+    throw new Error(`Invalid timestamp "${timestamp}", expected YYYY-MM-DDTHH:MM[:SS][Z|±HH:MM].`)
+  }
+  const { year, month, day } = parseIsoDate(match[1])
+  const hour = Number(match[2])
+  const minute = Number(match[3])
+  const second = match[4] === undefined ? 0 : Number(match[4])
+  if (hour > 23 || minute > 59 || second > 59) {
+    throw new Error(`Invalid timestamp "${timestamp}".`)
+  }
+  let offsetMinutes: number | null = null
+  if (match[5] === 'Z') {
+    offsetMinutes = 0
+  } else if (match[5] !== undefined) {
+    offsetMinutes = (match[6] === '-' ? -1 : 1) * (Number(match[7]) * 60 + Number(match[8]))
+  }
+  return { year, month, day, hour, minute, second, offsetMinutes }
+}
+
+/**
+ * Moves a calendar date by whole months, clamping the day to the length of the target month.
+ * @param {string} date - The date, `YYYY-MM-DD`.
+ * @param {number} months - Months to add, negative to go back.
+ * @returns {string} The shifted date, `YYYY-MM-DD`.
+ */
+export function addMonthsToIsoDate(date: string, months: number): string {
+  const { year, month, day } = parseIsoDate(date)
+  const target = new Date(Date.UTC(year, month + months, 1))
+  const targetYear = target.getUTCFullYear()
+  const targetMonth = target.getUTCMonth()
+  const targetDay = Math.min(day, getDaysInMonth(targetYear, targetMonth))
+  return `${pad(targetYear, 4)}-${pad(targetMonth + 1)}-${pad(targetDay)}`
+}
+
+/**
+ * Checks whether a string is a time zone known to the runtime, e.g. "Europe/Berlin".
+ * @param {string} timeZone - The IANA time zone name.
+ * @returns {boolean} True if the time zone can be used.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0')
+}
+
+/**
+ * Converts simulation ticks to dates. Tick 0 is local midnight of the start date. Ticks are a fixed number of
+ * minutes apart in real time, so with a time zone the local wall-clock hour shifts on daylight saving days.
+ * Without a time zone, times are UTC.
+ */
+export class SimulationCalendar {
+  public readonly startDate: string
+  public readonly tickMinutes: number
+  public readonly ticksPerHour: number
+  public readonly ticksPerDay: number
+  public readonly timeZone: string | null
+  private startMs: number
+  private holidays: Set<string>
+  private formatter: Intl.DateTimeFormat | null
+  private cachedHourIndex: number = -1
+  private cachedHourStart: LocalDateTime | null = null
+
+  /**
+   * @param {string} startDate - First simulated day, `YYYY-MM-DD`.
+   * @param {number} tickMinutes - Length of a tick in minutes.
+   * @param {string | null} [timeZone] - IANA time zone, or null for UTC.
+   * @param {string[]} [holidays] - Public holidays, `YYYY-MM-DD`. They use the Sunday arrival profile.
+   * @throws {Error} If the start date, a holiday or the time zone is invalid.
+   */
+  constructor(startDate: string, tickMinutes: number, timeZone: string | null = null, holidays: string[] = []) {
+    const { year, month, day } = parseIsoDate(startDate)
+    holidays.forEach(parseIsoDate)
+    if (timeZone !== null && !isValidTimeZone(timeZone)) {
+      throw new Error(`Unknown time zone "${timeZone}".`)
+    }
+    this.startDate = startDate
+    this.tickMinutes = tickMinutes
+    this.ticksPerHour = getTicksPerHour(tickMinutes)
+    this.ticksPerDay = this.ticksPerHour * HOURS_PER_DAY
+    this.timeZone = timeZone
+    this.holidays = new Set(holidays)
+    this.formatter =
+      timeZone === null
+        ? null
+        : new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            weekday: 'short',
+          })
+
+    // Local midnight of the start date: correct the UTC guess by the offset in effect at that time
+    const utcMidnightMs = Date.UTC(year, month, day)
+    this.startMs = utcMidnightMs - this.getOffsetMinutes(utcMidnightMs) * MS_PER_MINUTE
+    this.startMs = utcMidnightMs - this.getOffsetMinutes(this.startMs) * MS_PER_MINUTE
+  }
+
+  /**
+   * Returns the number of days from the start date to the same date one year later (365 or 366).
+   * @returns {number} The number of days in the simulated year.
+   */
+  public getDaysInFirstYear(): number {
+    const { year, month, day } = parseIsoDate(this.startDate)
+    return Math.round((Date.UTC(year + 1, month, day) - Date.UTC(year, month, day)) / MS_PER_DAY)
+  }
+
+  /**
+   * Returns the local date and time at the start of a tick.
+   * @param {number} tick - The tick.
+   * @returns {LocalDateTime} The local date and wall-clock time.
+   */
+  public getLocalDateTime(tick: number): LocalDateTime {
+    // Offsets change on whole hours in practice, so the local time is looked up once per simulated hour
+    const hourIndex = Math.floor(tick / this.ticksPerHour)
+    if (hourIndex !== this.cachedHourIndex || !this.cachedHourStart) {
+      this.cachedHourIndex = hourIndex
+      this.cachedHourStart = this.toLocalDateTime(this.startMs + hourIndex * 60 * MS_PER_MINUTE)
+    }
+    const minute = this.cachedHourStart.minute + (tick % this.ticksPerHour) * this.tickMinutes
+    if (minute >= 60) {
+      // Time zones with a half-hour offset cross a wall-clock hour within the simulated hour
+      return this.toLocalDateTime(this.startMs + tick * this.tickMinutes * MS_PER_MINUTE)
+    }
+    return { ...this.cachedHourStart, minute }
+  }
+
+  /**
+   * Returns the local hour of day (0-23) of a tick.
+   * @param {number} tick - The tick.
+   * @returns {number} The hour of day.
+   */
+  public getHourOfDay(tick: number): number {
+    return this.getLocalDateTime(tick).hour
+  }
+
+  /**
+   * Returns the zero-based calendar month of a tick.
+   * @param {number} tick - The tick.
+   * @returns {number} The month (0 = January).
+   */
+  public getMonth(tick: number): number {
+    return this.getLocalDateTime(tick).month
+  }
+
+  /**
+   * Returns whether a tick falls on a weekday, a Saturday, or a Sunday or holiday.
+   * @param {number} tick - The tick.
+   * @returns {DayType} The kind of day.
+   */
+  public getDayType(tick: number): DayType {
+    const local = this.getLocalDateTime(tick)
+    if (local.weekday === 0 || this.holidays.has(this.formatDate(local))) {
+      return 'sunday-holiday'
+    }
+    return local.weekday === 6 ? 'saturday' : 'weekday'
+  }
+
+  /**
+   * Returns the local calendar date of a simulated day. Simulated days are blocks of `ticksPerDay` ticks
+   * from the start; the date is taken at the middle of the block so daylight saving shifts do not move it.
+   * @param {number} dayIndex - Zero-based day of the simulation.
+   * @returns {string} The date, `YYYY-MM-DD`.
+   */
+  public getDateOfDay(dayIndex: number): string {
+    return this.formatDate(this.getLocalDateTime(dayIndex * this.ticksPerDay + this.ticksPerDay / 2))
+  }
+
+  /**
+   * Returns the ISO 8601 timestamp of the start of a tick, with the local UTC offset.
+   * @param {number} tick - The tick.
+   * @returns {string} The timestamp, e.g. "2023-03-26T14:45:00+02:00".
+   */
+  public getTimestamp(tick: number): string {
+    const instantMs = this.startMs + tick * this.tickMinutes * MS_PER_MINUTE
+    const local = this.toLocalDateTime(instantMs)
+    const offsetMinutes = this.getOffsetMinutes(instantMs)
+    const sign = offsetMinutes < 0 ? '-' : '+'
+    const offset = `${sign}${pad(Math.floor(Math.abs(offsetMinutes) / 60))}:${pad(Math.abs(offsetMinutes) % 60)}`
+    return `${this.formatDate(local)}T${pad(local.hour)}:${pad(local.minute)}:00${offset}`
+  }
+
+  /**
+   * Returns how many ticks after the start a timestamp is; the tick it falls in is the whole part. A timestamp
+   * without a UTC offset is local time in the calendar's time zone.
+   * @param {string} timestamp - The ISO 8601 timestamp, see `parseIsoDateTime`.
+   * @returns {number} The fractional number of ticks; negative before the start date.
+   * @throws {Error} If the timestamp is invalid.
+   */
+  public getTicksSinceStart(timestamp: string): number {
+    const { year, month, day, hour, minute, second, offsetMinutes } = parseIsoDateTime(timestamp)
+    const wallClockMs = Date.UTC(year, month, day, hour, minute, second)
+    let instantMs: number
+    if (offsetMinutes !== null) {
+      instantMs = wallClockMs - offsetMinutes * MS_PER_MINUTE
+    } else {
+      // Same correction as for the start date: the offset in effect at the UTC guess, then at the corrected instant
+      instantMs = wallClockMs - this.getOffsetMinutes(wallClockMs) * MS_PER_MINUTE
+      instantMs = wallClockMs - this.getOffsetMinutes(instantMs) * MS_PER_MINUTE
+    }
+    return (instantMs - this.startMs) / (this.tickMinutes * MS_PER_MINUTE)
+  }
+
+  private formatDate(local: LocalDateTime): string {
+    return `${pad(local.year, 4)}-${pad(local.month + 1)}-${pad(local.day)}`
+  }
+
+  private toLocalDateTime(instantMs: number): LocalDateTime {
+    if (!this.formatter) {
+      const date = new Date(instantMs)
+      return {
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth(),
+        day: date.getUTCDate(),
+        hour: date.getUTCHours(),
+        minute: date.getUTCMinutes(),
+        weekday: date.getUTCDay(),
+      }
+    }
+    const parts = Object.fromEntries(this.formatter.formatToParts(new Date(instantMs)).map((p) => [p.type, p.value]))
+    return {
+      year: Number(parts.year),
+      month: Number(parts.month) - 1,
+      day: Number(parts.day),
+      hour: Number(parts.hour),
+      minute: Number(parts.minute),
+      weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(parts.weekday),
+    }
+  }
+
+  /**
+   * Returns the UTC offset of the time zone at an instant.
+   * @param {number} instantMs - The instant in milliseconds since the epoch.
+   * @returns {number} The offset in minutes (0 without a time zone).
+   */
+  private getOffsetMinutes(instantMs: number): number {
+    if (!this.formatter) {
+      return 0
+    }
+    const local = this.toLocalDateTime(instantMs)
+    const localAsUtcMs = Date.UTC(local.year, local.month, local.day, local.hour, local.minute)
+    return Math.round((localAsUtcMs - Math.floor(instantMs / MS_PER_MINUTE) * MS_PER_MINUTE) / MS_PER_MINUTE)
+  }
+}
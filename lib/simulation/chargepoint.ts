@@ -2,78 +2,175 @@
  * chargepoint.ts
  * Represents a single EV chargepoint in the simulation.
  */
-import { TICKS_PER_HOUR, POWER_PER_CHARGEPOINT_KW } from './config'
+import { DEFAULT_TICK_MINUTES, POWER_PER_CHARGEPOINT_KW, getTicksPerHour, type ConnectorType } from './config'
 import type { ElectricVehicle } from './ev'
 
+/**
+ * The simulation clock, shared by reference between the simulation and its chargepoints.
+ */
 export interface TickRef {
   value: number
+  /** Resolution of the clock, see `SimulationConfig.tickMinutes`. */
+  ticksPerHour: number
+}
+
+/**
+ * How an EV charges over its stay at a chargepoint, see `Chargepoint.getChargingProfile`.
+ */
+export interface ChargingProfile {
+  /** Energy delivered in each tick in kWh, up to the last tick the EV draws energy. */
+  energyPerTickKwh: number[]
+  /** Number of ticks until the EV was full, or null if it is not full by the end of the profile. */
+  ticksToFullCharge: number | null
 }
 
 export class Chargepoint {
   public id: number
+  public groupId: string
+  public connector: ConnectorType
   public powerKw: number
+  /** Power the chargepoint may draw during the current tick, set by the station's load management. */
+  public allocatedPowerKw: number
   public currentEV: ElectricVehicle | null
-  private verbose: boolean
+  /** Called whenever the chargepoint becomes free again, so the station can offer it to the next EV. */
+  public onRelease: ((chargepoint: Chargepoint) => void) | null = null
   private currentTickRef: TickRef
 
-  constructor(id: number, verbose = false, currentTickRef: TickRef = { value: 0 }) {
+  constructor(
+    id: number,
+    powerKw: number = POWER_PER_CHARGEPOINT_KW,
+    currentTickRef: TickRef = { value: 0, ticksPerHour: getTicksPerHour(DEFAULT_TICK_MINUTES) },
+    connector: ConnectorType = 'type2',
+    groupId = 'default',
+  ) {
     this.id = id
-    this.powerKw = POWER_PER_CHARGEPOINT_KW
+    this.groupId = groupId
+    this.connector = connector
+    this.powerKw = powerKw
+    this.allocatedPowerKw = powerKw
     this.currentEV = null
-    this.verbose = verbose
     this.currentTickRef = currentTickRef
   }
 
-  private _log(message: string): void {
-    if (this.verbose) {
-      // In a Next.js server component, console.log goes to the server console
-      console.log(`[TICK ${this.currentTickRef.value}][CP ${this.id}] ${message}`)
-    }
-  }
-
   public isAvailable(): boolean {
     return this.currentEV === null
   }
 
+  public isCompatibleWith(ev: ElectricVehicle): boolean {
+    return ev.supportsConnector(this.connector)
+  }
+
   public assignEV(ev: ElectricVehicle): boolean {
-    if (!this.isAvailable()) {
-      this._log(`❌ Attempted to assign EV[${ev.id}] but chargepoint is busy with EV[${this.currentEV?.id}].`)
-      return false
-    }
-    if (!ev || !ev.energyNeededKwh || ev.energyNeededKwh <= 0) {
-      this._log(`ℹ️ Attempted to assign EV[${ev?.id}] but it needs no charge.`)
+    // Busy, no demand, or no matching connector
+    if (!this.isAvailable() || !ev || !ev.energyNeededKwh || ev.energyNeededKwh <= 0 || !this.isCompatibleWith(ev)) {
       return false
     }
     this.currentEV = ev
-    this._log(`🔌 EV[${ev.id}] assigned. Needs ${ev.energyNeededKwh.toFixed(2)} kWh.`)
+    this.allocatedPowerKw = this.getRequestedPowerKw()
+    ev.plugInTick = this.currentTickRef.value
+    ev.unconstrainedChargeTicks = this.getTicksToFullCharge(ev)
+    ev.expectedDepartureTick = ev.plugInTick + (ev.dwellTicks ?? ev.unconstrainedChargeTicks)
     return true
   }
 
-  public processChargingTick(): number {
-    if (this.isAvailable() || !this.currentEV) {
+  /**
+   * Returns the power the attached EV could draw this tick without a grid limit: the lower of the chargepoint
+   * power and the EV's acceptance at its state of charge at the start of the tick, reduced in the last tick
+   * if the EV needs less than a full tick of energy.
+   * @returns {number} The requested power in kW (0 if no EV is attached).
+   */
+  public getRequestedPowerKw(): number {
+    if (!this.currentEV) {
       return 0
     }
-    const energyDeliverableThisTick = this.powerKw * (1 / TICKS_PER_HOUR)
-    const energyDelivered = this.currentEV.charge(energyDeliverableThisTick)
+    return this.getUnconstrainedPowerKw(this.currentEV, this.currentEV.getRemainingEnergyKwh())
+  }
 
-    if (energyDelivered > 0) {
-      this._log(
-        `🔄 Charging EV[${this.currentEV.id}]: +${energyDelivered.toFixed(2)} kWh. (Total EV charge: ${this.currentEV.energyReceivedKwh.toFixed(2)}/${this.currentEV.energyNeededKwh.toFixed(2)} kWh)`,
-      )
+  private getUnconstrainedPowerKw(ev: ElectricVehicle, remainingEnergyKwh: number): number {
+    return Math.min(
+      this.powerKw,
+      ev.getMaxAcceptancePowerKw(this.connector, remainingEnergyKwh),
+      remainingEnergyKwh * this.currentTickRef.ticksPerHour,
+    )
+  }
+
+  /**
+   * Returns how many ticks the EV needs without a grid limit, following its charging curve.
+   * @param {ElectricVehicle} ev - The EV to charge.
+   * @returns {number} The number of ticks until the EV is fully charged.
+   */
+  public getTicksToFullCharge(ev: ElectricVehicle): number {
+    let remainingEnergyKwh = ev.getRemainingEnergyKwh()
+    let ticks = 0
+    while (remainingEnergyKwh > 0.0001) {
+      remainingEnergyKwh -= this.getUnconstrainedPowerKw(ev, remainingEnergyKwh) / this.currentTickRef.ticksPerHour
+      ticks++
     }
+    return ticks
+  }
 
-    if (this.currentEV.isFullyCharged()) {
-      this._log(
-        `✅ EV[${this.currentEV.id}] fully charged! (${this.currentEV.energyReceivedKwh.toFixed(2)} kWh). Releasing.`,
+  /**
+   * Plays out charging the EV without a grid limit, with the same arithmetic as `processChargingTick`.
+   * The event engine uses this to book a whole session when the EV is plugged in.
+   * @param {ElectricVehicle} ev - The EV to charge.
+   * @param {number} maxTicks - The longest the EV can stay, e.g. its dwell time or the rest of the run.
+   * @returns {ChargingProfile} The energy delivered in each tick and when the EV became full.
+   */
+  public getChargingProfile(ev: ElectricVehicle, maxTicks: number): ChargingProfile {
+    const energyPerTickKwh: number[] = []
+    let ticksToFullCharge: number | null = null
+    let energyReceivedKwh = ev.energyReceivedKwh
+    while (energyPerTickKwh.length < maxTicks) {
+      const remainingEnergyKwh = Math.max(0, ev.energyNeededKwh - energyReceivedKwh)
+      const energyKwh = Math.min(
+        this.getUnconstrainedPowerKw(ev, remainingEnergyKwh) / this.currentTickRef.ticksPerHour,
+        ev.energyNeededKwh - energyReceivedKwh,
       )
+      if (energyKwh <= 0) {
+        break
+      }
+      energyReceivedKwh += energyKwh
+      energyPerTickKwh.push(energyKwh)
+      if (ticksToFullCharge === null && ev.isFullyCharged(energyReceivedKwh)) {
+        ticksToFullCharge = energyPerTickKwh.length
+        // EVs without a dwell time leave now; the others keep drawing what is left below the tolerance
+        if (ev.dwellTicks === null) {
+          break
+        }
+      }
+    }
+    return { energyPerTickKwh, ticksToFullCharge }
+  }
+
+  public processChargingTick(): number {
+    if (this.isAvailable() || !this.currentEV) {
+      return 0
+    }
+    const energyDeliverableThisTick = this.allocatedPowerKw / this.currentTickRef.ticksPerHour
+    const energyDelivered = this.currentEV.charge(energyDeliverableThisTick)
+    // EVs without a dwell time leave when full, the others at the end of their parking time
+    if ((this.currentEV.dwellTicks === null && this.currentEV.isFullyCharged()) || this.hasDwellTimeEnded()) {
       this.releaseEV()
     }
     return energyDelivered
   }
 
+  /**
+   * Checks whether the attached EV's parking time ends with the current tick.
+   * @returns {boolean} True if the EV has a dwell time and it is over.
+   */
+  private hasDwellTimeEnded(): boolean {
+    const ev = this.currentEV
+    if (!ev || ev.dwellTicks === null || ev.expectedDepartureTick === null) {
+      return false
+    }
+    return this.currentTickRef.value + 1 >= ev.expectedDepartureTick
+  }
+
   public releaseEV(): void {
     if (this.currentEV) {
       this.currentEV = null
+      this.onRelease?.(this)
     }
   }
 }
@@ -2,19 +2,56 @@
  * config.ts
  * Configuration constants and probability distributions for the EV Charging Simulation.
  */
+import type { DayType } from './calendar'
+import type { LoadManagementStrategy, LoadManagementStrategyName } from './load-management'
+import { createDistribution, type DistributionSpec } from './distributions'
+import {
+  DEFAULT_FLEET_MIX,
+  VEHICLE_MODELS,
+  getFleetMixDistributionSpec,
+  validateVehicleModel,
+  type FleetMixItem,
+  type VehicleModel,
+} from './vehicles'
 
 export const POWER_PER_CHARGEPOINT_KW: number = 11
-export const DAYS_IN_YEAR: number = 365 // Non-leap year
-export const TICKS_PER_HOUR: number = 4 // 15-minute intervals
 export const HOURS_PER_DAY: number = 24
-export const TOTAL_TICKS_PER_YEAR: number = DAYS_IN_YEAR * HOURS_PER_DAY * TICKS_PER_HOUR
 export const KWH_PER_100KM: number = 18
+export const MONTHS_IN_YEAR: number = 12
+/** First simulated day. 2023 is not a leap year, so a default run covers 365 days. */
+export const DEFAULT_START_DATE: string = '2023-01-01'
+
+/**
+ * Tick resolutions offered in the UI, in minutes. Any whole number of minutes that divides an hour is accepted.
+ */
+export const TICK_MINUTES_OPTIONS: number[] = [1, 5, 15, 60]
+export const DEFAULT_TICK_MINUTES: number = 15
+
+/**
+ * Converts a tick length to the number of ticks per hour.
+ * @param {number} tickMinutes - Length of a tick in minutes.
+ * @returns {number} The number of ticks per hour.
+ */
+export function getTicksPerHour(tickMinutes: number): number {
+  return 60 / tickMinutes
+}
+
+/**
+ * Converts a tick length to the number of ticks per day.
+ * @param {number} tickMinutes - Length of a tick in minutes.
+ * @returns {number} The number of ticks per day.
+ */
+export function getTicksPerDay(tickMinutes: number): number {
+  return HOURS_PER_DAY * getTicksPerHour(tickMinutes)
+}
 
 /**
  * T1: Probability of an EV arriving at an *available* chargepoint in a given hour.
  * NEW DATASET (as of user request). Original hints for Task 1 may not apply with this data.
  * Values are probabilities (0.0 to 1.0).
  * Indexed by hour of the day (0-23).
+ * The engine generates arrivals at the station level: the expected number of arrivals per hour
+ * is this value times the number of chargepoints, whether or not the chargepoints are free.
  */
 export const ARRIVAL_PROBABILITY_PER_HOUR_T1: number[] = [
   0.0094, // Hour 0 (00:00 - 01:00)
@@ -43,11 +80,29 @@ export const ARRIVAL_PROBABILITY_PER_HOUR_T1: number[] = [
   0.0094, // Hour 23 (23:00 - 24:00)
 ]
 
-export interface DemandDistributionItem {
-  value: number // km
+/**
+ * Arrival profiles for weekends, used instead of T1 on those days when selected. Saturdays peak around midday
+ * without the evening commute, Sundays and holidays are quieter still. Illustrative values.
+ */
+export const WEEKEND_ARRIVAL_PROBABILITY_PER_HOUR: Partial<Record<DayType, number[]>> = {
+  saturday: [
+    0.0094, 0.0094, 0.0094, 0.0094, 0.0094, 0.0094, 0.0094, 0.0094, 0.0189, 0.0472, 0.0755, 0.0755, 0.0755, 0.0755,
+    0.0566, 0.0566, 0.0566, 0.0377, 0.0377, 0.0283, 0.0283, 0.0283, 0.0094, 0.0094,
+  ],
+  'sunday-holiday': [
+    0.0094, 0.0094, 0.0094, 0.0094, 0.0094, 0.0094, 0.0094, 0.0094, 0.0189, 0.0189, 0.0377, 0.0377, 0.0377, 0.0472,
+    0.0472, 0.0472, 0.0472, 0.0472, 0.0283, 0.0283, 0.0283, 0.0283, 0.0094, 0.0094,
+  ],
+}
+
+export interface DistributionItem {
+  value: number
   probability: number
 }
 
+/** Demand distribution item, value in km. */
+export type DemandDistributionItem = DistributionItem
+
 /**
  * T2: Distribution of distance driven (km) since last charge for an arriving EV.
  * NEW DATASET (as of user request). Original hints for Task 1 may not apply with this data.
@@ -65,11 +120,182 @@ export const CHARGING_DEMAND_KM_DISTRIBUTION_T2: DemandDistributionItem[] = [
   { value: 300, probability: 0.0294 },
 ]
 
+/**
+ * A distribution that applies to arrivals from `fromHour` up to, but excluding, `toHour`. Bands may wrap past
+ * midnight, e.g. 22 to 6.
+ */
+export interface HourBandDistribution {
+  fromHour: number
+  toHour: number
+  distribution: DistributionSpec
+}
+
+/**
+ * Expands hour bands into distributions keyed by hour of arrival, e.g. for `chargingDemandKmDistributionByHour`.
+ * @param {HourBandDistribution[]} bands - The bands; they must not overlap.
+ * @returns {Partial<Record<number, DistributionSpec>>} The distribution of each hour covered by a band.
+ * @throws {Error} If a band is empty, has an hour outside 0-24, or overlaps another band.
+ */
+export function getDistributionsByHour(bands: HourBandDistribution[]): Partial<Record<number, DistributionSpec>> {
+  const distributionsByHour: Partial<Record<number, DistributionSpec>> = {}
+  for (const { fromHour, toHour, distribution } of bands) {
+    if (
+      !Number.isInteger(fromHour) ||
+      !Number.isInteger(toHour) ||
+      fromHour < 0 ||
+      fromHour >= HOURS_PER_DAY ||
+      toHour < 0 ||
+      toHour > HOURS_PER_DAY
+    ) {
+      throw new Error(`Hour bands must use whole hours from 0 to ${HOURS_PER_DAY}, got ${fromHour}-${toHour}.`)
+    }
+    if (fromHour === toHour) {
+      throw new Error(`The hour band ${fromHour}-${toHour} is empty.`)
+    }
+    const length = toHour > fromHour ? toHour - fromHour : toHour + HOURS_PER_DAY - fromHour
+    for (let i = 0; i < length; i++) {
+      const hour = (fromHour + i) % HOURS_PER_DAY
+      if (distributionsByHour[hour]) {
+        throw new Error(`Hour bands overlap at hour ${hour}.`)
+      }
+      distributionsByHour[hour] = distribution
+    }
+  }
+  return distributionsByHour
+}
+
+/**
+ * Demand presets by time of day. In the commuter preset, lunchtime arrivals (11-14h) mostly top up after short
+ * trips, while evening arrivals (17-22h) come home from longer drives. Other hours use the global T2 distribution.
+ * Illustrative values.
+ */
+export type DemandProfile = 'commuter'
+
+export const CHARGING_DEMAND_KM_BY_HOUR_PRESETS: Record<DemandProfile, HourBandDistribution[]> = {
+  commuter: [
+    {
+      fromHour: 11,
+      toHour: 14,
+      distribution: {
+        type: 'discrete',
+        items: [
+          { value: 0, probability: 0.4 },
+          { value: 5, probability: 0.1 },
+          { value: 10, probability: 0.15 },
+          { value: 20, probability: 0.15 },
+          { value: 30, probability: 0.08 },
+          { value: 50, probability: 0.07 },
+          { value: 100, probability: 0.04 },
+          { value: 200, probability: 0.01 },
+        ],
+      },
+    },
+    {
+      fromHour: 17,
+      toHour: 22,
+      distribution: {
+        type: 'discrete',
+        items: [
+          { value: 0, probability: 0.25 },
+          { value: 5, probability: 0.03 },
+          { value: 10, probability: 0.06 },
+          { value: 20, probability: 0.1 },
+          { value: 30, probability: 0.1 },
+          { value: 50, probability: 0.16 },
+          { value: 100, probability: 0.16 },
+          { value: 200, probability: 0.09 },
+          { value: 300, probability: 0.05 },
+        ],
+      },
+    },
+  ],
+}
+
+/**
+ * Connector types: `type2` is AC, `ccs` and `chademo` are DC.
+ */
+export type ConnectorType = 'type2' | 'ccs' | 'chademo'
+
+export const CONNECTOR_LABELS: Record<ConnectorType, string> = {
+  type2: 'Type 2 (AC)',
+  ccs: 'CCS (DC)',
+  chademo: 'CHAdeMO (DC)',
+}
+
+/**
+ * A group of identical chargepoints within a station, e.g. 16×11 kW AC.
+ */
+export interface ChargepointGroup {
+  id: string
+  label: string
+  count: number
+  powerKw: number
+  connector: ConnectorType
+}
+
+/**
+ * Parking duration (minutes) presets for sites where EVs leave on their own schedule rather than when full.
+ */
+export type DwellTimeProfile = 'supermarket' | 'workplace'
+
+export const DWELL_TIME_MINUTES_PRESETS: Record<DwellTimeProfile, DistributionSpec> = {
+  supermarket: {
+    type: 'discrete',
+    items: [
+      { value: 20, probability: 0.15 },
+      { value: 30, probability: 0.25 },
+      { value: 45, probability: 0.3 },
+      { value: 60, probability: 0.2 },
+      { value: 90, probability: 0.1 },
+    ],
+  },
+  workplace: {
+    type: 'discrete',
+    items: [
+      { value: 120, probability: 0.05 },
+      { value: 240, probability: 0.15 },
+      { value: 360, probability: 0.2 },
+      { value: 480, probability: 0.35 },
+      { value: 540, probability: 0.25 },
+    ],
+  },
+}
+
+/**
+ * Seasonal presets: multipliers for each calendar month (January first) applied to the arrival probability
+ * and to the consumption in kWh/100km. The temperate preset raises winter consumption by 20-25% (heating,
+ * cold batteries) and has slightly more arrivals in summer. Illustrative values.
+ */
+export type SeasonalityProfile = 'temperate'
+
+export interface MonthlyMultipliers {
+  arrival: number[]
+  kwhPer100Km: number[]
+}
+
+export const SEASONALITY_PRESETS: Record<SeasonalityProfile, MonthlyMultipliers> = {
+  temperate: {
+    arrival: [0.92, 0.94, 0.98, 1.0, 1.04, 1.06, 1.08, 1.05, 1.02, 1.0, 0.95, 0.96],
+    kwhPer100Km: [1.25, 1.22, 1.12, 1.03, 0.97, 0.95, 0.96, 0.96, 0.98, 1.05, 1.15, 1.23],
+  },
+}
+
+/**
+ * Waiting queue defaults: at most 5 EVs wait for a free chargepoint, for at most 30 minutes each.
+ */
+export const DEFAULT_MAX_QUEUE_LENGTH: number = 5
+export const DEFAULT_DRIVER_PATIENCE_MINUTES: number = 30
+
 /**
  * Default seed for the random number generator for reproducible results.
  */
 export const DEFAULT_SIMULATION_SEED: number = 12345
 
+/**
+ * Maximum number of seeds of a dashboard Monte Carlo run, to keep the run responsive.
+ */
+export const MAX_MONTE_CARLO_RUNS: number = 50
+
 /**
  * Configuration for verbose logging.
  */
@@ -81,3 +307,202 @@ export const VERBOSE_LOGGING_CONFIG: VerboseLoggingOptions = {
   defaultEnabled: false,
   defaultMaxTicks: 48, // Log for 1/2 day by default if verbose is on
 }
+
+/**
+ * Per-run simulation configuration.
+ * Every stochastic and physical parameter the engine reads is taken from this object,
+ * so that two simulations in the same process can run with different settings.
+ * The module-level constants above only serve as defaults.
+ */
+export interface SimulationConfig {
+  /** Length of a simulation tick in minutes. Must divide an hour evenly. */
+  tickMinutes: number
+  /** First simulated day, `YYYY-MM-DD`. A run covers one calendar year from this date unless `maxTicks` is set. */
+  startDate: string
+  /** IANA time zone (e.g. "Europe/Berlin") whose wall-clock hours drive the arrival profiles, or null for UTC. */
+  timeZone: string | null
+  /** Public holidays, `YYYY-MM-DD`. They use the Sunday arrival profile. */
+  holidays: string[]
+  /** Power output of each chargepoint in kW. */
+  chargepointPowerKw: number
+  /** Average energy consumption of arriving EVs in kWh per 100 km. */
+  kwhPer100Km: number
+  /** Multiplier applied to every hourly arrival probability (1 = 100%). */
+  arrivalMultiplier: number
+  /** Hourly arrival probabilities (0-23), see T1. */
+  arrivalProbabilityPerHour: number[]
+  /** Optional hourly arrival probabilities per kind of day, overriding `arrivalProbabilityPerHour` on those days. */
+  arrivalProbabilityPerHourByDayType: Partial<Record<DayType, number[]>> | null
+  /** Optional arrival multipliers per calendar month (January first), on top of `arrivalMultiplier`. */
+  monthlyArrivalMultipliers: number[] | null
+  /** Optional multipliers of `kwhPer100Km` per calendar month (January first), e.g. higher in winter. */
+  monthlyKwhPer100KmMultipliers: number[] | null
+  /** Distribution of km driven since last charge, see T2. */
+  chargingDemandKmDistribution: DistributionSpec
+  /**
+   * Optional demand distributions by hour of arrival (0-23), overriding the global one for those hours.
+   * See `getDistributionsByHour` for building it from hour bands.
+   */
+  chargingDemandKmDistributionByHour: Partial<Record<number, DistributionSpec>> | null
+  /** Arriving drivers balk (drive away) when this many EVs are already waiting. 0 disables the queue. */
+  maxQueueLength: number
+  /** Drivers leave the queue after waiting this many minutes without getting a chargepoint. */
+  driverPatienceMinutes: number
+  /** Station-wide power cap in kW (e.g. the transformer limit), or null for no limit. */
+  gridConnectionLimitKw: number | null
+  /** How the grid connection limit is shared between charging chargepoints. */
+  loadManagementStrategy: LoadManagementStrategyName | LoadManagementStrategy
+  /**
+   * Distribution of parking duration in minutes, sampled per arrival. EVs leave when it ends, full or not.
+   * Null means EVs leave as soon as they are fully charged.
+   */
+  dwellTimeMinutesDistribution: DistributionSpec | null
+  /** Optional dwell time distributions by hour of arrival (0-23), overriding the global one for those hours. */
+  dwellTimeMinutesDistributionByHour: Partial<Record<number, DistributionSpec>> | null
+  /**
+   * Chargepoint groups that make up the station. Null means a single group of identical Type 2 chargepoints
+   * at `chargepointPowerKw`, sized by the number of chargepoints passed to the simulation.
+   */
+  stationLayout: ChargepointGroup[] | null
+  /** Vehicle model catalogue, keyed by model id. */
+  vehicleModels: Record<string, VehicleModel>
+  /** Share of each vehicle model among arrivals, sampled per arrival. */
+  fleetMix: FleetMixItem[]
+}
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  tickMinutes: DEFAULT_TICK_MINUTES,
+  startDate: DEFAULT_START_DATE,
+  timeZone: null,
+  holidays: [],
+  chargepointPowerKw: POWER_PER_CHARGEPOINT_KW,
+  kwhPer100Km: KWH_PER_100KM,
+  arrivalMultiplier: 1,
+  arrivalProbabilityPerHour: ARRIVAL_PROBABILITY_PER_HOUR_T1,
+  arrivalProbabilityPerHourByDayType: null,
+  monthlyArrivalMultipliers: null,
+  monthlyKwhPer100KmMultipliers: null,
+  chargingDemandKmDistribution: { type: 'discrete', items: CHARGING_DEMAND_KM_DISTRIBUTION_T2 },
+  chargingDemandKmDistributionByHour: null,
+  maxQueueLength: DEFAULT_MAX_QUEUE_LENGTH,
+  driverPatienceMinutes: DEFAULT_DRIVER_PATIENCE_MINUTES,
+  gridConnectionLimitKw: null,
+  loadManagementStrategy: 'equal-share',
+  dwellTimeMinutesDistribution: null,
+  dwellTimeMinutesDistributionByHour: null,
+  stationLayout: null,
+  vehicleModels: VEHICLE_MODELS,
+  fleetMix: DEFAULT_FLEET_MIX,
+}
+
+/**
+ * Builds a complete simulation config by applying the given overrides on top of the defaults.
+ * @param {Partial<SimulationConfig>} [overrides] - Values that differ from the defaults.
+ * @returns {SimulationConfig} The resolved configuration.
+ * @throws {Error} If a value is out of its valid range.
+ */
+export function createSimulationConfig(overrides: Partial<SimulationConfig> = {}): SimulationConfig {
+  const config: SimulationConfig = { ...DEFAULT_SIMULATION_CONFIG, ...overrides }
+
+  if (!Number.isInteger(config.tickMinutes) || config.tickMinutes <= 0 || 60 % config.tickMinutes !== 0) {
+    throw new Error(`tickMinutes must be a whole number of minutes that divides an hour, got ${config.tickMinutes}.`)
+  }
+  if (!(config.chargepointPowerKw > 0)) {
+    throw new Error(`chargepointPowerKw must be positive, got ${config.chargepointPowerKw}.`)
+  }
+  if (!(config.kwhPer100Km > 0)) {
+    throw new Error(`kwhPer100Km must be positive, got ${config.kwhPer100Km}.`)
+  }
+  if (!(config.arrivalMultiplier >= 0)) {
+    throw new Error(`arrivalMultiplier cannot be negative, got ${config.arrivalMultiplier}.`)
+  }
+  for (const [name, multipliers] of [
+    ['monthlyArrivalMultipliers', config.monthlyArrivalMultipliers],
+    ['monthlyKwhPer100KmMultipliers', config.monthlyKwhPer100KmMultipliers],
+  ] as const) {
+    if (multipliers && (multipliers.length !== MONTHS_IN_YEAR || multipliers.some((value) => !(value >= 0)))) {
+      throw new Error(`${name} must have ${MONTHS_IN_YEAR} non-negative entries, one per month.`)
+    }
+  }
+  if (!Number.isInteger(config.maxQueueLength) || config.maxQueueLength < 0) {
+    throw new Error(`maxQueueLength must be a non-negative integer, got ${config.maxQueueLength}.`)
+  }
+  if (!(config.driverPatienceMinutes >= 0)) {
+    throw new Error(`driverPatienceMinutes cannot be negative, got ${config.driverPatienceMinutes}.`)
+  }
+  if (config.gridConnectionLimitKw !== null && !(config.gridConnectionLimitKw > 0)) {
+    throw new Error(`gridConnectionLimitKw must be positive or null, got ${config.gridConnectionLimitKw}.`)
+  }
+  for (const [name, distributionsByHour] of [
+    ['chargingDemandKmDistributionByHour', config.chargingDemandKmDistributionByHour],
+    ['dwellTimeMinutesDistributionByHour', config.dwellTimeMinutesDistributionByHour],
+  ] as const) {
+    for (const hour of Object.keys(distributionsByHour ?? {})) {
+      if (!/^\d+$/.test(hour) || Number(hour) >= HOURS_PER_DAY) {
+        throw new Error(`${name} must be keyed by hours from 0 to ${HOURS_PER_DAY - 1}, got "${hour}".`)
+      }
+    }
+  }
+  // Creating a distribution validates its spec
+  for (const spec of [
+    config.chargingDemandKmDistribution,
+    ...Object.values(config.chargingDemandKmDistributionByHour ?? {}),
+    config.dwellTimeMinutesDistribution,
+    ...Object.values(config.dwellTimeMinutesDistributionByHour ?? {}),
+  ]) {
+    if (spec) {
+      createDistribution(spec)
+    }
+  }
+  for (const group of config.stationLayout ?? []) {
+    if (!Number.isInteger(group.count) || group.count < 0) {
+      throw new Error(`Chargepoint group "${group.id}" must have a non-negative integer count, got ${group.count}.`)
+    }
+    if (!(group.powerKw > 0)) {
+      throw new Error(`Chargepoint group "${group.id}" must have a positive power, got ${group.powerKw}.`)
+    }
+  }
+  Object.values(config.vehicleModels).forEach(validateVehicleModel)
+  if (config.fleetMix.length === 0) {
+    throw new Error('fleetMix must contain at least one vehicle model.')
+  }
+  for (const item of config.fleetMix) {
+    if (!config.vehicleModels[item.modelId]) {
+      throw new Error(`fleetMix refers to unknown vehicle model "${item.modelId}".`)
+    }
+  }
+  createDistribution(getFleetMixDistributionSpec(config.fleetMix))
+  if (config.arrivalProbabilityPerHour.length !== HOURS_PER_DAY) {
+    throw new Error(
+      `arrivalProbabilityPerHour must have ${HOURS_PER_DAY} entries, got ${config.arrivalProbabilityPerHour.length}.`,
+    )
+  }
+  for (const [dayType, profile] of Object.entries(config.arrivalProbabilityPerHourByDayType ?? {})) {
+    if (profile && profile.length !== HOURS_PER_DAY) {
+      throw new Error(`The ${dayType} arrival profile must have ${HOURS_PER_DAY} entries, got ${profile.length}.`)
+    }
+  }
+  return config
+}
+
+/**
+ * Returns the chargepoint groups of a station: the configured layout, or a single group of
+ * `numChargepoints` identical Type 2 chargepoints at `chargepointPowerKw`.
+ * @param {SimulationConfig} config - The resolved simulation config.
+ * @param {number} numChargepoints - Number of chargepoints used when no layout is configured.
+ * @returns {ChargepointGroup[]} The station layout.
+ */
+export function resolveStationLayout(config: SimulationConfig, numChargepoints: number): ChargepointGroup[] {
+  if (config.stationLayout) {
+    return config.stationLayout
+  }
+  return [
+    {
+      id: 'default',
+      label: `${numChargepoints}× ${config.chargepointPowerKw} kW Type 2`,
+      count: numChargepoints,
+      powerKw: config.chargepointPowerKw,
+      connector: 'type2',
+    },
+  ]
+}
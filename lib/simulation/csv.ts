@@ -0,0 +1,90 @@
+/**
+ * csv.ts
+ * Minimal CSV serialization for exporting simulation results, and parsing for importing arrival traces.
+ */
+
+/**
+ * A column of a CSV export: the header and how to read the cell from a row.
+ */
+export interface CsvColumn<T> {
+  header: string
+  value: (row: T) => string | number | null
+}
+
+/**
+ * Quotes a cell if it contains a separator, quote or line break.
+ * @param {string | number | null} value - The cell value. Null becomes an empty cell.
+ * @returns {string} The escaped cell.
+ */
+function escapeCsvCell(value: string | number | null): string {
+  const text = value === null ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serializes rows as CSV with a header line, separated by commas and terminated by newlines.
+ * @param {T[]} rows - The rows to export.
+ * @param {CsvColumn<T>[]} columns - The columns, in order.
+ * @returns {string} The CSV text.
+ */
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+  const lines = [columns.map((column) => escapeCsvCell(column.header)).join(',')]
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeCsvCell(column.value(row))).join(','))
+  }
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Parses CSV text into rows of cells. Cells may be quoted with double quotes, which allows separators, line breaks
+ * and doubled quotes inside them. Blank lines are skipped.
+ * @param {string} text - The CSV text, separated by commas, with `\n` or `\r\n` line breaks.
+ * @returns {string[][]} The rows, including the header line if there is one.
+ * @throws {Error} If a quoted cell is not closed.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  let cellStarted = false
+  const endRow = () => {
+    if (cellStarted || row.length > 0) {
+      row.push(cell)
+      rows.push(row)
+    }
+    row = []
+    cell = ''
+    cellStarted = false
+  }
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+      cellStarted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+      cellStarted = true
+    } else if (char === '\n') {
+      endRow()
+    } else if (char !== '\r') {
+      cell += char
+      cellStarted = true
+    }
+  }
+  if (quoted) {
+    throw new Error('Invalid CSV: a quoted cell is not closed.')
+  }
+  endRow()
+  return rows
+}
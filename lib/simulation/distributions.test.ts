@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import { PoissonDistribution, createDistribution, getPoissonRandom, type DistributionSpec } from './distributions'
+import { SeededRandom } from './random'
+
+/**
+ * Draws samples and returns their mean, sample variance and fourth central moment.
+ */
+function getSampleMoments(
+  draw: () => number,
+  samples: number,
+): { mean: number; variance: number; fourthCentralMoment: number } {
+  const values = Array.from({ length: samples }, draw)
+  const mean = values.reduce((sum, value) => sum + value, 0) / samples
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (samples - 1)
+  const fourthCentralMoment = values.reduce((sum, value) => sum + (value - mean) ** 4, 0) / samples
+  return { mean, variance, fourthCentralMoment }
+}
+
+/** Specs with their mean and variance, worked out by hand or by numerical integration for the truncated normals. */
+const DISTRIBUTION_MOMENTS: [string, DistributionSpec, number, number][] = [
+  ['lognormal', { type: 'lognormal', mu: 3, sigma: 0.5 }, 22.7598951, 147.1288084],
+  ['gamma', { type: 'gamma', shape: 2.5, scale: 4 }, 10, 40],
+  ['gamma with a shape below 1', { type: 'gamma', shape: 0.5, scale: 2 }, 1, 2],
+  [
+    'discrete',
+    {
+      type: 'discrete',
+      items: [
+        { value: 10, probability: 0.2 },
+        { value: 20, probability: 0.5 },
+        { value: 40, probability: 0.3 },
+      ],
+    },
+    24,
+    124,
+  ],
+  ['empirical', { type: 'empirical', values: [40, 0, 20, 10] }, 50 / 3, 400 - (50 / 3) ** 2],
+  [
+    'truncated-normal',
+    { type: 'truncated-normal', mean: 30, standardDeviation: 10, min: 20, max: 60 },
+    32.8278611,
+    61.6141735,
+  ],
+  [
+    'one-sided truncated-normal',
+    { type: 'truncated-normal', mean: 5, standardDeviation: 10, min: 0 },
+    10.0916043,
+    48.6175436,
+  ],
+]
+
+describe('getPoissonRandom', () => {
+  it.each([0.5, 4, 700, 1000, 5000])('matches the moments of a Poisson distribution with mean %d', (mean) => {
+    const randomGenerator = new SeededRandom(42, 'poisson')
+    const moments = getSampleMoments(() => getPoissonRandom(mean, randomGenerator), 20000)
+
+    // About five standard errors of the sample mean and the sample variance
+    expect(Math.abs(moments.mean - mean)).toBeLessThan(5 * Math.sqrt(mean / 20000))
+    expect(Math.abs(moments.variance - mean)).toBeLessThan(5 * Math.sqrt((mean + 2 * mean ** 2) / 20000))
+  })
+
+  it('uses one random number per draw', () => {
+    const a = new SeededRandom(7, 'poisson')
+    const b = new SeededRandom(7, 'poisson')
+    getPoissonRandom(2000, a)
+    getPoissonRandom(3, b)
+    expect(a.next()).toBe(b.next())
+  })
+
+  it('rejects negative and infinite means', () => {
+    const randomGenerator = new SeededRandom(1)
+    expect(() => getPoissonRandom(-1, randomGenerator)).toThrow('non-negative')
+    expect(() => getPoissonRandom(Infinity, randomGenerator)).toThrow('non-negative')
+    expect(() => new PoissonDistribution({ type: 'poisson', mean: NaN })).toThrow('non-negative')
+  })
+})
+
+describe('createDistribution', () => {
+  it.each(DISTRIBUTION_MOMENTS)('samples a %s distribution with its mean and variance', (_, spec, mean, variance) => {
+    const distribution = createDistribution(spec)
+    const samples = 20000
+    const randomGenerator = new SeededRandom(42, 'distributions')
+    const sampleMoments = getSampleMoments(() => distribution.sample(randomGenerator), samples)
+
+    expect(distribution.getMean()).toBeCloseTo(mean, 6)
+    expect(distribution.getVariance()).toBeCloseTo(variance, 5)
+    // About five standard errors of the sample mean and the sample variance
+    expect(Math.abs(sampleMoments.mean - mean)).toBeLessThan(5 * Math.sqrt(variance / samples))
+    expect(Math.abs(sampleMoments.variance - variance)).toBeLessThan(
+      5 * Math.sqrt((sampleMoments.fourthCentralMoment - variance ** 2) / samples),
+    )
+  })
+
+  it.each<[string, DistributionSpec, string]>([
+    ['a discrete distribution without items', { type: 'discrete', items: [] }, 'at least one item'],
+    [
+      'discrete probabilities that do not sum to 1',
+      { type: 'discrete', items: [{ value: 1, probability: 0.5 }] },
+      'must sum to 1',
+    ],
+    [
+      'a negative discrete probability',
+      {
+        type: 'discrete',
+        items: [
+          { value: 1, probability: -0.5 },
+          { value: 2, probability: 1.5 },
+        ],
+      },
+      'non-negative',
+    ],
+    ['a single empirical value', { type: 'empirical', values: [3] }, 'at least two values'],
+    ['an infinite empirical value', { type: 'empirical', values: [3, Infinity] }, 'finite'],
+    ['a lognormal sigma of 0', { type: 'lognormal', mu: 1, sigma: 0 }, 'sigma must be positive'],
+    ['a negative gamma shape', { type: 'gamma', shape: -1, scale: 1 }, 'shape must be positive'],
+    ['a gamma scale of NaN', { type: 'gamma', shape: 1, scale: NaN }, 'scale must be positive'],
+    [
+      'truncated-normal bounds in the wrong order',
+      { type: 'truncated-normal', mean: 0, standardDeviation: 1, min: 2, max: 1 },
+      'min must be below max',
+    ],
+    [
+      'a truncated-normal interval without probability',
+      { type: 'truncated-normal', mean: 0, standardDeviation: 1, min: 50, max: 60 },
+      'no probability mass',
+    ],
+    ['an unknown type', { type: 'weibull' } as unknown as DistributionSpec, 'Unknown distribution type "weibull"'],
+  ])('rejects %s', (_, spec, message) => {
+    expect(() => createDistribution(spec)).toThrow(message)
+  })
+})
@@ -1,31 +1,543 @@
 /**
  * distributions.ts
- * Helper functions for working with probability distributions.
+ * Probability distributions for sampling simulation inputs: discrete (alias method), empirical, lognormal,
+ * gamma, truncated normal and Poisson. Each is described by a plain, serializable spec and validated on creation.
  */
 import type { SeededRandom } from './random'
-import type { DemandDistributionItem } from './config' // Assuming DemandDistributionItem is defined in config.ts
+import type { DistributionItem } from './config'
 
 /**
- * Selects a random value from a weighted distribution.
- * @param {DemandDistributionItem[]} distribution - The distribution array.
- * @param {SeededRandom} randomGenerator - The seeded random number generator instance.
- * @returns {number} The selected value (km) from the distribution.
- * @throws {Error} If the distribution is empty.
+ * How far the probabilities of a discrete distribution may sum from 1 before it is rejected.
+ * Sums within the tolerance are normalized.
+ */
+export const PROBABILITY_SUM_TOLERANCE = 0.001
+
+/** A finite set of values with their probabilities. */
+export interface DiscreteDistributionSpec {
+  type: 'discrete'
+  items: DistributionItem[]
+}
+
+/** Observed values; samples are interpolated linearly between neighbouring order statistics. */
+export interface EmpiricalDistributionSpec {
+  type: 'empirical'
+  values: number[]
+}
+
+/** The exponential of a normal distribution with mean `mu` and standard deviation `sigma`. */
+export interface LognormalDistributionSpec {
+  type: 'lognormal'
+  mu: number
+  sigma: number
+}
+
+export interface GammaDistributionSpec {
+  type: 'gamma'
+  shape: number
+  scale: number
+}
+
+/** A normal distribution restricted to [min, max]; omitted bounds are unbounded. */
+export interface TruncatedNormalDistributionSpec {
+  type: 'truncated-normal'
+  mean: number
+  standardDeviation: number
+  min?: number
+  max?: number
+}
+
+export interface PoissonDistributionSpec {
+  type: 'poisson'
+  mean: number
+}
+
+export type DistributionSpec =
+  | DiscreteDistributionSpec
+  | EmpiricalDistributionSpec
+  | LognormalDistributionSpec
+  | GammaDistributionSpec
+  | TruncatedNormalDistributionSpec
+  | PoissonDistributionSpec
+
+/**
+ * A validated distribution that can be sampled.
  */
-export function getWeightedRandomChoice(distribution: DemandDistributionItem[], randomGenerator: SeededRandom): number {
-  if (!distribution || distribution.length === 0) {
-    throw new Error('Distribution cannot be empty.')
+export interface Distribution {
+  readonly spec: DistributionSpec
+  sample(randomGenerator: SeededRandom): number
+  getMean(): number
+  getVariance(): number
+}
+
+/**
+ * Means above which the Poisson inversion does not start at 0, since exp(-mean) underflows to 0 above about 745.
+ */
+const POISSON_LOG_SPACE_MIN_MEAN = 500
+
+/**
+ * How many standard deviations below the mean the inversion starts for large means. The probability skipped below
+ * that is negligible.
+ */
+const POISSON_START_STANDARD_DEVIATIONS = 10
+
+/**
+ * Natural logarithm of n!, exact up to 10 and by Stirling's series above (absolute error below 1e-8).
+ * @param {number} n - A non-negative integer.
+ * @returns {number} ln(n!).
+ */
+function getLogFactorial(n: number): number {
+  if (n <= 10) {
+    let logFactorial = 0
+    for (let i = 2; i <= n; i++) {
+      logFactorial += Math.log(i)
+    }
+    return logFactorial
   }
+  return n * Math.log(n) - n + 0.5 * Math.log(2 * Math.PI * n) + 1 / (12 * n) - 1 / (360 * n ** 3)
+}
 
+/**
+ * Draws the number of events of a Poisson process with the given mean by inversion. It always uses exactly one
+ * random number, so a stream stays aligned between scenarios with different means (common random numbers). Above a
+ * mean of 500 the search starts ten standard deviations below the mean, with the probability computed in log space.
+ * @param {number} mean - Expected number of events (lambda), must be non-negative and finite.
+ * @param {SeededRandom} randomGenerator - The seeded random number generator instance.
+ * @returns {number} The sampled number of events.
+ * @throws {Error} If the mean is negative or not finite.
+ */
+export function getPoissonRandom(mean: number, randomGenerator: SeededRandom): number {
+  if (!(mean >= 0) || !Number.isFinite(mean)) {
+    throw new Error(`Poisson mean must be a non-negative number, got ${mean}.`)
+  }
   const rand = randomGenerator.next()
-  let cumulativeProbability = 0
+  let count =
+    mean > POISSON_LOG_SPACE_MIN_MEAN ? Math.floor(mean - POISSON_START_STANDARD_DEVIATIONS * Math.sqrt(mean)) : 0
+  let probability = count > 0 ? Math.exp(count * Math.log(mean) - mean - getLogFactorial(count)) : Math.exp(-mean)
+  let cumulativeProbability = probability
+  // Stops once the probabilities underflow, in case rounding keeps the sum just below rand
+  while (rand >= cumulativeProbability && probability > 0) {
+    count++
+    probability *= mean / count
+    cumulativeProbability += probability
+  }
+  return count
+}
+
+/**
+ * Complementary error function, with a relative error below 1.2e-7 everywhere (Numerical Recipes' erfcc).
+ * @param {number} x - The argument.
+ * @returns {number} erfc(x).
+ */
+function getComplementaryErrorFunction(x: number): number {
+  const coefficients = [
+    -1.26551223, 1.00002368, 0.37409196, 0.09678418, -0.18628806, 0.27886807, -1.13520398, 1.48851587, -0.82215223,
+    0.17087277,
+  ]
+  const z = Math.abs(x)
+  const t = 1 / (1 + 0.5 * z)
+  let polynomial = 0
+  for (let i = coefficients.length - 1; i >= 0; i--) {
+    polynomial = polynomial * t + coefficients[i]
+  }
+  const result = t * Math.exp(-z * z + polynomial)
+  return x >= 0 ? result : 2 - result
+}
+
+/**
+ * Cumulative distribution function of the standard normal distribution.
+ * @param {number} x - The argument.
+ * @returns {number} P(Z <= x).
+ */
+export function getStandardNormalCdf(x: number): number {
+  return 0.5 * getComplementaryErrorFunction(-x / Math.SQRT2)
+}
+
+/**
+ * Density of the standard normal distribution.
+ * @param {number} x - The argument.
+ * @returns {number} The density at x (0 at ±Infinity).
+ */
+function getStandardNormalDensity(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI)
+}
+
+/**
+ * Quantile function of the standard normal distribution (Acklam's rational approximation, relative error
+ * below 1.2e-9).
+ * @param {number} p - The probability, 0 to 1.
+ * @returns {number} The value z with P(Z <= z) = p; ±Infinity at 0 and 1.
+ */
+export function getStandardNormalQuantile(p: number): number {
+  if (p <= 0) {
+    return -Infinity
+  }
+  if (p >= 1) {
+    return Infinity
+  }
+  const a = [
+    -39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239,
+  ]
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572]
+  const c = [
+    -0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968,
+    2.938163982698783,
+  ]
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416]
+  const lowTail = 0.02425
+
+  if (p < lowTail || p > 1 - lowTail) {
+    const q = Math.sqrt(-2 * Math.log(p < lowTail ? p : 1 - p))
+    const z =
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+    return p < lowTail ? z : -z
+  }
+  const q = p - 0.5
+  const r = q * q
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  )
+}
+
+/**
+ * Discrete distribution sampled with Vose's alias method: one random number and constant time per draw.
+ */
+export class DiscreteDistribution implements Distribution {
+  public readonly spec: DiscreteDistributionSpec
+  private values: number[]
+  private probabilities: number[]
+  /** Probability of keeping the drawn column instead of taking its alias. */
+  private keepProbabilities: number[]
+  private aliases: number[]
 
-  for (const item of distribution) {
-    cumulativeProbability += item.probability
-    if (rand < cumulativeProbability) {
-      return item.value
+  /**
+   * @param {DiscreteDistributionSpec} spec - The values and their probabilities.
+   * @throws {Error} If there are no items, a value or probability is invalid, or the probabilities do not sum to 1
+   * within `PROBABILITY_SUM_TOLERANCE`.
+   */
+  constructor(spec: DiscreteDistributionSpec) {
+    const { items } = spec
+    if (items.length === 0) {
+      throw new Error('A discrete distribution needs at least one item.')
+    }
+    for (const item of items) {
+      if (!Number.isFinite(item.value)) {
+        throw new Error(`Discrete distribution values must be finite numbers, got ${item.value}.`)
+      }
+      if (!(item.probability >= 0) || !Number.isFinite(item.probability)) {
+        throw new Error(`Discrete distribution probabilities must be non-negative, got ${item.probability}.`)
+      }
+    }
+    const totalProbability = items.reduce((sum, item) => sum + item.probability, 0)
+    if (Math.abs(totalProbability - 1) > PROBABILITY_SUM_TOLERANCE) {
+      throw new Error(`Discrete distribution probabilities must sum to 1, got ${totalProbability}.`)
+    }
+
+    this.spec = spec
+    this.values = items.map((item) => item.value)
+    this.probabilities = items.map((item) => item.probability / totalProbability)
+
+    const count = items.length
+    const scaled = this.probabilities.map((probability) => probability * count)
+    this.keepProbabilities = Array(count).fill(1)
+    this.aliases = items.map((_, i) => i)
+    const small: number[] = []
+    const large: number[] = []
+    scaled.forEach((value, i) => (value < 1 ? small : large).push(i))
+    while (small.length > 0 && large.length > 0) {
+      const smallIndex = small.pop() as number
+      const largeIndex = large.pop() as number
+      this.keepProbabilities[smallIndex] = scaled[smallIndex]
+      this.aliases[smallIndex] = largeIndex
+      scaled[largeIndex] += scaled[smallIndex] - 1
+      ;(scaled[largeIndex] < 1 ? small : large).push(largeIndex)
+    }
+  }
+
+  public sample(randomGenerator: SeededRandom): number {
+    const position = randomGenerator.next() * this.values.length
+    const index = Math.floor(position)
+    return position - index < this.keepProbabilities[index] ? this.values[index] : this.values[this.aliases[index]]
+  }
+
+  public getMean(): number {
+    return this.values.reduce((sum, value, i) => sum + value * this.probabilities[i], 0)
+  }
+
+  public getVariance(): number {
+    const mean = this.getMean()
+    return this.values.reduce((sum, value, i) => sum + (value - mean) ** 2 * this.probabilities[i], 0)
+  }
+}
+
+/**
+ * Continuous empirical distribution: the sorted observations split the probability into equal parts, and samples
+ * are interpolated linearly within each part.
+ */
+export class EmpiricalDistribution implements Distribution {
+  public readonly spec: EmpiricalDistributionSpec
+  private sortedValues: number[]
+
+  /**
+   * @param {EmpiricalDistributionSpec} spec - The observed values.
+   * @throws {Error} If there are fewer than two values or a value is not finite.
+   */
+  constructor(spec: EmpiricalDistributionSpec) {
+    if (spec.values.length < 2) {
+      throw new Error(`An empirical distribution needs at least two values, got ${spec.values.length}.`)
+    }
+    for (const value of spec.values) {
+      if (!Number.isFinite(value)) {
+        throw new Error(`Empirical distribution values must be finite numbers, got ${value}.`)
+      }
     }
+    this.spec = spec
+    this.sortedValues = [...spec.values].sort((a, b) => a - b)
+  }
+
+  public sample(randomGenerator: SeededRandom): number {
+    const position = randomGenerator.next() * (this.sortedValues.length - 1)
+    const index = Math.floor(position)
+    const lower = this.sortedValues[index]
+    return lower + (position - index) * (this.sortedValues[index + 1] - lower)
+  }
+
+  public getMean(): number {
+    return this.sumOverSegments((lower, upper) => (lower + upper) / 2)
+  }
+
+  public getVariance(): number {
+    const secondMoment = this.sumOverSegments((lower, upper) => (lower * lower + lower * upper + upper * upper) / 3)
+    return secondMoment - this.getMean() ** 2
+  }
+
+  /**
+   * Averages a moment of the uniform distributions between neighbouring values, each weighted equally.
+   * @param {(lower: number, upper: number) => number} moment - The moment of a uniform distribution on [lower, upper].
+   * @returns {number} The moment of the whole distribution.
+   */
+  private sumOverSegments(moment: (lower: number, upper: number) => number): number {
+    let sum = 0
+    for (let i = 0; i < this.sortedValues.length - 1; i++) {
+      sum += moment(this.sortedValues[i], this.sortedValues[i + 1])
+    }
+    return sum / (this.sortedValues.length - 1)
+  }
+}
+
+/**
+ * Lognormal distribution, sampled by inversion with one random number per draw.
+ */
+export class LognormalDistribution implements Distribution {
+  public readonly spec: LognormalDistributionSpec
+
+  /**
+   * @param {LognormalDistributionSpec} spec - Mean and standard deviation of the underlying normal distribution.
+   * @throws {Error} If `mu` is not finite or `sigma` is not positive.
+   */
+  constructor(spec: LognormalDistributionSpec) {
+    if (!Number.isFinite(spec.mu)) {
+      throw new Error(`Lognormal mu must be a finite number, got ${spec.mu}.`)
+    }
+    if (!(spec.sigma > 0) || !Number.isFinite(spec.sigma)) {
+      throw new Error(`Lognormal sigma must be positive, got ${spec.sigma}.`)
+    }
+    this.spec = spec
+  }
+
+  public sample(randomGenerator: SeededRandom): number {
+    return Math.exp(this.spec.mu + this.spec.sigma * getStandardNormalQuantile(randomGenerator.next()))
+  }
+
+  public getMean(): number {
+    return Math.exp(this.spec.mu + this.spec.sigma ** 2 / 2)
+  }
+
+  public getVariance(): number {
+    const sigmaSquared = this.spec.sigma ** 2
+    return (Math.exp(sigmaSquared) - 1) * Math.exp(2 * this.spec.mu + sigmaSquared)
+  }
+}
+
+/**
+ * Gamma distribution, sampled with the Marsaglia-Tsang method. Unlike the other distributions it may use
+ * several random numbers per draw.
+ */
+export class GammaDistribution implements Distribution {
+  public readonly spec: GammaDistributionSpec
+
+  /**
+   * @param {GammaDistributionSpec} spec - Shape and scale.
+   * @throws {Error} If the shape or scale is not positive.
+   */
+  constructor(spec: GammaDistributionSpec) {
+    if (!(spec.shape > 0) || !Number.isFinite(spec.shape)) {
+      throw new Error(`Gamma shape must be positive, got ${spec.shape}.`)
+    }
+    if (!(spec.scale > 0) || !Number.isFinite(spec.scale)) {
+      throw new Error(`Gamma scale must be positive, got ${spec.scale}.`)
+    }
+    this.spec = spec
+  }
+
+  public sample(randomGenerator: SeededRandom): number {
+    return this.sampleStandard(this.spec.shape, randomGenerator) * this.spec.scale
+  }
+
+  /**
+   * Samples a gamma distribution with scale 1.
+   * @param {number} shape - The shape, positive.
+   * @param {SeededRandom} randomGenerator - The seeded random number generator instance.
+   * @returns {number} The sample.
+   */
+  private sampleStandard(shape: number, randomGenerator: SeededRandom): number {
+    if (shape < 1) {
+      // Boost to shape + 1 and scale back down
+      return this.sampleStandard(shape + 1, randomGenerator) * randomGenerator.next() ** (1 / shape)
+    }
+    const d = shape - 1 / 3
+    const c = 1 / Math.sqrt(9 * d)
+    while (true) {
+      const x = getStandardNormalQuantile(randomGenerator.next())
+      const v = (1 + c * x) ** 3
+      if (!(v > 0)) {
+        continue
+      }
+      const u = randomGenerator.next()
+      if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+        return d * v
+      }
+    }
+  }
+
+  public getMean(): number {
+    return this.spec.shape * this.spec.scale
+  }
+
+  public getVariance(): number {
+    return this.spec.shape * this.spec.scale ** 2
+  }
+}
+
+/**
+ * Normal distribution truncated to [min, max], sampled by inversion with one random number per draw.
+ */
+export class TruncatedNormalDistribution implements Distribution {
+  public readonly spec: TruncatedNormalDistributionSpec
+  private min: number
+  private max: number
+  private lowerCdf: number
+  private upperCdf: number
+
+  /**
+   * @param {TruncatedNormalDistributionSpec} spec - Mean and standard deviation before truncation, and the bounds.
+   * @throws {Error} If the mean is not finite, the standard deviation is not positive, the bounds are not ordered,
+   * or the interval has (numerically) no probability.
+   */
+  constructor(spec: TruncatedNormalDistributionSpec) {
+    if (!Number.isFinite(spec.mean)) {
+      throw new Error(`Truncated normal mean must be a finite number, got ${spec.mean}.`)
+    }
+    if (!(spec.standardDeviation > 0) || !Number.isFinite(spec.standardDeviation)) {
+      throw new Error(`Truncated normal standard deviation must be positive, got ${spec.standardDeviation}.`)
+    }
+    this.spec = spec
+    this.min = spec.min ?? -Infinity
+    this.max = spec.max ?? Infinity
+    if (!(this.min < this.max)) {
+      throw new Error(`Truncated normal min must be below max, got [${this.min}, ${this.max}].`)
+    }
+    this.lowerCdf = getStandardNormalCdf(this.standardize(this.min))
+    this.upperCdf = getStandardNormalCdf(this.standardize(this.max))
+    if (!(this.upperCdf > this.lowerCdf)) {
+      throw new Error(`Truncated normal interval [${this.min}, ${this.max}] has no probability mass.`)
+    }
+  }
+
+  private standardize(value: number): number {
+    return (value - this.spec.mean) / this.spec.standardDeviation
+  }
+
+  public sample(randomGenerator: SeededRandom): number {
+    const p = this.lowerCdf + randomGenerator.next() * (this.upperCdf - this.lowerCdf)
+    const value = this.spec.mean + this.spec.standardDeviation * getStandardNormalQuantile(p)
+    return Math.min(this.max, Math.max(this.min, value))
+  }
+
+  public getMean(): number {
+    const alpha = this.standardize(this.min)
+    const beta = this.standardize(this.max)
+    const mass = this.upperCdf - this.lowerCdf
+    return (
+      this.spec.mean +
+      (this.spec.standardDeviation * (getStandardNormalDensity(alpha) - getStandardNormalDensity(beta))) / mass
+    )
+  }
+
+  public getVariance(): number {
+    const alpha = this.standardize(this.min)
+    const beta = this.standardize(this.max)
+    const mass = this.upperCdf - this.lowerCdf
+    // x * density(x) tends to 0 at infinite bounds
+    const alphaTerm = Number.isFinite(alpha) ? alpha * getStandardNormalDensity(alpha) : 0
+    const betaTerm = Number.isFinite(beta) ? beta * getStandardNormalDensity(beta) : 0
+    const densityTerm = (getStandardNormalDensity(alpha) - getStandardNormalDensity(beta)) / mass
+    return this.spec.standardDeviation ** 2 * (1 + (alphaTerm - betaTerm) / mass - densityTerm ** 2)
+  }
+}
+
+/**
+ * Poisson distribution, sampled by inversion with one random number per draw, see `getPoissonRandom`.
+ */
+export class PoissonDistribution implements Distribution {
+  public readonly spec: PoissonDistributionSpec
+
+  /**
+   * @param {PoissonDistributionSpec} spec - The mean.
+   * @throws {Error} If the mean is negative or not finite.
+   */
+  constructor(spec: PoissonDistributionSpec) {
+    if (!(spec.mean >= 0) || !Number.isFinite(spec.mean)) {
+      throw new Error(`Poisson mean must be a non-negative number, got ${spec.mean}.`)
+    }
+    this.spec = spec
+  }
+
+  public sample(randomGenerator: SeededRandom): number {
+    return getPoissonRandom(this.spec.mean, randomGenerator)
+  }
+
+  public getMean(): number {
+    return this.spec.mean
+  }
+
+  public getVariance(): number {
+    return this.spec.mean
+  }
+}
+
+/**
+ * Creates and validates the distribution described by a spec.
+ * @param {DistributionSpec} spec - The distribution spec.
+ * @returns {Distribution} The distribution.
+ * @throws {Error} If the spec is malformed or its type is unknown.
+ */
+export function createDistribution(spec: DistributionSpec): Distribution {
+  switch (spec.type) {
+    case 'discrete':
+      return new DiscreteDistribution(spec)
+    case 'empirical':
+      return new EmpiricalDistribution(spec)
+    case 'lognormal':
+      return new LognormalDistribution(spec)
+    case 'gamma':
+      return new GammaDistribution(spec)
+    case 'truncated-normal':
+      return new TruncatedNormalDistribution(spec)
+    case 'poisson':
+      return new PoissonDistribution(spec)
+    default:
+      throw new Error(`Unknown distribution type "${(spec as { type: unknown }).type}".`)
   }
-  // Fallback: due to potential floating point inaccuracies or if probabilities don't sum to 1.
-  return distribution[distribution.length - 1].value
 }
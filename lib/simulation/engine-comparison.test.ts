@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest'
+import { EQUIVALENCE_T_THRESHOLD, compareEngines } from './engine-comparison'
+
+describe('compareEngines', () => {
+  it('finds the event engine equivalent to the tick engine', () => {
+    const comparison = compareEngines(20, { runs: 5, baseSeed: 1, verbose: false, maxTicks: 96 * 30 })
+
+    for (const result of Object.values(comparison.metrics)) {
+      expect(Math.abs(result.tStatistic)).toBeLessThanOrEqual(EQUIVALENCE_T_THRESHOLD)
+    }
+    expect(comparison.equivalent).toBe(true)
+  })
+})
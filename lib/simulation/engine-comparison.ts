@@ -0,0 +1,131 @@
+/**
+ * engine-comparison.ts
+ * Checks that the event engine reproduces the tick engine, and measures how much faster it is.
+ */
+import { EVChargingSimulation, type SimulationEngine, type SimulationOptions } from './index'
+import { runMonteCarlo, type MetricSummary, type MonteCarloMetric, type MonteCarloOptions } from './monte-carlo'
+
+/**
+ * Largest |t| of Welch's test for which the means of both engines count as equal.
+ */
+export const EQUIVALENCE_T_THRESHOLD = 3
+
+/**
+ * Chargepoint counts benchmarked by default.
+ */
+export const BENCHMARK_CHARGEPOINT_COUNTS: number[] = [20, 200, 2000]
+
+export interface EngineMetricComparison {
+  tick: MetricSummary
+  event: MetricSummary
+  /** Largest difference between the engines for the same seed, relative to the tick engine's value. */
+  maxRelativeDifference: number
+  /** Welch's t statistic of the difference in means (0 if both engines agree exactly). */
+  tStatistic: number
+  equivalent: boolean
+}
+
+export interface EngineComparisonResult {
+  runs: number
+  seeds: number[]
+  metrics: Record<MonteCarloMetric, EngineMetricComparison>
+  /** True if every metric is equivalent. */
+  equivalent: boolean
+}
+
+export interface EngineBenchmark {
+  numChargepoints: number
+  tickEngineMs: number
+  eventEngineMs: number
+  /** Run time of the tick engine divided by that of the event engine. */
+  speedup: number
+}
+
+/**
+ * Computes Welch's t statistic for the difference between the means of two samples.
+ * @param {MetricSummary} a - The first sample.
+ * @param {MetricSummary} b - The second sample.
+ * @returns {number} The t statistic; 0 if the means are equal, Infinity if they differ without any spread.
+ */
+function getWelchTStatistic(a: MetricSummary, b: MetricSummary): number {
+  const difference = a.mean - b.mean
+  if (difference === 0) {
+    return 0
+  }
+  const standardError = Math.sqrt(
+    a.standardDeviation ** 2 / a.values.length + b.standardDeviation ** 2 / b.values.length,
+  )
+  return standardError > 0 ? difference / standardError : Infinity
+}
+
+/**
+ * Runs both engines for the same seeds and compares the distribution of each key metric.
+ * @param {number} numChargepoints - Number of chargepoints, see `EVChargingSimulation`.
+ * @param {MonteCarloOptions} options - Number of runs, first seed and the options shared by all runs.
+ * @returns {EngineComparisonResult} Per-metric summaries of both engines, their differences and the verdict.
+ * @throws {Error} If the options are invalid for either engine, e.g. a grid connection limit.
+ */
+export function compareEngines(numChargepoints: number, options: MonteCarloOptions): EngineComparisonResult {
+  const tickResult = runMonteCarlo(numChargepoints, { ...options, engine: 'tick' })
+  const eventResult = runMonteCarlo(numChargepoints, { ...options, engine: 'event' })
+
+  const metrics = {} as Record<MonteCarloMetric, EngineMetricComparison>
+  for (const metric of Object.keys(tickResult.metrics) as MonteCarloMetric[]) {
+    const tick = tickResult.metrics[metric]
+    const event = eventResult.metrics[metric]
+    const maxRelativeDifference = tick.values.reduce((max, tickValue, i) => {
+      const difference = Math.abs(event.values[i] - tickValue)
+      return Math.max(max, tickValue !== 0 ? difference / Math.abs(tickValue) : difference)
+    }, 0)
+    const tStatistic = getWelchTStatistic(event, tick)
+    metrics[metric] = {
+      tick,
+      event,
+      maxRelativeDifference,
+      tStatistic,
+      equivalent: Math.abs(tStatistic) <= EQUIVALENCE_T_THRESHOLD,
+    }
+  }
+
+  return {
+    runs: tickResult.runs,
+    seeds: tickResult.seeds,
+    metrics,
+    equivalent: Object.values(metrics).every((comparison) => comparison.equivalent),
+  }
+}
+
+/**
+ * Measures the wall-clock time of one run with the given engine.
+ * @param {SimulationEngine} engine - The engine to time.
+ * @param {number} numChargepoints - Number of chargepoints.
+ * @param {SimulationOptions} options - The remaining options of the run.
+ * @returns {number} The time to construct and run the simulation, in milliseconds.
+ */
+function timeRun(engine: SimulationEngine, numChargepoints: number, options: SimulationOptions): number {
+  const start = performance.now()
+  new EVChargingSimulation(numChargepoints, { ...options, engine }).run()
+  return performance.now() - start
+}
+
+/**
+ * Times one run of each engine per station size.
+ * @param {number[]} [chargepointCounts] - The station sizes, defaults to 20, 200 and 2,000 chargepoints.
+ * @param {Omit<SimulationOptions, 'engine' | 'verbose'>} [options] - Seed, run length and config of every run.
+ * @returns {EngineBenchmark[]} One entry per station size.
+ */
+export function benchmarkEngines(
+  chargepointCounts: number[] = BENCHMARK_CHARGEPOINT_COUNTS,
+  options: Omit<SimulationOptions, 'engine' | 'verbose'> = {},
+): EngineBenchmark[] {
+  return chargepointCounts.map((numChargepoints) => {
+    const tickEngineMs = timeRun('tick', numChargepoints, { ...options, verbose: false })
+    const eventEngineMs = timeRun('event', numChargepoints, { ...options, verbose: false })
+    return {
+      numChargepoints,
+      tickEngineMs,
+      eventEngineMs,
+      speedup: eventEngineMs > 0 ? tickEngineMs / eventEngineMs : Infinity,
+    }
+  })
+}
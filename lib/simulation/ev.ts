@@ -2,16 +2,53 @@
  * ev.ts
  * Represents an Electric Vehicle (EV) in the simulation.
  */
+import type { ConnectorType } from './config'
+import { GENERIC_VEHICLE_MODEL, getAcceptancePowerKw, type VehicleModel } from './vehicles'
 
 export class ElectricVehicle {
   public id: number
   public energyNeededKwh: number
   public energyReceivedKwh: number
+  public arrivalTick: number
+  /** Tick in which the EV was plugged in, or null while it is not at a chargepoint. */
+  public plugInTick: number | null
+  /** Tick in which the EV is expected to leave its chargepoint, used to prioritise it under a grid limit. */
+  public expectedDepartureTick: number | null
+  /** How many ticks the EV stays plugged in, or null if it leaves as soon as it is fully charged. */
+  public dwellTicks: number | null
+  /** Ticks needed to fully charge at the chargepoint's full power, set when the EV is plugged in. */
+  public unconstrainedChargeTicks: number | null
+  /** Battery, power limits, charging curve and connectors of the vehicle. */
+  public model: VehicleModel
 
-  constructor(id: number, energyNeededKwh: number) {
+  /**
+   * @param {number} id - The EV id.
+   * @param {number} energyNeededKwh - Energy to charge, at most the battery capacity. The EV arrives with
+   * this much missing from a full battery.
+   * @param {number} [arrivalTick] - The tick the EV arrived in.
+   * @param {number | null} [dwellTicks] - How long the EV stays plugged in, or null to leave when full.
+   * @param {VehicleModel} [model] - The vehicle model.
+   */
+  constructor(
+    id: number,
+    energyNeededKwh: number,
+    arrivalTick: number = 0,
+    dwellTicks: number | null = null,
+    model: VehicleModel = GENERIC_VEHICLE_MODEL,
+  ) {
     this.id = id
     this.energyNeededKwh = energyNeededKwh
     this.energyReceivedKwh = 0
+    this.arrivalTick = arrivalTick
+    this.plugInTick = null
+    this.expectedDepartureTick = null
+    this.dwellTicks = dwellTicks
+    this.unconstrainedChargeTicks = null
+    this.model = model
+  }
+
+  public getRemainingEnergyKwh(): number {
+    return Math.max(0, this.energyNeededKwh - this.energyReceivedKwh)
   }
 
   public charge(energyKwh: number): number {
@@ -21,7 +58,39 @@ export class ElectricVehicle {
     return actualEnergyReceived
   }
 
-  public isFullyCharged(): boolean {
-    return this.energyReceivedKwh >= this.energyNeededKwh - 0.0001
+  public supportsConnector(connector: ConnectorType): boolean {
+    return this.model.connectors.includes(connector)
+  }
+
+  /**
+   * Returns the state of charge, assuming the EV is full once it has received the energy it needs.
+   * @param {number} [remainingEnergyKwh] - Energy still needed, defaults to the current value.
+   * @returns {number} The state of charge in percent.
+   */
+  public getStateOfChargePercent(remainingEnergyKwh: number = this.getRemainingEnergyKwh()): number {
+    const capacityKwh = this.model.batteryCapacityKwh
+    return Math.max(0, ((capacityKwh - remainingEnergyKwh) / capacityKwh) * 100)
+  }
+
+  /**
+   * Returns the highest power the EV accepts on a connector at its state of charge.
+   * @param {ConnectorType} connector - The connector of the chargepoint.
+   * @param {number} [remainingEnergyKwh] - Energy still needed, defaults to the current value.
+   * @returns {number} The acceptance in kW.
+   */
+  public getMaxAcceptancePowerKw(
+    connector: ConnectorType,
+    remainingEnergyKwh: number = this.getRemainingEnergyKwh(),
+  ): number {
+    return getAcceptancePowerKw(this.model, connector, this.getStateOfChargePercent(remainingEnergyKwh))
+  }
+
+  /**
+   * Checks whether the EV has received the energy it needs, within a small tolerance.
+   * @param {number} [energyReceivedKwh] - Energy received so far, defaults to the current value.
+   * @returns {boolean} True if the EV is full.
+   */
+  public isFullyCharged(energyReceivedKwh: number = this.energyReceivedKwh): boolean {
+    return energyReceivedKwh >= this.energyNeededKwh - 0.0001
   }
 }
@@ -0,0 +1,100 @@
+/**
+ * event-queue.ts
+ * Priority queue of scheduled simulation events, ordered by tick.
+ */
+
+interface ScheduledEvent<T> {
+  tick: number
+  /** Insertion counter, so events scheduled for the same tick come out in the order they were added. */
+  sequence: number
+  item: T
+}
+
+/**
+ * Binary min-heap of items keyed by the tick they are due in.
+ */
+export class EventQueue<T> {
+  private heap: ScheduledEvent<T>[] = []
+  private nextSequence = 0
+
+  public size(): number {
+    return this.heap.length
+  }
+
+  /**
+   * Schedules an item.
+   * @param {number} tick - The tick the item is due in.
+   * @param {T} item - The item.
+   */
+  public push(tick: number, item: T): void {
+    this.heap.push({ tick, sequence: this.nextSequence++, item })
+    let index = this.heap.length - 1
+    while (index > 0) {
+      const parentIndex = (index - 1) >> 1
+      if (!this.isBefore(this.heap[index], this.heap[parentIndex])) {
+        break
+      }
+      this.swap(index, parentIndex)
+      index = parentIndex
+    }
+  }
+
+  /**
+   * Returns the tick of the earliest item without removing it.
+   * @returns {number} The tick, or Infinity if the queue is empty.
+   */
+  public peekTick(): number {
+    return this.heap.length > 0 ? this.heap[0].tick : Infinity
+  }
+
+  /**
+   * Removes and returns the earliest item.
+   * @returns {T | undefined} The item, or undefined if the queue is empty.
+   */
+  public pop(): T | undefined {
+    if (this.heap.length === 0) {
+      return undefined
+    }
+    const first = this.heap[0]
+    const last = this.heap.pop() as ScheduledEvent<T>
+    if (this.heap.length > 0) {
+      this.heap[0] = last
+      let index = 0
+      while (true) {
+        const leftIndex = 2 * index + 1
+        const rightIndex = leftIndex + 1
+        let smallestIndex = index
+        if (leftIndex < this.heap.length && this.isBefore(this.heap[leftIndex], this.heap[smallestIndex])) {
+          smallestIndex = leftIndex
+        }
+        if (rightIndex < this.heap.length && this.isBefore(this.heap[rightIndex], this.heap[smallestIndex])) {
+          smallestIndex = rightIndex
+        }
+        if (smallestIndex === index) {
+          break
+        }
+        this.swap(index, smallestIndex)
+        index = smallestIndex
+      }
+    }
+    return first.item
+  }
+
+  /**
+   * Lists the scheduled items without removing them. Pushing them into an empty queue in this order restores it.
+   * @returns {{ tick: number; item: T }[]} The items with their ticks, in the order they come out.
+   */
+  public getEntries(): { tick: number; item: T }[] {
+    return [...this.heap].sort((a, b) => (this.isBefore(a, b) ? -1 : 1)).map(({ tick, item }) => ({ tick, item }))
+  }
+
+  private isBefore(a: ScheduledEvent<T>, b: ScheduledEvent<T>): boolean {
+    return a.tick < b.tick || (a.tick === b.tick && a.sequence < b.sequence)
+  }
+
+  private swap(i: number, j: number): void {
+    const temp = this.heap[i]
+    this.heap[i] = this.heap[j]
+    this.heap[j] = temp
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { DWELL_TIME_MINUTES_PRESETS } from './config'
+import { EVChargingSimulation, type SimulationEngine, type SimulationOptions } from './index'
+
+const MAX_TICKS = 96 * 7
+
+/**
+ * Options of a week-long run of the given engine.
+ * @param {SimulationEngine} engine - The engine to run.
+ * @returns {SimulationOptions} The options.
+ */
+function weekRun(engine: SimulationEngine): SimulationOptions {
+  return {
+    engine,
+    seed: 5,
+    verbose: false,
+    maxTicks: MAX_TICKS,
+    config: { dwellTimeMinutesDistribution: DWELL_TIME_MINUTES_PRESETS.supermarket },
+  }
+}
+
+describe.each<SimulationEngine>(['tick', 'event'])('stepping the %s engine', (engine) => {
+  it('gives the same results as a single run', () => {
+    const uninterrupted = new EVChargingSimulation(6, weekRun(engine))
+    uninterrupted.run()
+
+    const stepped = new EVChargingSimulation(6, {
+      ...weekRun(engine),
+      observers: [{ onTickEnd: ({ tick }) => tick === 300 && stepped.pause() }],
+    })
+    stepped.step()
+    stepped.step(36)
+    expect(stepped.getCurrentTick()).toBe(37)
+    stepped.runUntil(200)
+    expect(stepped.getCurrentTick()).toBe(200)
+    stepped.run()
+    expect(stepped.isPaused()).toBe(true)
+    expect(stepped.getCurrentTick()).toBe(301)
+    stepped.step(10)
+    expect(stepped.getCurrentTick()).toBe(301)
+    stepped.resume()
+    expect(stepped.isComplete()).toBe(true)
+
+    expect(stepped.stats.getState()).toEqual(uninterrupted.stats.getState())
+    expect(stepped.getSessions()).toEqual(uninterrupted.getSessions())
+  })
+
+  it('calls onTickEnd once per tick, in order', () => {
+    const ticks: number[] = []
+    const simulation = new EVChargingSimulation(6, {
+      ...weekRun(engine),
+      observers: [{ onTickEnd: ({ tick }) => ticks.push(tick) }],
+    })
+    simulation.step(10)
+    simulation.runUntil(10)
+    simulation.runUntil(500)
+    simulation.run()
+    simulation.run()
+
+    expect(ticks).toEqual(Array.from({ length: MAX_TICKS }, (_, tick) => tick))
+  })
+
+  it('throws the reason of an abort before the next tick', () => {
+    const controller = new AbortController()
+    const reason = new Error('Cancelled by the test')
+    const ticks: number[] = []
+    const simulation = new EVChargingSimulation(6, {
+      ...weekRun(engine),
+      signal: controller.signal,
+      observers: [
+        {
+          onTickEnd: ({ tick }) => {
+            ticks.push(tick)
+            if (tick === 41) {
+              controller.abort(reason)
+            }
+          },
+        },
+      ],
+    })
+
+    expect(() => simulation.run()).toThrow(reason)
+    expect(simulation.getCurrentTick()).toBe(42)
+    expect(() => simulation.step()).toThrow(reason)
+    expect(ticks.at(-1)).toBe(41)
+    expect(simulation.isComplete()).toBe(false)
+  })
+})
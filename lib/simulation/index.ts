@@ -3,176 +3,1022 @@
  * Main EV Charging Simulation class.
  */
 import {
-  TOTAL_TICKS_PER_YEAR,
-  TICKS_PER_HOUR,
-  HOURS_PER_DAY,
-  KWH_PER_100KM,
-  ARRIVAL_PROBABILITY_PER_HOUR_T1,
-  CHARGING_DEMAND_KM_DISTRIBUTION_T2,
   DEFAULT_SIMULATION_SEED,
   VERBOSE_LOGGING_CONFIG,
-  POWER_PER_CHARGEPOINT_KW, // Declared here for use in Task 1 validation
+  createSimulationConfig,
+  type ChargepointGroup,
+  type ConnectorType,
+  type SimulationConfig,
 } from './config'
-import { SeededRandom } from './random'
-import { getWeightedRandomChoice } from './distributions'
+import { SimulationCalendar } from './calendar'
+import { RandomStreams } from './random'
+import { createDistribution, getPoissonRandom, type Distribution, type DistributionSpec } from './distributions'
 import { ElectricVehicle } from './ev'
 import { ChargingStation } from './station'
 import { SimulationStatistics } from './statistics'
-import type { TickRef } from './chargepoint'
+import { SessionLog, type ChargingSession, type RejectionReason, type SessionFilter } from './session'
+import { EventQueue } from './event-queue'
+import type { Chargepoint, TickRef } from './chargepoint'
+import {
+  RECORDED_SESSION_VEHICLE_MODEL_ID,
+  getFleetMixDistributionSpec,
+  getRecordedSessionVehicleModel,
+  type VehicleModel,
+} from './vehicles'
+import { createConsoleObserver, notifyObservers, type SimulationObserver } from './observer'
+import type { Arrival, ArrivalSource } from './arrivals'
+import {
+  SIMULATION_SNAPSHOT_VERSION,
+  type ElectricVehicleSnapshot,
+  type EventEngineSnapshot,
+  type SimulationSnapshot,
+} from './snapshot'
+
+/**
+ * How a run advances:
+ * - 'tick' steps every chargepoint through every tick, and supports every config option.
+ * - 'event' books each charging session in full when the EV is plugged in and schedules its departure, so the
+ *   per-tick work no longer grows with the number of chargepoints. Arrivals use the same random stream as the tick
+ *   engine, so both give the same results for a seed. It does not support a grid connection limit, because then
+ *   the sessions' charging powers depend on each other.
+ */
+export type SimulationEngine = 'tick' | 'event'
 
 export interface SimulationOptions {
   seed?: number
+  /** Logs every event to the console, by adding `createConsoleObserver()` to the observers. */
   verbose?: boolean
+  /** Hooks called as the run progresses, see observer.ts. */
+  observers?: SimulationObserver[]
+  /** Cancels the run: `run`, `runUntil` and `step` throw its reason before the next tick. */
+  signal?: AbortSignal
+  /** Defaults to 'tick'. */
+  engine?: SimulationEngine
+  /** Number of ticks to simulate. Defaults to one calendar year from `config.startDate` (365 or 366 days). */
   maxTicks?: number
+  /** Per-run overrides of the simulation config. Anything omitted falls back to the defaults in config.ts. */
+  config?: Partial<SimulationConfig>
+  /**
+   * Provides the arrivals instead of sampling them from the arrival profile, e.g. a `TraceArrivalSource` replaying
+   * recorded sessions. The arrival profile, arrival multipliers and demand and dwell time distributions are then
+   * not used.
+   */
+  arrivalSource?: ArrivalSource
+}
+
+/**
+ * Static description of a single chargepoint of the simulated station.
+ */
+export interface ChargepointInfo {
+  id: number
+  groupId: string
+  connector: ConnectorType
+  powerKw: number
+}
+
+/**
+ * Bookkeeping of the event engine for sessions that are already plugged in.
+ */
+interface EventEngineState {
+  /** Energy booked for each tick of the run, in kWh. */
+  energyPerTickKwh: Float64Array
+  /** Energy booked for each tick of the run per chargepoint group, keyed by group id. */
+  groupEnergyPerTickKwh: Map<string, Float64Array>
+  /** Number of occupied chargepoints per group, keyed by group id. */
+  occupiedChargepointsByGroup: Map<string, number>
+  /** Occupied chargepoints, keyed by the last tick their EV stays plugged in. */
+  departures: EventQueue<Chargepoint>
+}
+
+/**
+ * Creates the distributions of a config map keyed by hour of arrival.
+ * @param {Partial<Record<number, DistributionSpec>> | null} specsByHour - The distribution specs by hour (0-23).
+ * @returns {Map<number, Distribution>} The distributions by hour; empty for null.
+ */
+function createDistributionsByHour(
+  specsByHour: Partial<Record<number, DistributionSpec>> | null,
+): Map<number, Distribution> {
+  const distributionsByHour = new Map<number, Distribution>()
+  for (const [hour, spec] of Object.entries(specsByHour ?? {})) {
+    if (spec) {
+      distributionsByHour.set(Number(hour), createDistribution(spec))
+    }
+  }
+  return distributionsByHour
+}
+
+/**
+ * Captures the state of an EV for a snapshot.
+ * @param {ElectricVehicle} ev - The EV.
+ * @returns {ElectricVehicleSnapshot} Its state.
+ */
+function getElectricVehicleSnapshot(ev: ElectricVehicle): ElectricVehicleSnapshot {
+  return {
+    id: ev.id,
+    vehicleModelId: ev.model.id,
+    energyNeededKwh: ev.energyNeededKwh,
+    energyReceivedKwh: ev.energyReceivedKwh,
+    arrivalTick: ev.arrivalTick,
+    plugInTick: ev.plugInTick,
+    expectedDepartureTick: ev.expectedDepartureTick,
+    dwellTicks: ev.dwellTicks,
+    unconstrainedChargeTicks: ev.unconstrainedChargeTicks,
+  }
+}
+
+/**
+ * Recreates an EV from a snapshot.
+ * @param {ElectricVehicleSnapshot} snapshot - The EV's state.
+ * @param {SimulationConfig} config - The config of the run, which holds the vehicle models.
+ * @returns {ElectricVehicle} The EV.
+ * @throws {Error} If the config has no vehicle model with the EV's model id.
+ */
+function restoreElectricVehicle(snapshot: ElectricVehicleSnapshot, config: SimulationConfig): ElectricVehicle {
+  const model =
+    snapshot.vehicleModelId === RECORDED_SESSION_VEHICLE_MODEL_ID && !config.vehicleModels[snapshot.vehicleModelId]
+      ? getRecordedSessionVehicleModel(snapshot.energyNeededKwh)
+      : config.vehicleModels[snapshot.vehicleModelId]
+  if (!model) {
+    throw new Error(`Unknown vehicle model "${snapshot.vehicleModelId}" of EV[${snapshot.id}] in the snapshot.`)
+  }
+  const ev = new ElectricVehicle(
+    snapshot.id,
+    snapshot.energyNeededKwh,
+    snapshot.arrivalTick,
+    snapshot.dwellTicks,
+    model,
+  )
+  ev.energyReceivedKwh = snapshot.energyReceivedKwh
+  ev.plugInTick = snapshot.plugInTick
+  ev.expectedDepartureTick = snapshot.expectedDepartureTick
+  ev.unconstrainedChargeTicks = snapshot.unconstrainedChargeTicks
+  return ev
+}
+
+/**
+ * Picks the event engine where it applies and the tick engine otherwise.
+ * @param {Partial<SimulationConfig>} [config] - The config overrides of the run.
+ * @returns {SimulationEngine} 'event' unless the config sets a grid connection limit.
+ */
+export function selectSimulationEngine(config: Partial<SimulationConfig> = {}): SimulationEngine {
+  return createSimulationConfig(config).gridConnectionLimitKw === null ? 'event' : 'tick'
 }
 
 export class EVChargingSimulation {
+  /** The chargepoint count passed to the constructor, kept for snapshots. */
+  private requestedChargepoints: number
   private numChargepoints: number
+  public readonly config: SimulationConfig
   private station: ChargingStation
-  private randomGenerator: SeededRandom
+  /** One random stream per stochastic process, see `RandomStreams`. */
+  private random: RandomStreams
   public stats: SimulationStatistics // Made public for easier access from page.tsx
-  private verbose: boolean
+  /** Maps ticks to local dates and times, see `SimulationConfig.startDate` and `timeZone`. */
+  public readonly calendar: SimulationCalendar
+  private observers: SimulationObserver[]
+  private signal: AbortSignal | undefined
+  /** Set when the arrivals come from a source instead of the arrival profile. */
+  private arrivalSource: ArrivalSource | null
   private maxTicksToSimulate: number
-  private currentTickRef: TickRef = { value: 0 }
+  /** The next tick to simulate; equal to `maxTicksToSimulate` once the run is complete. */
+  private nextTick = 0
+  /** Where the latest `runUntil` call stops, so `resume` can carry on to it. */
+  private targetTick = 0
+  private paused = false
+  /** Set while a tick is being simulated, when the state is not consistent enough for a snapshot. */
+  private simulatingTick = false
+  private patienceTicks: number
+  private ticksPerHour: number
+  private ticksPerDay: number
+  private currentTickRef: TickRef
   private nextEvId = 1
+  private sessionLog: SessionLog
+  /** Sessions of EVs that are waiting or charging, keyed by EV id. */
+  private openSessions: Map<number, ChargingSession> = new Map()
+  /** Set when the run uses the event engine. */
+  private eventEngine: EventEngineState | null = null
+  private demandKmDistribution: Distribution
+  /** Demand distributions by hour of arrival, overriding `demandKmDistribution`. */
+  private demandKmDistributionByHour: Map<number, Distribution>
+  private dwellTimeMinutesDistribution: Distribution | null
+  /** Dwell time distributions by hour of arrival, overriding `dwellTimeMinutesDistribution`. */
+  private dwellTimeMinutesDistributionByHour: Map<number, Distribution>
+  /** Distribution of the index of the arriving vehicle's model in the fleet mix. */
+  private fleetMixDistribution: Distribution
 
+  /**
+   * @param {number} numChargepoints - Number of identical chargepoints. Ignored if the config has a `stationLayout`.
+   * @param {SimulationOptions} [options] - Seed, observers, abort signal, engine, run length and config overrides.
+   * @throws {Error} If the config is invalid, or the event engine is combined with a grid connection limit.
+   */
   constructor(numChargepoints: number, options: SimulationOptions = {}) {
-    this.numChargepoints = numChargepoints
     const seed = options.seed === undefined ? DEFAULT_SIMULATION_SEED : options.seed
-    this.verbose = options.verbose === undefined ? VERBOSE_LOGGING_CONFIG.defaultEnabled : options.verbose
-    this.maxTicksToSimulate = options.maxTicks === undefined ? TOTAL_TICKS_PER_YEAR : options.maxTicks
+    this.requestedChargepoints = numChargepoints
+    const verbose = options.verbose === undefined ? VERBOSE_LOGGING_CONFIG.defaultEnabled : options.verbose
+    this.observers = [...(options.observers ?? []), ...(verbose ? [createConsoleObserver()] : [])]
+    this.config = createSimulationConfig(options.config)
+    this.calendar = new SimulationCalendar(
+      this.config.startDate,
+      this.config.tickMinutes,
+      this.config.timeZone,
+      this.config.holidays,
+    )
+    this.ticksPerHour = this.calendar.ticksPerHour
+    this.ticksPerDay = this.calendar.ticksPerDay
+    this.maxTicksToSimulate =
+      options.maxTicks === undefined ? this.calendar.getDaysInFirstYear() * this.ticksPerDay : options.maxTicks
+    this.currentTickRef = { value: 0, ticksPerHour: this.ticksPerHour }
+    this.patienceTicks = this.config.driverPatienceMinutes / this.config.tickMinutes
+    this.signal = options.signal
+    this.arrivalSource = options.arrivalSource ?? null
+    this.sessionLog = new SessionLog(this.calendar)
 
-    this.randomGenerator = new SeededRandom(seed)
-    this.station = new ChargingStation(this.numChargepoints, this.verbose, this.currentTickRef)
-    this.stats = new SimulationStatistics()
+    this.random = new RandomStreams(seed)
+    this.demandKmDistribution = createDistribution(this.config.chargingDemandKmDistribution)
+    this.demandKmDistributionByHour = createDistributionsByHour(this.config.chargingDemandKmDistributionByHour)
+    this.dwellTimeMinutesDistribution = this.config.dwellTimeMinutesDistribution
+      ? createDistribution(this.config.dwellTimeMinutesDistribution)
+      : null
+    this.dwellTimeMinutesDistributionByHour = createDistributionsByHour(this.config.dwellTimeMinutesDistributionByHour)
+    this.fleetMixDistribution = createDistribution(getFleetMixDistributionSpec(this.config.fleetMix))
+    this.station = new ChargingStation(numChargepoints, this.config, this.currentTickRef)
+    this.numChargepoints = this.station.getTotalChargepoints()
+    this.stats = new SimulationStatistics(this.calendar)
+    if (options.engine === 'event') {
+      if (this.config.gridConnectionLimitKw !== null) {
+        throw new Error('The event engine does not support a grid connection limit, use the tick engine.')
+      }
+      this.eventEngine = {
+        energyPerTickKwh: new Float64Array(this.maxTicksToSimulate),
+        groupEnergyPerTickKwh: new Map(
+          this.station.layout.map((group) => [group.id, new Float64Array(this.maxTicksToSimulate)]),
+        ),
+        occupiedChargepointsByGroup: new Map(this.station.layout.map((group) => [group.id, 0])),
+        departures: new EventQueue<Chargepoint>(),
+      }
+    }
+  }
+
+  /**
+   * Handles a single EV arriving at the station: samples its demand, unless it comes from the arrival source,
+   * then plugs it in, queues it or turns it away.
+   * @param {number} tick - The current tick.
+   * @param {number} hour - The local hour of day (0-23).
+   * @param {number} month - The calendar month (0 = January).
+   * @param {Arrival} [arrival] - The arrival from the arrival source; sampled if omitted.
+   * @throws {Error} If the arrival has a vehicle model the config does not have.
+   */
+  private handleArrival(tick: number, hour: number, month: number, arrival?: Arrival): void {
+    const model = !arrival
+      ? this.sampleVehicleModel()
+      : arrival.vehicleModelId
+        ? this.getVehicleModel(arrival.vehicleModelId)
+        : getRecordedSessionVehicleModel(arrival.energyNeededKwh)
+    // A driver cannot charge more than fits into the battery
+    const energyNeededKwh = Math.min(
+      arrival ? arrival.energyNeededKwh : this.sampleDemandKwh(hour, month),
+      model.batteryCapacityKwh,
+    )
+    const session = this.sessionLog.add({
+      id: this.nextEvId++,
+      arrivalTick: tick,
+      arrivalTime: this.calendar.getTimestamp(tick),
+      vehicleModelId: model.id,
+      chargepointId: null,
+      requestedKwh: energyNeededKwh,
+      deliveredKwh: 0,
+      startTick: null,
+      startTime: null,
+      endTick: null,
+      endTime: null,
+      outcome: 'no-demand',
+      rejectionReason: null,
+    })
+    this.stats.recordArrival(hour, energyNeededKwh)
+    notifyObservers(this.observers, 'onArrival', {
+      tick,
+      hour,
+      evId: session.id,
+      vehicleModelId: model.id,
+      requestedKwh: energyNeededKwh,
+    })
+    if (energyNeededKwh <= 0) {
+      return
+    }
 
-    if (this.verbose) {
-      console.log(
-        `🔋 Initializing Simulation: ${this.numChargepoints} CPs, Seed: ${seed}, Verbose: ${this.verbose}, Ticks: ${this.maxTicksToSimulate}`,
+    const dwellTicks = arrival ? arrival.dwellTicks : this.sampleDwellTicks(hour)
+    const newEV = new ElectricVehicle(session.id, energyNeededKwh, tick, dwellTicks, model)
+    this.openSessions.set(newEV.id, session)
+    if (!this.station.hasCompatibleChargepoint(newEV)) {
+      this.rejectSession(newEV, 'incompatible', tick)
+      return
+    }
+    // Queued EVs were offered every free chargepoint at the start of the tick, so a free compatible
+    // chargepoint left now is one none of them can use.
+    const chargepoint = this.station.findAvailableChargepoint(newEV)
+    if (chargepoint && chargepoint.assignEV(newEV)) {
+      this.startSession(newEV, chargepoint, tick)
+    } else if (this.station.enqueue(newEV)) {
+      session.outcome = 'waiting'
+      notifyObservers(this.observers, 'onQueue', {
+        tick,
+        evId: newEV.id,
+        queueLength: this.station.getQueueLength(),
+      })
+    } else {
+      this.rejectSession(newEV, 'balked', tick)
+    }
+  }
+
+  /**
+   * Samples the energy an arriving EV wants to charge, using the demand distribution for its arrival hour if there
+   * is one.
+   * @param {number} hour - The hour of arrival (0-23).
+   * @param {number} month - The calendar month (0 = January), for the monthly consumption multipliers.
+   * @returns {number} The energy in kWh, before capping it at the battery capacity.
+   */
+  private sampleDemandKwh(hour: number, month: number): number {
+    const demandDistribution = this.demandKmDistributionByHour.get(hour) ?? this.demandKmDistribution
+    // Continuous distributions may produce negative values, which mean no demand
+    const demandKm = Math.max(0, demandDistribution.sample(this.random.get('demand')))
+    const kwhPer100Km = this.config.kwhPer100Km * (this.config.monthlyKwhPer100KmMultipliers?.[month] ?? 1)
+    return (demandKm / 100) * kwhPer100Km
+  }
+
+  /**
+   * Samples how long an arriving EV stays plugged in, using the distribution for its arrival hour if there is one.
+   * @param {number} hour - The hour of arrival (0-23).
+   * @returns {number | null} The dwell time in ticks (at least one), or null if EVs leave when full.
+   */
+  private sampleDwellTicks(hour: number): number | null {
+    const distribution = this.dwellTimeMinutesDistributionByHour.get(hour) ?? this.dwellTimeMinutesDistribution
+    if (!distribution) {
+      return null
+    }
+    const dwellMinutes = distribution.sample(this.random.get('dwell'))
+    return Math.max(1, Math.round(dwellMinutes / this.config.tickMinutes))
+  }
+
+  /**
+   * Looks up a vehicle model of the config.
+   * @param {string} modelId - The model id.
+   * @returns {VehicleModel} The vehicle model.
+   * @throws {Error} If the config has no model with this id.
+   */
+  private getVehicleModel(modelId: string): VehicleModel {
+    const model = this.config.vehicleModels[modelId]
+    if (!model) {
+      throw new Error(
+        `Unknown vehicle model "${modelId}"; known models are ${Object.keys(this.config.vehicleModels).join(', ')}.`,
       )
     }
+    return model
+  }
+
+  /**
+   * Samples the vehicle model of an arriving EV from the fleet mix.
+   * @returns {VehicleModel} The vehicle model.
+   */
+  private sampleVehicleModel(): VehicleModel {
+    const index = this.fleetMixDistribution.sample(this.random.get('vehicle'))
+    return this.config.vehicleModels[this.config.fleetMix[index].modelId]
   }
 
-  private _logSim(message: string): void {
-    if (this.verbose) {
-      console.log(`[TICK ${this.currentTickRef.value}][SIM] ${message}`)
+  /**
+   * Marks the session of an EV that was just plugged in as charging.
+   * @param {ElectricVehicle} ev - The EV that was assigned.
+   * @param {Chargepoint} chargepoint - The chargepoint it was assigned to.
+   * @param {number} tick - The current tick.
+   */
+  private startSession(ev: ElectricVehicle, chargepoint: Chargepoint, tick: number): void {
+    const session = this.openSessions.get(ev.id)
+    if (!session) {
+      return
+    }
+    session.chargepointId = chargepoint.id
+    session.startTick = tick
+    session.startTime = this.calendar.getTimestamp(tick)
+    session.outcome = 'charged'
+    this.stats.recordChargingSession(tick, tick - ev.arrivalTick)
+    notifyObservers(this.observers, 'onAssign', {
+      tick,
+      evId: ev.id,
+      chargepointId: chargepoint.id,
+      requestedKwh: ev.energyNeededKwh,
+      waitTicks: tick - ev.arrivalTick,
+    })
+    if (this.eventEngine) {
+      this.bookChargingSession(this.eventEngine, ev, chargepoint, session, tick)
     }
   }
 
-  public run(): SimulationStatistics {
-    for (let tick = 0; tick < this.maxTicksToSimulate; tick++) {
-      this.currentTickRef.value = tick
-      const currentHour = Math.floor((tick % (HOURS_PER_DAY * TICKS_PER_HOUR)) / TICKS_PER_HOUR)
-      let totalEnergyDeliveredThisTick = 0
-      let currentPowerDemandThisTick = 0
-
-      if (tick > 0 && tick % (TICKS_PER_HOUR * HOURS_PER_DAY * 30) === 0 && !this.verbose) {
-        console.log(
-          `  Simulating... Tick ${tick}/${this.maxTicksToSimulate} (Day ${Math.floor(tick / (TICKS_PER_HOUR * HOURS_PER_DAY)) + 1}) for ${this.numChargepoints} CPs`,
-        )
+  /**
+   * Event engine: charges an EV that was just plugged in for its whole stay up to the end of the run, books the
+   * energy into the per-tick totals and schedules its departure.
+   * @param {EventEngineState} eventEngine - The event engine bookkeeping.
+   * @param {ElectricVehicle} ev - The EV that was assigned.
+   * @param {Chargepoint} chargepoint - The chargepoint it was assigned to.
+   * @param {ChargingSession} session - The EV's session record.
+   * @param {number} tick - The current tick.
+   */
+  private bookChargingSession(
+    eventEngine: EventEngineState,
+    ev: ElectricVehicle,
+    chargepoint: Chargepoint,
+    session: ChargingSession,
+    tick: number,
+  ): void {
+    const remainingTicks = this.maxTicksToSimulate - tick
+    const profile = chargepoint.getChargingProfile(ev, Math.min(ev.dwellTicks ?? Infinity, remainingTicks))
+    const chargingTicks = profile.energyPerTickKwh.length
+    // Same release rule as Chargepoint.processChargingTick: in the last tick of the parking time, or when full
+    const stayTicks = ev.dwellTicks ?? profile.ticksToFullCharge ?? Infinity
+    const occupiedTicks = Math.min(stayTicks, remainingTicks)
+    const groupEnergyPerTickKwh = eventEngine.groupEnergyPerTickKwh.get(chargepoint.groupId) as Float64Array
+
+    let deliveredKwh = 0
+    for (let i = 0; i < chargingTicks; i++) {
+      eventEngine.energyPerTickKwh[tick + i] += profile.energyPerTickKwh[i]
+      groupEnergyPerTickKwh[tick + i] += profile.energyPerTickKwh[i]
+      deliveredKwh += profile.energyPerTickKwh[i]
+    }
+    session.deliveredKwh += ev.charge(deliveredKwh)
+    this.stats.recordChargepointOccupancy(chargepoint.id, true, chargingTicks)
+    if (occupiedTicks > chargingTicks) {
+      this.stats.recordChargepointOccupancy(chargepoint.id, false, occupiedTicks - chargingTicks)
+    }
+    if (profile.ticksToFullCharge !== null && ev.unconstrainedChargeTicks !== null) {
+      this.stats.recordCompletedCharge(Math.max(0, profile.ticksToFullCharge - ev.unconstrainedChargeTicks))
+    }
+
+    eventEngine.occupiedChargepointsByGroup.set(
+      chargepoint.groupId,
+      (eventEngine.occupiedChargepointsByGroup.get(chargepoint.groupId) ?? 0) + 1,
+    )
+    if (stayTicks <= remainingTicks) {
+      eventEngine.departures.push(tick + stayTicks - 1, chargepoint)
+    }
+  }
+
+  /**
+   * Event engine: unplugs the EV of a chargepoint at the end of its stay.
+   * @param {EventEngineState} eventEngine - The event engine bookkeeping.
+   * @param {Chargepoint} chargepoint - The chargepoint the EV leaves.
+   * @param {number} tick - The last tick the EV was plugged in.
+   */
+  private handleDeparture(eventEngine: EventEngineState, chargepoint: Chargepoint, tick: number): void {
+    const ev = chargepoint.currentEV
+    chargepoint.releaseEV()
+    eventEngine.occupiedChargepointsByGroup.set(
+      chargepoint.groupId,
+      (eventEngine.occupiedChargepointsByGroup.get(chargepoint.groupId) ?? 1) - 1,
+    )
+    const session = ev ? this.openSessions.get(ev.id) : undefined
+    if (!ev || !session) {
+      return
+    }
+    session.endTick = tick
+    session.endTime = this.calendar.getTimestamp(tick)
+    this.openSessions.delete(ev.id)
+    if (!ev.isFullyCharged()) {
+      this.stats.recordDepartureBeforeFull(ev.getRemainingEnergyKwh())
+    }
+    this.notifyDeparture(ev, chargepoint, session)
+  }
+
+  /**
+   * Tells the observers that an EV was unplugged.
+   * @param {ElectricVehicle} ev - The EV that left.
+   * @param {Chargepoint} chargepoint - The chargepoint it left.
+   * @param {ChargingSession} session - The EV's session record, with its end tick set.
+   */
+  private notifyDeparture(ev: ElectricVehicle, chargepoint: Chargepoint, session: ChargingSession): void {
+    notifyObservers(this.observers, 'onDeparture', {
+      tick: session.endTick ?? this.currentTickRef.value,
+      evId: ev.id,
+      chargepointId: chargepoint.id,
+      deliveredKwh: session.deliveredKwh,
+      requestedKwh: ev.energyNeededKwh,
+      fullyCharged: ev.isFullyCharged(),
+    })
+  }
+
+  /**
+   * Records that an EV left without charging.
+   * @param {ElectricVehicle} ev - The EV that left.
+   * @param {RejectionReason} reason - Why it left.
+   * @param {number} tick - The current tick.
+   */
+  private rejectSession(ev: ElectricVehicle, reason: RejectionReason, tick: number): void {
+    const session = this.openSessions.get(ev.id)
+    if (session) {
+      session.outcome = 'rejected'
+      session.rejectionReason = reason
+      this.openSessions.delete(ev.id)
+    }
+    this.stats.recordRejectedArrival(reason, ev.energyNeededKwh)
+    notifyObservers(this.observers, 'onReject', { tick, evId: ev.id, reason, requestedKwh: ev.energyNeededKwh })
+  }
+
+  /**
+   * Charges the EV at the given chargepoint for one tick and keeps its session record up to date.
+   * @param {Chargepoint} chargepoint - An occupied chargepoint.
+   * @param {number} tick - The current tick.
+   * @returns {number} The energy delivered in kWh.
+   */
+  private processChargepointTick(chargepoint: Chargepoint, tick: number): number {
+    const ev = chargepoint.currentEV
+    const wasFullyCharged = ev?.isFullyCharged() ?? true
+    const energyDelivered = chargepoint.processChargingTick()
+    this.stats.recordChargepointOccupancy(chargepoint.id, energyDelivered > 0)
+    const session = ev ? this.openSessions.get(ev.id) : undefined
+    if (!ev || !session) {
+      return energyDelivered
+    }
+
+    session.deliveredKwh += energyDelivered
+    if (energyDelivered > 0 && this.observers.length > 0) {
+      notifyObservers(this.observers, 'onChargeTick', {
+        tick,
+        evId: ev.id,
+        chargepointId: chargepoint.id,
+        energyKwh: energyDelivered,
+        deliveredKwh: session.deliveredKwh,
+        requestedKwh: ev.energyNeededKwh,
+      })
+    }
+    if (!wasFullyCharged && ev.isFullyCharged() && ev.plugInTick !== null && ev.unconstrainedChargeTicks !== null) {
+      const chargingTicks = tick - ev.plugInTick + 1
+      this.stats.recordCompletedCharge(Math.max(0, chargingTicks - ev.unconstrainedChargeTicks))
+    }
+    if (chargepoint.isAvailable()) {
+      session.endTick = tick
+      session.endTime = this.calendar.getTimestamp(tick)
+      this.openSessions.delete(ev.id)
+      if (!ev.isFullyCharged()) {
+        this.stats.recordDepartureBeforeFull(ev.getRemainingEnergyKwh())
       }
-      this._logSim(`--- Starting Tick (Hour: ${currentHour}) ---`)
-
-      for (const chargepoint of this.station.chargepoints) {
-        if (chargepoint.isAvailable()) {
-          const hourlyArrivalProb = ARRIVAL_PROBABILITY_PER_HOUR_T1[currentHour]
-          const tickArrivalProb = hourlyArrivalProb / TICKS_PER_HOUR
-          if (this.randomGenerator.next() < tickArrivalProb) {
-            this._logSim(`✨ EV Arrival Event at CP ${chargepoint.id} (Prob: ${tickArrivalProb.toFixed(4)})`)
-            const demandKm = getWeightedRandomChoice(CHARGING_DEMAND_KM_DISTRIBUTION_T2, this.randomGenerator)
-            const energyNeededKwh = (demandKm / 100) * KWH_PER_100KM
-            if (energyNeededKwh > 0) {
-              const newEV = new ElectricVehicle(this.nextEvId++, energyNeededKwh)
-              if (chargepoint.assignEV(newEV)) {
-                const energyDelivered = chargepoint.processChargingTick()
-                totalEnergyDeliveredThisTick += energyDelivered
-              }
-            } else {
-              // Using chargepoint's logger for context
-              ;(chargepoint as any)._log(`ℹ️ EV arrived but rolled 0km demand, needs no charge.`)
-            }
-          }
+      this.notifyDeparture(ev, chargepoint, session)
+    }
+    return energyDelivered
+  }
+
+  /**
+   * Returns the charging sessions recorded so far, one per EV arrival.
+   * @param {SessionFilter} [filter] - Optional day, month and outcome constraints (zero-based).
+   * @returns {ChargingSession[]} The matching sessions, in order of arrival.
+   */
+  public getSessions(filter: SessionFilter = {}): ChargingSession[] {
+    return this.sessionLog.query(filter)
+  }
+
+  /**
+   * Picks the hourly arrival profile for a tick: the one for its kind of day if configured, else the default.
+   * @param {number} tick - The current tick.
+   * @returns {number[]} Arrival probabilities for each local hour (0-23).
+   */
+  private getArrivalProfile(tick: number): number[] {
+    const dayType = this.calendar.getDayType(tick)
+    return this.config.arrivalProbabilityPerHourByDayType?.[dayType] ?? this.config.arrivalProbabilityPerHour
+  }
+
+  /**
+   * Returns the chargepoint groups the station was built from.
+   * @returns {ChargepointGroup[]} The station layout.
+   */
+  public getStationLayout(): ChargepointGroup[] {
+    return this.station.layout
+  }
+
+  /**
+   * Returns the group, connector and power of every chargepoint, indexed by chargepoint id.
+   * @returns {ChargepointInfo[]} One entry per chargepoint.
+   */
+  public getChargepointInfo(): ChargepointInfo[] {
+    return this.station.chargepoints.map((cp) => ({
+      id: cp.id,
+      groupId: cp.groupId,
+      connector: cp.connector,
+      powerKw: cp.powerKw,
+    }))
+  }
+
+  /**
+   * Returns the number of EV arrivals so far, including those that did not charge.
+   * @returns {number} The number of arrivals.
+   */
+  public getArrivalCount(): number {
+    return this.sessionLog.size()
+  }
+
+  /**
+   * Returns the energy still owed to EVs that are waiting in the queue or charging.
+   * @returns {number} The outstanding energy in kWh.
+   */
+  private getOutstandingEnergyKwh(): number {
+    const chargingEVs = this.station.chargepoints.flatMap((cp) => (cp.currentEV ? [cp.currentEV] : []))
+    return [...chargingEVs, ...this.station.waitingQueue].reduce((sum, ev) => sum + ev.getRemainingEnergyKwh(), 0)
+  }
+
+  /**
+   * Tells the observers that a day starts, at the first tick of every simulated day.
+   * @param {number} tick - The current tick.
+   */
+  private notifyProgress(tick: number): void {
+    if (tick % this.ticksPerDay === 0 && this.observers.length > 0) {
+      notifyObservers(this.observers, 'onProgress', {
+        tick,
+        maxTicks: this.maxTicksToSimulate,
+        date: this.calendar.getDateOfDay(tick / this.ticksPerDay),
+      })
+    }
+  }
+
+  /**
+   * Records the totals of a completed tick and tells the observers.
+   * @param {number} tick - The current tick.
+   * @param {number} energyKwh - The energy delivered in the tick.
+   * @param {number} powerKw - The power demand at the end of the tick, see `SimulationStatistics.powerSeriesKw`.
+   */
+  private endTick(tick: number, energyKwh: number, powerKw: number): void {
+    const queueLength = this.station.getQueueLength()
+    this.stats.recordQueueLength(queueLength)
+    this.stats.recordTickData(tick, energyKwh, powerKw)
+    notifyObservers(this.observers, 'onTickEnd', { tick, energyKwh, powerKw, queueLength })
+  }
+
+  /**
+   * Draws the number of EVs arriving in a tick, or takes them from the arrival source, and handles each of them.
+   * @param {number} tick - The current tick.
+   * @param {number} hour - The local hour of day (0-23).
+   * @param {number} month - The calendar month (0 = January).
+   */
+  private handleArrivals(tick: number, hour: number, month: number): void {
+    if (this.arrivalSource) {
+      for (const arrival of this.arrivalSource.getArrivals(tick, this.calendar)) {
+        this.handleArrival(tick, hour, month, arrival)
+      }
+      return
+    }
+    // Station-level arrivals: a Poisson number of EVs per tick, independent of chargepoint availability.
+    // Splitting the hourly rate evenly over the ticks keeps the expected arrivals per hour the same at any resolution.
+    const hourlyArrivalRate =
+      this.getArrivalProfile(tick)[hour] *
+      this.config.arrivalMultiplier *
+      (this.config.monthlyArrivalMultipliers?.[month] ?? 1) *
+      this.numChargepoints
+    const arrivalsThisTick = getPoissonRandom(hourlyArrivalRate / this.ticksPerHour, this.random.get('arrivals'))
+    for (let i = 0; i < arrivalsThisTick; i++) {
+      this.handleArrival(tick, hour, month)
+    }
+  }
+
+  /**
+   * Returns the number of ticks simulated so far, which is also the next tick to simulate.
+   * @returns {number} The current tick, from 0 to `getMaxTicks()`.
+   */
+  public getCurrentTick(): number {
+    return this.nextTick
+  }
+
+  /**
+   * Returns the length of the run.
+   * @returns {number} The number of ticks to simulate.
+   */
+  public getMaxTicks(): number {
+    return this.maxTicksToSimulate
+  }
+
+  /**
+   * Checks whether the run is over.
+   * @returns {boolean} True once every tick has been simulated.
+   */
+  public isComplete(): boolean {
+    return this.nextTick >= this.maxTicksToSimulate
+  }
+
+  /**
+   * Checks whether the run is paused.
+   * @returns {boolean} True if `pause` was called and the run was not resumed since.
+   */
+  public isPaused(): boolean {
+    return this.paused
+  }
+
+  /**
+   * Stops a running `step`, `runUntil` or `run` after the current tick, e.g. from an observer. Later calls
+   * simulate nothing until `resume`.
+   */
+  public pause(): void {
+    this.paused = true
+  }
+
+  /**
+   * Clears a pause and carries on to the tick the paused call was heading for.
+   * @returns {SimulationStatistics} The statistics so far.
+   * @throws {Error} The abort reason if `SimulationOptions.signal` is aborted.
+   */
+  public resume(): SimulationStatistics {
+    this.paused = false
+    return this.runUntil(this.targetTick)
+  }
+
+  /**
+   * Simulates the next ticks.
+   * @param {number} [ticks] - How many ticks to simulate, defaults to one.
+   * @returns {SimulationStatistics} The statistics so far.
+   * @throws {Error} The abort reason if `SimulationOptions.signal` is aborted.
+   */
+  public step(ticks = 1): SimulationStatistics {
+    return this.runUntil(this.nextTick + ticks)
+  }
+
+  /**
+   * Simulates up to, but not including, the given tick, or until the run is paused. Does nothing while paused. The statistics cover the ticks
+   * simulated so far. With the event engine, the occupancy, completed charges and delivered energy of the EVs that
+   * are still plugged in already include the rest of their stay, which was booked when they were plugged in.
+   * @param {number} tick - The tick to stop at; values beyond the end of the run stop at the end.
+   * @returns {SimulationStatistics} The statistics so far.
+   * @throws {Error} The abort reason if `SimulationOptions.signal` is aborted. The simulation stays at the
+   * start of the tick it was about to simulate.
+   */
+  public runUntil(tick: number): SimulationStatistics {
+    if (!this.paused) {
+      this.targetTick = Math.min(tick, this.maxTicksToSimulate)
+    }
+    while (this.nextTick < this.targetTick && !this.paused) {
+      this.signal?.throwIfAborted()
+      this.simulatingTick = true
+      try {
+        if (this.eventEngine) {
+          this.simulateEventEngineTick(this.eventEngine, this.nextTick)
         } else {
-          const energyDelivered = chargepoint.processChargingTick()
-          totalEnergyDeliveredThisTick += energyDelivered
-        }
-        if (!chargepoint.isAvailable()) {
-          currentPowerDemandThisTick += chargepoint.powerKw
+          this.simulateTickEngineTick(this.nextTick)
         }
+      } finally {
+        this.simulatingTick = false
+      }
+      this.nextTick++
+      if (this.nextTick === this.maxTicksToSimulate) {
+        this.completeRun()
       }
-      this.stats.recordTickData(totalEnergyDeliveredThisTick, currentPowerDemandThisTick)
-      this._logSim(
-        `📊 Tick Summary: Energy Delivered: ${totalEnergyDeliveredThisTick.toFixed(2)} kWh, Current Power Demand: ${currentPowerDemandThisTick.toFixed(2)} kW`,
+    }
+    this.stats.outstandingEnergyKwh = this.getOutstandingEnergyKwh()
+    return this.stats
+  }
+
+  /**
+   * Simulates the rest of the run.
+   * @returns {SimulationStatistics} The statistics of the run, or of the ticks so far if it was paused.
+   * @throws {Error} The abort reason if `SimulationOptions.signal` is aborted.
+   */
+  public run(): SimulationStatistics {
+    return this.runUntil(this.maxTicksToSimulate)
+  }
+
+  /**
+   * Simulates the rest of the run in slices, yielding the statistics after each, so the caller can preview the
+   * results or hand control back to the event loop in between. Stops early if the run is paused.
+   * @param {number} [ticksPerSlice] - The ticks per slice, defaults to one day.
+   * @returns {Generator<SimulationStatistics>} The statistics after each slice.
+   * @throws {Error} The abort reason if `SimulationOptions.signal` is aborted.
+   */
+  public *slices(ticksPerSlice: number = this.ticksPerDay): Generator<SimulationStatistics> {
+    if (ticksPerSlice < 1) {
+      throw new Error(`ticksPerSlice must be at least 1, got ${ticksPerSlice}.`)
+    }
+    while (!this.isComplete() && !this.paused) {
+      yield this.step(ticksPerSlice)
+    }
+  }
+
+  /**
+   * Captures the complete state of the simulation between two ticks as versioned, JSON-serializable data: config,
+   * random streams, chargepoints, waiting and plugged-in EVs, sessions, statistics and event engine bookings.
+   * Observers, the abort signal and the arrival source are not part of it.
+   * @returns {SimulationSnapshot} The snapshot; it shares no objects with the simulation.
+   * @throws {Error} If called during a tick, e.g. from an observer (pause the run and take it afterwards), or if
+   * the config uses a custom load management strategy, which cannot be serialized.
+   */
+  public toSnapshot(): SimulationSnapshot {
+    if (this.simulatingTick) {
+      throw new Error('Cannot take a snapshot during a tick; pause the run and take it once the tick is over.')
+    }
+    if (typeof this.config.loadManagementStrategy !== 'string') {
+      throw new Error('Cannot take a snapshot of a run with a custom load management strategy object.')
+    }
+    const eventEngine: EventEngineSnapshot | null = this.eventEngine && {
+      energyPerTickKwh: Array.from(this.eventEngine.energyPerTickKwh),
+      groupEnergyPerTickKwh: Object.fromEntries(
+        [...this.eventEngine.groupEnergyPerTickKwh].map(([groupId, energyKwh]) => [groupId, Array.from(energyKwh)]),
+      ),
+      occupiedChargepointsByGroup: Object.fromEntries(this.eventEngine.occupiedChargepointsByGroup),
+      departures: this.eventEngine.departures.getEntries().map(({ tick, item }) => ({ tick, chargepointId: item.id })),
+    }
+    return {
+      version: SIMULATION_SNAPSHOT_VERSION,
+      config: structuredClone(this.config),
+      numChargepoints: this.requestedChargepoints,
+      seed: this.random.seed,
+      engine: this.eventEngine ? 'event' : 'tick',
+      maxTicks: this.maxTicksToSimulate,
+      nextTick: this.nextTick,
+      targetTick: this.targetTick,
+      paused: this.paused,
+      nextEvId: this.nextEvId,
+      replaysArrivals: this.arrivalSource !== null,
+      random: this.random.getState(),
+      chargepoints: this.station.chargepoints.map((chargepoint) => ({
+        id: chargepoint.id,
+        allocatedPowerKw: chargepoint.allocatedPowerKw,
+        ev: chargepoint.currentEV && getElectricVehicleSnapshot(chargepoint.currentEV),
+      })),
+      waitingQueue: this.station.waitingQueue.map(getElectricVehicleSnapshot),
+      sessions: this.sessionLog.query().map((session) => ({ ...session })),
+      openSessionIds: [...this.openSessions.keys()],
+      statistics: this.stats.getState(),
+      eventEngine,
+    }
+  }
+
+  /**
+   * Recreates a simulation from a snapshot, e.g. to resume a run in another process, or to fork it into several
+   * what-if runs by restoring the same snapshot with different observers or after changing its config.
+   * @param {SimulationSnapshot} snapshot - A snapshot from `toSnapshot`, possibly after a round trip through JSON.
+   * @param {Pick<SimulationOptions, 'verbose' | 'observers' | 'signal' | 'arrivalSource'>} [options] - Observers,
+   * abort signal and arrival source of the restored run. A run that replays arrivals needs its arrival source again.
+   * @returns {EVChargingSimulation} The simulation, continuing where the snapshot was taken.
+   * @throws {Error} If the snapshot has another version, does not match its own config, or replays arrivals and no
+   * arrival source is given.
+   */
+  public static fromSnapshot(
+    snapshot: SimulationSnapshot,
+    options: Pick<SimulationOptions, 'verbose' | 'observers' | 'signal' | 'arrivalSource'> = {},
+  ): EVChargingSimulation {
+    if (snapshot.version !== SIMULATION_SNAPSHOT_VERSION) {
+      throw new Error(
+        `Unsupported simulation snapshot version ${snapshot.version}, expected ${SIMULATION_SNAPSHOT_VERSION}.`,
       )
     }
-    if (this.verbose) {
-      console.log(`🏁 Simulation run complete for ${this.maxTicksToSimulate} ticks.`)
+    if (snapshot.replaysArrivals && !options.arrivalSource) {
+      throw new Error('The snapshot was taken from a run with an arrival source; pass it again to restore the run.')
     }
-    return this.stats
+    const simulation = new EVChargingSimulation(snapshot.numChargepoints, {
+      ...options,
+      seed: snapshot.seed,
+      engine: snapshot.engine,
+      maxTicks: snapshot.maxTicks,
+      config: snapshot.config,
+    })
+    simulation.restoreSnapshot(snapshot)
+    return simulation
   }
-}
 
-// --- Task 1 Validation Section ---
-// This section is for demonstrating and validating Task 1 requirements directly from this module.
-// Note: These logs will be executed whenever this module is imported and run on the server,
-// e.g., when app/page.tsx imports EVChargingSimulation.
-// This will cause an additional simulation run for 20 CPs for validation purposes.
+  /**
+   * Restores the state of a snapshot into a simulation freshly created from the snapshot's config.
+   * @param {SimulationSnapshot} snapshot - The snapshot.
+   * @throws {Error} If the snapshot does not match the station, or refers to unknown vehicle models or sessions.
+   */
+  private restoreSnapshot(snapshot: SimulationSnapshot): void {
+    if (snapshot.chargepoints.length !== this.station.chargepoints.length) {
+      throw new Error(
+        `The snapshot has ${snapshot.chargepoints.length} chargepoints, but its station layout has ${this.station.chargepoints.length}.`,
+      )
+    }
+    this.nextTick = snapshot.nextTick
+    this.targetTick = snapshot.targetTick
+    this.paused = snapshot.paused
+    this.currentTickRef.value = Math.max(0, snapshot.nextTick - 1)
+    this.nextEvId = snapshot.nextEvId
+    this.random.restoreState(snapshot.random)
+    this.stats.restoreState(snapshot.statistics)
 
-/**
- * Runs a simulation for Task 1 parameters and logs the results along with hint validation.
- */
-function runAndLogTask1Validation() {
-  console.log('\n--- Running lib/simulation/index.ts Task 1 Validation ---')
-
-  const numChargepointsTask1 = 20
-  const seedTask1 = DEFAULT_SIMULATION_SEED // Ensure this is imported or accessible
-
-  console.log(`[VALIDATION] Simulating Task 1: ${numChargepointsTask1} CPs, Seed: ${seedTask1}, Full Year.`)
-
-  // We run this validation with verbose: false to keep the console clean,
-  // focusing on the final summary statistics relevant to Task 1.
-  const simOptions: SimulationOptions = { seed: seedTask1, verbose: false }
-  const simulation = new EVChargingSimulation(numChargepointsTask1, simOptions)
-  const stats = simulation.run() // stats is of type SimulationStatistics
-
-  const theoreticalMaxPowerDemandKw = numChargepointsTask1 * POWER_PER_CHARGEPOINT_KW // Ensure POWER_PER_CHARGEPOINT_KW is imported or accessible
-  const concurrencyFactor =
-    theoreticalMaxPowerDemandKw > 0 ? (stats.actualMaxPowerDemandKw / theoreticalMaxPowerDemandKw) * 100 : 0
-
-  console.log(`[VALIDATION] Task 1 Results from lib/simulation/index.ts:`)
-  console.log(`  Total Energy Consumed: ${stats.totalEnergyConsumedKwh.toFixed(2)} kWh`)
-  console.log(`  Theoretical Max Power Demand: ${theoreticalMaxPowerDemandKw.toFixed(2)} kW`)
-  console.log(`  Actual Max Power Demand: ${stats.actualMaxPowerDemandKw.toFixed(2)} kW`)
-  console.log(`  Concurrency Factor: ${concurrencyFactor.toFixed(2)}%`)
-
-  // Hints from Task 1 description
-  const HINTS_TASK_1 = {
-    actualMaxPower: { min: 77, max: 121 }, // kW
-    concurrencyFactor: { min: 35, max: 55 }, // %
-  }
-
-  const isActualMaxPowerInHintRange =
-    stats.actualMaxPowerDemandKw >= HINTS_TASK_1.actualMaxPower.min &&
-    stats.actualMaxPowerDemandKw <= HINTS_TASK_1.actualMaxPower.max
-  const isConcurrencyInHintRange =
-    concurrencyFactor >= HINTS_TASK_1.concurrencyFactor.min && concurrencyFactor <= HINTS_TASK_1.concurrencyFactor.max
-
-  console.log(`[VALIDATION] Hint Checks for Task 1 (Note: Hints were based on the *original* T1/T2 dataset):`)
-  console.log(
-    `  Actual Max Power (${stats.actualMaxPowerDemandKw.toFixed(2)} kW) vs. original hint range [${
-      HINTS_TASK_1.actualMaxPower.min
-    }-${HINTS_TASK_1.actualMaxPower.max} kW]: ${isActualMaxPowerInHintRange ? 'Matches Original Hint' : 'Differs from Original Hint'}`,
-  )
-  console.log(
-    `  Concurrency Factor (${concurrencyFactor.toFixed(2)}%) vs. original hint range [${
-      HINTS_TASK_1.concurrencyFactor.min
-    }-${HINTS_TASK_1.concurrencyFactor.max}%]: ${isConcurrencyInHintRange ? 'Matches Original Hint' : 'Differs from Original Hint'}`,
-  )
-  console.log(
-    `[VALIDATION] The simulation is now using the NEW T1/T2 dataset. Results will differ from original expectations.`,
-  )
-  console.log('--- End of lib/simulation/index.ts Task 1 Validation ---\n')
-}
+    const sessions = snapshot.sessions.map((session) => ({ ...session }))
+    this.sessionLog.addAll(sessions)
+    const sessionsById = new Map(sessions.map((session) => [session.id, session]))
+    for (const id of snapshot.openSessionIds) {
+      const session = sessionsById.get(id)
+      if (!session) {
+        throw new Error(`The snapshot has no session ${id} for an EV that is waiting or charging.`)
+      }
+      this.openSessions.set(id, session)
+    }
+
+    for (const chargepointSnapshot of snapshot.chargepoints) {
+      const chargepoint = this.station.chargepoints[chargepointSnapshot.id]
+      chargepoint.currentEV = chargepointSnapshot.ev && restoreElectricVehicle(chargepointSnapshot.ev, this.config)
+      chargepoint.allocatedPowerKw = chargepointSnapshot.allocatedPowerKw
+    }
+    this.station.waitingQueue = snapshot.waitingQueue.map((ev) => restoreElectricVehicle(ev, this.config))
+
+    if (this.eventEngine && snapshot.eventEngine) {
+      this.eventEngine.energyPerTickKwh.set(snapshot.eventEngine.energyPerTickKwh)
+      for (const [groupId, energyKwh] of Object.entries(snapshot.eventEngine.groupEnergyPerTickKwh)) {
+        this.eventEngine.groupEnergyPerTickKwh.get(groupId)?.set(energyKwh)
+      }
+      for (const [groupId, occupied] of Object.entries(snapshot.eventEngine.occupiedChargepointsByGroup)) {
+        this.eventEngine.occupiedChargepointsByGroup.set(groupId, occupied)
+      }
+      for (const { tick, chargepointId } of snapshot.eventEngine.departures) {
+        this.eventEngine.departures.push(tick, this.station.chargepoints[chargepointId])
+      }
+    }
+  }
+
+  /**
+   * Wraps up the run after its last tick.
+   */
+  private completeRun(): void {
+    if (this.eventEngine) {
+      // Stays that end in the last tick are over; the remaining EVs are still plugged in
+      while (this.eventEngine.departures.peekTick() < this.maxTicksToSimulate) {
+        const departureTick = this.eventEngine.departures.peekTick()
+        this.handleDeparture(this.eventEngine, this.eventEngine.departures.pop() as Chargepoint, departureTick)
+      }
+    }
+    notifyObservers(this.observers, 'onProgress', {
+      tick: this.maxTicksToSimulate,
+      maxTicks: this.maxTicksToSimulate,
+      date: this.calendar.getDateOfDay(Math.floor(this.maxTicksToSimulate / this.ticksPerDay)),
+    })
+  }
+
+  /**
+   * Tick engine: simulates a single tick.
+   * @param {number} tick - The tick to simulate.
+   */
+  private simulateTickEngineTick(tick: number): void {
+    this.currentTickRef.value = tick
+    const currentHour = this.calendar.getHourOfDay(tick)
+    const currentMonth = this.calendar.getMonth(tick)
+    let totalEnergyDeliveredThisTick = 0
+    this.notifyProgress(tick)
+
+    // Waiting EVs take the chargepoints freed during the previous tick, then impatient drivers leave
+    for (const { ev, chargepoint } of this.station.dispatchQueue()) {
+      this.startSession(ev, chargepoint, tick)
+    }
+    for (const ev of this.station.removeImpatientEVs(tick - this.patienceTicks)) {
+      this.rejectSession(ev, 'reneged', tick)
+    }
+
+    this.handleArrivals(tick, currentHour, currentMonth)
+
+    // Share the grid connection between the charging EVs, then charge each of them for one tick
+    this.stats.recordCurtailment(this.station.allocatePower())
+    const groupEnergyKwh = new Map<string, number>()
+    const groupOccupied = new Map<string, number>()
+    for (const chargepoint of this.station.chargepoints) {
+      if (!chargepoint.isAvailable()) {
+        const energyKwh = this.processChargepointTick(chargepoint, tick)
+        totalEnergyDeliveredThisTick += energyKwh
+        groupEnergyKwh.set(chargepoint.groupId, (groupEnergyKwh.get(chargepoint.groupId) ?? 0) + energyKwh)
+        groupOccupied.set(chargepoint.groupId, (groupOccupied.get(chargepoint.groupId) ?? 0) + 1)
+      }
+    }
+    for (const group of this.station.layout) {
+      const energyKwh = groupEnergyKwh.get(group.id) ?? 0
+      this.stats.recordGroupTick(group.id, energyKwh, energyKwh * this.ticksPerHour, groupOccupied.get(group.id) ?? 0)
+    }
+    // The power drawn is what the chargepoints delivered within their allocation, so it never exceeds the grid limit
+    this.endTick(tick, totalEnergyDeliveredThisTick, totalEnergyDeliveredThisTick * this.ticksPerHour)
+  }
+
+  /**
+   * Event engine: simulates a single tick. It only handles departures, the queue and arrivals; the energy of every
+   * session was booked when its EV was plugged in.
+   * @param {EventEngineState} eventEngine - The event engine bookkeeping.
+   * @param {number} tick - The tick to simulate.
+   */
+  private simulateEventEngineTick(eventEngine: EventEngineState, tick: number): void {
+    this.currentTickRef.value = tick
+    this.notifyProgress(tick)
 
-// Automatically run the validation when the module is loaded server-side.
-runAndLogTask1Validation()
+    // EVs whose stay ended in the previous tick leave, and waiting EVs take their chargepoints
+    if (eventEngine.departures.peekTick() < tick) {
+      while (eventEngine.departures.peekTick() < tick) {
+        const departureTick = eventEngine.departures.peekTick()
+        this.handleDeparture(eventEngine, eventEngine.departures.pop() as Chargepoint, departureTick)
+      }
+      for (const { ev, chargepoint } of this.station.dispatchQueue()) {
+        this.startSession(ev, chargepoint, tick)
+      }
+    }
+    for (const ev of this.station.removeImpatientEVs(tick - this.patienceTicks)) {
+      this.rejectSession(ev, 'reneged', tick)
+    }
+    this.handleArrivals(tick, this.calendar.getHourOfDay(tick), this.calendar.getMonth(tick))
+
+    for (const group of this.station.layout) {
+      const energyKwh = (eventEngine.groupEnergyPerTickKwh.get(group.id) as Float64Array)[tick]
+      this.stats.recordGroupTick(
+        group.id,
+        energyKwh,
+        energyKwh * this.ticksPerHour,
+        eventEngine.occupiedChargepointsByGroup.get(group.id) ?? 0,
+      )
+    }
+    const energyKwh = eventEngine.energyPerTickKwh[tick]
+    this.endTick(tick, energyKwh, energyKwh * this.ticksPerHour)
+  }
+}
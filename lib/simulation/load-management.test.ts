@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { Chargepoint } from './chargepoint'
+import { DWELL_TIME_MINUTES_PRESETS, type SimulationConfig } from './config'
+import { ElectricVehicle } from './ev'
+import { EVChargingSimulation } from './index'
+import { LOAD_MANAGEMENT_STRATEGIES, type LoadManagementStrategyName } from './load-management'
+
+const STRATEGY_NAMES = Object.keys(LOAD_MANAGEMENT_STRATEGIES) as LoadManagementStrategyName[]
+const GRID_CONNECTION_LIMIT_KW = 11
+
+/**
+ * Plugs in three EVs: the first arrives first but stays longest, the last arrives last and leaves first.
+ * @returns {Chargepoint[]} The occupied 11 kW chargepoints.
+ */
+function createChargingChargepoints(): Chargepoint[] {
+  const tickRef = { value: 0, ticksPerHour: 4 }
+  return [12, 8, 4].map((dwellTicks, index) => {
+    tickRef.value = index
+    const chargepoint = new Chargepoint(index + 1, 11, tickRef)
+    chargepoint.assignEV(new ElectricVehicle(index + 1, 30, index, dwellTicks))
+    return chargepoint
+  })
+}
+
+/**
+ * Runs a busy station behind a small grid connection with the given strategy.
+ * @param {LoadManagementStrategyName} strategy - The load management strategy.
+ * @returns The statistics and the highest power reported to the observers.
+ */
+function runWithStrategy(strategy: LoadManagementStrategyName) {
+  const config: Partial<SimulationConfig> = {
+    gridConnectionLimitKw: GRID_CONNECTION_LIMIT_KW,
+    loadManagementStrategy: strategy,
+    dwellTimeMinutesDistribution: DWELL_TIME_MINUTES_PRESETS.supermarket,
+  }
+  let maxTickPowerKw = 0
+  const simulation = new EVChargingSimulation(20, {
+    seed: 1,
+    verbose: false,
+    maxTicks: 96 * 30,
+    config,
+    observers: [{ onTickEnd: ({ powerKw }) => (maxTickPowerKw = Math.max(maxTickPowerKw, powerKw)) }],
+  })
+  simulation.run()
+  return { stats: simulation.stats.getState(), maxTickPowerKw }
+}
+
+describe('load management strategies', () => {
+  it('share the limit by their own priorities', () => {
+    const allocations = STRATEGY_NAMES.map((name) => {
+      const chargepoints = createChargingChargepoints()
+      LOAD_MANAGEMENT_STRATEGIES[name].allocate(chargepoints, 15)
+      const allocatedKw = chargepoints.map((chargepoint) => chargepoint.allocatedPowerKw)
+      expect(allocatedKw.reduce((sum, powerKw) => sum + powerKw, 0)).toBeCloseTo(15, 9)
+      return allocatedKw
+    })
+
+    expect(allocations).toEqual([
+      [5, 5, 5],
+      [11, 4, 0],
+      [0, 4, 11],
+    ])
+  })
+
+  it('never let the station draw more than its grid connection', () => {
+    for (const strategy of STRATEGY_NAMES) {
+      const { stats, maxTickPowerKw } = runWithStrategy(strategy)
+      expect(maxTickPowerKw).toBeLessThanOrEqual(GRID_CONNECTION_LIMIT_KW + 1e-9)
+      expect(stats.actualMaxPowerDemandKw).toBe(maxTickPowerKw)
+      expect(stats.curtailedTicks).toBeGreaterThan(0)
+    }
+  })
+
+  it('curtail and delay charging differently', () => {
+    const results = STRATEGY_NAMES.map((strategy) => runWithStrategy(strategy).stats)
+
+    expect(new Set(results.map((stats) => stats.curtailedEnergyKwh)).size).toBe(STRATEGY_NAMES.length)
+    expect(new Set(results.map((stats) => stats.totalChargingDelayMinutes)).size).toBe(STRATEGY_NAMES.length)
+  })
+})
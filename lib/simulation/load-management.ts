@@ -0,0 +1,102 @@
+/**
+ * load-management.ts
+ * Strategies that share a station-wide grid connection limit between the charging chargepoints.
+ */
+import type { Chargepoint } from './chargepoint'
+
+export type LoadManagementStrategyName = 'equal-share' | 'fifo' | 'earliest-departure'
+
+/**
+ * A load management strategy sets `allocatedPowerKw` on every charging chargepoint once per tick.
+ * Allocations must never exceed a chargepoint's requested power, and their sum must not exceed the limit.
+ */
+export interface LoadManagementStrategy {
+  name: string
+  allocate(chargepoints: Chargepoint[], limitKw: number): void
+}
+
+/**
+ * Serves chargepoints one after another in the given order, each getting its full request
+ * until the limit is used up.
+ * @param {Chargepoint[]} orderedChargepoints - The charging chargepoints in priority order.
+ * @param {number} limitKw - The station-wide power limit.
+ */
+function allocateInPriorityOrder(orderedChargepoints: Chargepoint[], limitKw: number): void {
+  let remainingKw = limitKw
+  for (const chargepoint of orderedChargepoints) {
+    const allocatedKw = Math.min(chargepoint.getRequestedPowerKw(), remainingKw)
+    chargepoint.allocatedPowerKw = allocatedKw
+    remainingKw -= allocatedKw
+  }
+}
+
+/**
+ * Splits the limit equally between all charging chargepoints. Power a chargepoint does not need
+ * is redistributed to the others (water-filling).
+ */
+export const equalShareStrategy: LoadManagementStrategy = {
+  name: 'equal-share',
+  allocate(chargepoints: Chargepoint[], limitKw: number): void {
+    const byRequest = [...chargepoints].sort((a, b) => a.getRequestedPowerKw() - b.getRequestedPowerKw())
+    let remainingKw = limitKw
+    byRequest.forEach((chargepoint, index) => {
+      const fairShareKw = remainingKw / (byRequest.length - index)
+      const allocatedKw = Math.min(chargepoint.getRequestedPowerKw(), fairShareKw)
+      chargepoint.allocatedPowerKw = allocatedKw
+      remainingKw -= allocatedKw
+    })
+  },
+}
+
+/**
+ * Gives priority to the EVs that were plugged in first.
+ */
+export const fifoStrategy: LoadManagementStrategy = {
+  name: 'fifo',
+  allocate(chargepoints: Chargepoint[], limitKw: number): void {
+    const byPlugInTick = [...chargepoints].sort(
+      (a, b) => (a.currentEV?.plugInTick ?? 0) - (b.currentEV?.plugInTick ?? 0) || a.id - b.id,
+    )
+    allocateInPriorityOrder(byPlugInTick, limitKw)
+  },
+}
+
+/**
+ * Gives priority to the EVs that are expected to leave first.
+ */
+export const earliestDepartureStrategy: LoadManagementStrategy = {
+  name: 'earliest-departure',
+  allocate(chargepoints: Chargepoint[], limitKw: number): void {
+    const byDepartureTick = [...chargepoints].sort(
+      (a, b) =>
+        (a.currentEV?.expectedDepartureTick ?? Infinity) - (b.currentEV?.expectedDepartureTick ?? Infinity) ||
+        a.id - b.id,
+    )
+    allocateInPriorityOrder(byDepartureTick, limitKw)
+  },
+}
+
+export const LOAD_MANAGEMENT_STRATEGIES: Record<LoadManagementStrategyName, LoadManagementStrategy> = {
+  'equal-share': equalShareStrategy,
+  fifo: fifoStrategy,
+  'earliest-departure': earliestDepartureStrategy,
+}
+
+/**
+ * Resolves a strategy given either by name or as a custom implementation.
+ * @param {LoadManagementStrategyName | LoadManagementStrategy} strategy - The configured strategy.
+ * @returns {LoadManagementStrategy} The strategy implementation.
+ * @throws {Error} If the name is unknown.
+ */
+export function resolveLoadManagementStrategy(
+  strategy: LoadManagementStrategyName | LoadManagementStrategy,
+): LoadManagementStrategy {
+  if (typeof strategy !== 'string') {
+    return strategy
+  }
+  const resolved = LOAD_MANAGEMENT_STRATEGIES[strategy]
+  if (!resolved) {
+    throw new Error(`Unknown load management strategy "${strategy}".`)
+  }
+  return resolved
+}
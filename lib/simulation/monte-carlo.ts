@@ -0,0 +1,210 @@
+/**
+ * monte-carlo.ts
+ * Runs the simulation for many seeds and summarizes how much the key results vary between random draws.
+ */
+import { DEFAULT_SIMULATION_SEED } from './config'
+import { EVChargingSimulation, type SimulationOptions } from './index'
+
+/**
+ * Result metrics collected from every Monte Carlo run.
+ */
+export type MonteCarloMetric =
+  | 'actualMaxPowerDemandKw'
+  | 'concurrencyFactor'
+  | 'totalEnergyConsumedKwh'
+  | 'totalChargingSessions'
+
+/**
+ * Distribution of a metric over all runs.
+ */
+export interface MetricSummary {
+  mean: number
+  /** Sample standard deviation (0 for a single run). */
+  standardDeviation: number
+  min: number
+  p5: number
+  p50: number
+  p95: number
+  max: number
+  /** The value of every run, in seed order. */
+  values: number[]
+}
+
+export interface MonteCarloOptions extends Omit<SimulationOptions, 'seed'> {
+  /** Number of runs. */
+  runs: number
+  /** Seed of the first run; run `i` uses `baseSeed + i`. Defaults to `DEFAULT_SIMULATION_SEED`. */
+  baseSeed?: number
+}
+
+export interface MonteCarloResult {
+  runs: number
+  seeds: number[]
+  metrics: Record<MonteCarloMetric, MetricSummary>
+}
+
+/**
+ * Returns a percentile of sorted values, interpolating linearly between the closest ranks.
+ * @param {number[]} sortedValues - The values in ascending order, at least one.
+ * @param {number} percent - The percentile (0-100).
+ * @returns {number} The percentile value.
+ */
+export function getPercentile(sortedValues: number[], percent: number): number {
+  const rank = (percent / 100) * (sortedValues.length - 1)
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (rank - lower)
+}
+
+/**
+ * Summarizes the values of a metric.
+ * @param {number[]} values - One value per run, at least one.
+ * @returns {MetricSummary} Mean, standard deviation, percentiles and the values themselves.
+ * @throws {Error} If there are no values.
+ */
+export function summarizeMetric(values: number[]): MetricSummary {
+  if (values.length === 0) {
+    throw new Error('Cannot summarize a metric without values.')
+  }
+  const sortedValues = [...values].sort((a, b) => a - b)
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  const variance =
+    values.length > 1 ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1) : 0
+  return {
+    mean,
+    standardDeviation: Math.sqrt(variance),
+    min: sortedValues[0],
+    p5: getPercentile(sortedValues, 5),
+    p50: getPercentile(sortedValues, 50),
+    p95: getPercentile(sortedValues, 95),
+    max: sortedValues[sortedValues.length - 1],
+    values,
+  }
+}
+
+/**
+ * Reads the key metrics of a finished run.
+ * @param {EVChargingSimulation} simulation - A simulation whose `run` has returned.
+ * @returns {Record<MonteCarloMetric, number>} The value of every metric.
+ */
+export function getRunMetrics(simulation: EVChargingSimulation): Record<MonteCarloMetric, number> {
+  const stats = simulation.stats
+  const theoreticalMaxPowerDemandKw = simulation
+    .getStationLayout()
+    .reduce((sum, group) => sum + group.count * group.powerKw, 0)
+  return {
+    actualMaxPowerDemandKw: stats.actualMaxPowerDemandKw,
+    concurrencyFactor:
+      theoreticalMaxPowerDemandKw > 0 ? (stats.actualMaxPowerDemandKw / theoreticalMaxPowerDemandKw) * 100 : 0,
+    totalEnergyConsumedKwh: stats.totalEnergyConsumedKwh,
+    totalChargingSessions: stats.totalChargingSessions,
+  }
+}
+
+/**
+ * Runs the simulation once per seed with otherwise identical options, yielding after each run, so the caller can
+ * hand control back to the event loop or stop in between.
+ * @param {number} numChargepoints - Number of chargepoints, see `EVChargingSimulation`.
+ * @param {MonteCarloOptions} options - Number of runs, first seed and the options shared by all runs.
+ * @returns {Generator<number, MonteCarloResult>} The seed of each finished run, then the summarized result.
+ * @throws {Error} If the number of runs is not a positive integer, or the abort reason if `options.signal` is
+ * aborted.
+ */
+export function* iterateMonteCarlo(
+  numChargepoints: number,
+  options: MonteCarloOptions,
+): Generator<number, MonteCarloResult> {
+  const { runs, baseSeed = DEFAULT_SIMULATION_SEED, ...simulationOptions } = options
+  if (!Number.isInteger(runs) || runs < 1) {
+    throw new Error(`runs must be a positive integer, got ${runs}.`)
+  }
+
+  const seeds = Array.from({ length: runs }, (_, i) => baseSeed + i)
+  const samples: Record<MonteCarloMetric, number[]> = {
+    actualMaxPowerDemandKw: [],
+    concurrencyFactor: [],
+    totalEnergyConsumedKwh: [],
+    totalChargingSessions: [],
+  }
+  for (const seed of seeds) {
+    const simulation = new EVChargingSimulation(numChargepoints, { ...simulationOptions, seed })
+    simulation.run()
+    const metrics = getRunMetrics(simulation)
+    for (const metric of Object.keys(samples) as MonteCarloMetric[]) {
+      samples[metric].push(metrics[metric])
+    }
+    yield seed
+  }
+
+  return {
+    runs,
+    seeds,
+    metrics: {
+      actualMaxPowerDemandKw: summarizeMetric(samples.actualMaxPowerDemandKw),
+      concurrencyFactor: summarizeMetric(samples.concurrencyFactor),
+      totalEnergyConsumedKwh: summarizeMetric(samples.totalEnergyConsumedKwh),
+      totalChargingSessions: summarizeMetric(samples.totalChargingSessions),
+    },
+  }
+}
+
+/**
+ * Runs the simulation once per seed with otherwise identical options and summarizes the key metrics.
+ * @param {number} numChargepoints - Number of chargepoints, see `EVChargingSimulation`.
+ * @param {MonteCarloOptions} options - Number of runs, first seed and the options shared by all runs.
+ * @returns {MonteCarloResult} The seeds used and the distribution of each metric.
+ * @throws {Error} If the number of runs is not a positive integer.
+ */
+export function runMonteCarlo(numChargepoints: number, options: MonteCarloOptions): MonteCarloResult {
+  const monteCarloRuns = iterateMonteCarlo(numChargepoints, options)
+  let next = monteCarloRuns.next()
+  while (!next.done) {
+    next = monteCarloRuns.next()
+  }
+  return next.value
+}
+
+/**
+ * A station size and the options of its runs, one side of a scenario comparison.
+ */
+export interface Scenario {
+  numChargepoints: number
+  options?: Omit<MonteCarloOptions, 'runs' | 'baseSeed'>
+}
+
+export interface ScenarioComparisonResult {
+  baseline: MonteCarloResult
+  alternative: MonteCarloResult
+  /** Distribution of the per-seed difference, alternative minus baseline. */
+  differences: Record<MonteCarloMetric, MetricSummary>
+}
+
+/**
+ * Compares two scenarios with common random numbers: both are run for the same seeds, and since every process
+ * draws from its own stream, the runs of a seed differ only through the changed inputs. The per-seed differences
+ * therefore vary much less than the results of either scenario.
+ * @param {Scenario} baseline - The reference scenario.
+ * @param {Scenario} alternative - The scenario to compare with it.
+ * @param {number} runs - Number of seeds.
+ * @param {number} [baseSeed] - Seed of the first run, see `MonteCarloOptions.baseSeed`.
+ * @returns {ScenarioComparisonResult} Both Monte Carlo results and the distribution of their differences.
+ * @throws {Error} If the number of runs is not a positive integer.
+ */
+export function compareScenarios(
+  baseline: Scenario,
+  alternative: Scenario,
+  runs: number,
+  baseSeed: number = DEFAULT_SIMULATION_SEED,
+): ScenarioComparisonResult {
+  const baselineResult = runMonteCarlo(baseline.numChargepoints, { ...baseline.options, runs, baseSeed })
+  const alternativeResult = runMonteCarlo(alternative.numChargepoints, { ...alternative.options, runs, baseSeed })
+
+  const differences = {} as Record<MonteCarloMetric, MetricSummary>
+  for (const metric of Object.keys(baselineResult.metrics) as MonteCarloMetric[]) {
+    const baselineValues = baselineResult.metrics[metric].values
+    differences[metric] = summarizeMetric(
+      alternativeResult.metrics[metric].values.map((value, i) => value - baselineValues[i]),
+    )
+  }
+  return { baseline: baselineResult, alternative: alternativeResult, differences }
+}
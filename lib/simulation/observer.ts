@@ -0,0 +1,190 @@
+/**
+ * observer.ts
+ * Typed hooks into a running simulation, registered through `SimulationOptions.observers`.
+ */
+import type { RejectionReason } from './session'
+
+export interface ArrivalEvent {
+  tick: number
+  /** Local hour of day of the arrival (0-23). */
+  hour: number
+  evId: number
+  vehicleModelId: string
+  /** Energy the driver wants in kWh; 0 if the EV needs no charge and leaves right away. */
+  requestedKwh: number
+}
+
+export interface QueueEvent {
+  tick: number
+  evId: number
+  /** Number of EVs waiting, including this one. */
+  queueLength: number
+}
+
+export interface RejectEvent {
+  tick: number
+  evId: number
+  reason: RejectionReason
+  requestedKwh: number
+}
+
+export interface AssignEvent {
+  tick: number
+  evId: number
+  chargepointId: number
+  requestedKwh: number
+  /** Ticks the EV waited in the queue before it was plugged in. */
+  waitTicks: number
+}
+
+export interface ChargeTickEvent {
+  tick: number
+  evId: number
+  chargepointId: number
+  /** Energy delivered in this tick in kWh. */
+  energyKwh: number
+  /** Energy delivered over the whole session so far in kWh. */
+  deliveredKwh: number
+  requestedKwh: number
+}
+
+export interface DepartureEvent {
+  /** The last tick the EV was plugged in. */
+  tick: number
+  evId: number
+  chargepointId: number
+  deliveredKwh: number
+  requestedKwh: number
+  fullyCharged: boolean
+}
+
+export interface TickEndEvent {
+  tick: number
+  energyKwh: number
+  /** Power drawn during the tick in kW, see `SimulationStatistics.powerSeriesKw`. */
+  powerKw: number
+  queueLength: number
+}
+
+export interface ProgressEvent {
+  /** The first tick of the day that is about to be simulated, or `maxTicks` once the run is complete. */
+  tick: number
+  maxTicks: number
+  /** The local date of that day as YYYY-MM-DD. */
+  date: string
+}
+
+/**
+ * The event passed to each hook of a `SimulationObserver`.
+ */
+export interface SimulationEvents {
+  /** An EV arrived, before it is plugged in, queued or turned away. */
+  onArrival: ArrivalEvent
+  /** An arriving EV found no free chargepoint and joined the queue. */
+  onQueue: QueueEvent
+  /** An EV left without charging: the queue was full, it ran out of patience or found no compatible connector. */
+  onReject: RejectEvent
+  /** An EV was plugged in, on arrival or from the queue. */
+  onAssign: AssignEvent
+  /**
+   * An EV drew energy during a tick. Only the tick engine reports these; the event engine books each session's
+   * energy when the EV is plugged in, and its `onTickEnd` carries the booked totals.
+   */
+  onChargeTick: ChargeTickEvent
+  /** An EV was unplugged at the end of its stay. EVs still plugged in when the run ends do not depart. */
+  onDeparture: DepartureEvent
+  /** A tick is complete, with the energy delivered in it. */
+  onTickEnd: TickEndEvent
+  /** The run starts a new day, or is complete. */
+  onProgress: ProgressEvent
+}
+
+/**
+ * Receives events from a running simulation. Every hook is optional; the simulation calls them synchronously
+ * in the order the events happen.
+ */
+export type SimulationObserver = {
+  [Hook in keyof SimulationEvents]?: (event: SimulationEvents[Hook]) => void
+}
+
+/**
+ * Calls a hook of every observer that implements it.
+ * @param {SimulationObserver[]} observers - The registered observers.
+ * @param {keyof SimulationEvents} hook - The hook to call, e.g. 'onArrival'.
+ * @param {SimulationEvents[keyof SimulationEvents]} event - The event to pass.
+ */
+export function notifyObservers<Hook extends keyof SimulationEvents>(
+  observers: SimulationObserver[],
+  hook: Hook,
+  event: SimulationEvents[Hook],
+): void {
+  for (const observer of observers) {
+    observer[hook]?.(event)
+  }
+}
+
+const REJECTION_REASON_TEXT: Record<RejectionReason, string> = {
+  balked: 'balked at the full queue',
+  reneged: 'ran out of patience',
+  incompatible: 'found no compatible connector',
+}
+
+/**
+ * Creates the observer behind `SimulationOptions.verbose`, which logs every event as a line of text.
+ * @param {(message: string) => void} [log] - Where to write the lines, defaults to `console.log`. In a Next.js
+ * server action that is the server console.
+ * @param {number} [progressIntervalDays] - Log the progress every this many simulated days.
+ * @returns {SimulationObserver} The observer.
+ */
+export function createConsoleObserver(
+  log: (message: string) => void = console.log,
+  progressIntervalDays = 30,
+): SimulationObserver {
+  const logSim = (tick: number, message: string) => log(`[TICK ${tick}][SIM] ${message}`)
+  const logChargepoint = (tick: number, chargepointId: number, message: string) =>
+    log(`[TICK ${tick}][CP ${chargepointId}] ${message}`)
+  let day = 0
+
+  return {
+    onArrival: (event) => {
+      if (event.requestedKwh <= 0) {
+        logSim(event.tick, `ℹ️ EV[${event.evId}] arrived but rolled 0km demand, needs no charge.`)
+      }
+    },
+    onQueue: (event) => logSim(event.tick, `⏳ EV[${event.evId}] queued (${event.queueLength} waiting).`),
+    onReject: (event) => logSim(event.tick, `🚫 EV[${event.evId}] ${REJECTION_REASON_TEXT[event.reason]}.`),
+    onAssign: (event) =>
+      logChargepoint(
+        event.tick,
+        event.chargepointId,
+        `🔌 EV[${event.evId}] assigned. Needs ${event.requestedKwh.toFixed(2)} kWh.`,
+      ),
+    onChargeTick: (event) =>
+      logChargepoint(
+        event.tick,
+        event.chargepointId,
+        `🔄 Charging EV[${event.evId}]: +${event.energyKwh.toFixed(2)} kWh. (Total EV charge: ${event.deliveredKwh.toFixed(2)}/${event.requestedKwh.toFixed(2)} kWh)`,
+      ),
+    onDeparture: (event) =>
+      logChargepoint(
+        event.tick,
+        event.chargepointId,
+        event.fullyCharged
+          ? `✅ EV[${event.evId}] left fully charged (${event.deliveredKwh.toFixed(2)} kWh).`
+          : `🚗 EV[${event.evId}] left with ${event.deliveredKwh.toFixed(2)}/${event.requestedKwh.toFixed(2)} kWh.`,
+      ),
+    onTickEnd: (event) =>
+      logSim(
+        event.tick,
+        `📊 Tick Summary: Energy Delivered: ${event.energyKwh.toFixed(2)} kWh, Current Power Demand: ${event.powerKw.toFixed(2)} kW, Queue: ${event.queueLength}`,
+      ),
+    onProgress: (event) => {
+      if (event.tick === event.maxTicks) {
+        log(`🏁 Simulation run complete for ${event.maxTicks} ticks.`)
+      } else if (day % progressIntervalDays === 0) {
+        log(`  Simulating... Tick ${event.tick}/${event.maxTicks} (${event.date})`)
+      }
+      day++
+    },
+  }
+}
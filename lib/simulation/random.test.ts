@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { EVChargingSimulation } from './index'
+import type { ArrivalEvent } from './observer'
+import { RandomStreams, SeededRandom } from './random'
+
+/**
+ * Draws the first numbers of a stream.
+ * @param {SeededRandom} stream - The stream.
+ * @returns {number[]} Five draws.
+ */
+function drawFive(stream: SeededRandom): number[] {
+  return Array.from({ length: 5 }, () => stream.next())
+}
+
+/**
+ * Runs two weeks and records every arrival.
+ * @param {number} numChargepoints - The station size.
+ * @param {number} chargepointPowerKw - The power of every chargepoint.
+ * @returns The arrivals in order, the random stream states at the end and the power series.
+ */
+function runTwoWeeks(numChargepoints: number, chargepointPowerKw: number) {
+  const arrivals: ArrivalEvent[] = []
+  const simulation = new EVChargingSimulation(numChargepoints, {
+    seed: 11,
+    verbose: false,
+    maxTicks: 96 * 14,
+    config: { chargepointPowerKw },
+    observers: [{ onArrival: (event) => arrivals.push(event) }],
+  })
+  simulation.run()
+  return { arrivals, random: simulation.toSnapshot().random, powerSeriesKw: simulation.stats.powerSeriesKw }
+}
+
+describe('RandomStreams', () => {
+  it('derives independent, reproducible streams from the master seed', () => {
+    const streams = new RandomStreams(42)
+    const arrivals = drawFive(streams.get('arrivals'))
+
+    expect(drawFive(new RandomStreams(42).get('arrivals'))).toEqual(arrivals)
+    expect(drawFive(streams.get('failures'))).not.toEqual(drawFive(new RandomStreams(42).get('demand')))
+    expect(drawFive(new RandomStreams(43).get('arrivals'))).not.toEqual(arrivals)
+  })
+
+  it('gives every chargepoint its own stream, whatever other streams were used', () => {
+    const streams = new RandomStreams(7)
+    const firstChargepoint = drawFive(streams.getChargepointStream(1))
+
+    const otherStreams = new RandomStreams(7)
+    drawFive(otherStreams.get('arrivals'))
+    drawFive(otherStreams.getChargepointStream(2))
+    expect(drawFive(otherStreams.getChargepointStream(1))).toEqual(firstChargepoint)
+    expect(drawFive(new RandomStreams(7).getChargepointStream(2))).not.toEqual(firstChargepoint)
+    expect(drawFive(new RandomStreams(7).getChargepointStream(1, 'dwell'))).not.toEqual(firstChargepoint)
+  })
+
+  it('draws the same arrival numbers when the number of chargepoints changes', () => {
+    const smallStation = runTwoWeeks(3, 11)
+    const largeStation = runTwoWeeks(20, 11)
+
+    // The arrival rate grows with the station, but both draw one number per tick from the same stream
+    expect(largeStation.arrivals.length).toBeGreaterThan(smallStation.arrivals.length)
+    expect(largeStation.random.arrivals).toEqual(smallStation.random.arrivals)
+  })
+
+  it('keeps every arrival of a common random numbers comparison when only the chargepoint power changes', () => {
+    const baseline = runTwoWeeks(10, 11)
+    const alternative = runTwoWeeks(10, 7.4)
+
+    expect(alternative.powerSeriesKw).not.toEqual(baseline.powerSeriesKw)
+    expect(baseline.arrivals.length).toBeGreaterThan(0)
+    expect(alternative.arrivals).toEqual(baseline.arrivals)
+  })
+})
@@ -1,30 +1,100 @@
 /**
  * random.ts
- * Seeded pseudo-random number generator for reproducible simulations.
+ * Seeded pseudo-random number generators for reproducible simulations, with an independent stream per
+ * stochastic process so that scenarios can be compared with common random numbers.
  */
 
+/**
+ * Processes of the simulation that draw random numbers, each from its own stream.
+ */
+export type RandomStreamName = 'arrivals' | 'demand' | 'vehicle' | 'dwell' | 'failures'
+
+/**
+ * Advances a SplitMix32 state and returns the next output, used to expand a seed into generator state.
+ * @param {Uint32Array} state - A one-element state, updated in place.
+ * @returns {number} A 32-bit unsigned integer.
+ */
+function nextSplitMix32(state: Uint32Array): number {
+  state[0] += 0x9e3779b9
+  let z = state[0]
+  z = Math.imul(z ^ (z >>> 16), 0x85ebca6b)
+  z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35)
+  return (z ^ (z >>> 16)) >>> 0
+}
+
+/**
+ * Hashes a stream name to 32 bits (FNV-1a).
+ * @param {string} name - The stream name.
+ * @returns {number} The hash, a 32-bit unsigned integer.
+ */
+function hashStreamName(name: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < name.length; i++) {
+    hash = Math.imul(hash ^ name.charCodeAt(i), 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function rotateLeft(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits))
+}
+
 export class SeededRandom {
-  private seed: number
+  private state: Uint32Array
 
   /**
-   * Creates a new seeded random number generator.
-   * @param {number} seed - The initial seed value.
+   * Creates a new seeded random number generator (xoshiro128**).
+   * @param {number} seed - The initial seed value; only its lower 32 bits are used.
+   * @param {string} [stream] - Name of the substream. Different names give independent sequences for the same seed.
    */
-  constructor(seed: number) {
-    this.seed = seed % 2147483647
-    if (this.seed <= 0) {
-      this.seed += 2147483646
+  constructor(seed: number, stream: string = '') {
+    const seedState = new Uint32Array([seed])
+    // Scramble the seed before mixing in the stream name, so that nearby seeds do not share streams
+    seedState[0] = nextSplitMix32(seedState) ^ hashStreamName(stream)
+    this.state = new Uint32Array(4)
+    for (let i = 0; i < 4; i++) {
+      this.state[i] = nextSplitMix32(seedState)
+    }
+    if (this.state.every((word) => word === 0)) {
+      this.state[0] = 1
     }
   }
 
   /**
    * Generates the next pseudo-random number as a float between 0 (inclusive) and 1 (exclusive).
-   * Uses a linear congruential generator (LCG).
    * @returns {number} A pseudo-random float.
    */
   public next(): number {
-    this.seed = (this.seed * 16807) % 2147483647
-    return (this.seed - 1) / 2147483646
+    const state = this.state
+    const result = Math.imul(rotateLeft(Math.imul(state[1], 5), 7), 9) >>> 0
+    const shifted = state[1] << 9
+    state[2] ^= state[0]
+    state[3] ^= state[1]
+    state[1] ^= state[2]
+    state[0] ^= state[3]
+    state[2] ^= shifted
+    state[3] = rotateLeft(state[3], 11)
+    return result / 4294967296
+  }
+
+  /**
+   * Returns the generator state, e.g. to save it in a snapshot.
+   * @returns {number[]} The four 32-bit words of the state.
+   */
+  public getState(): number[] {
+    return Array.from(this.state)
+  }
+
+  /**
+   * Continues the sequence from a state returned by `getState`.
+   * @param {number[]} state - The four 32-bit words of the state.
+   * @throws {Error} If the state does not have four words or is all zero.
+   */
+  public restoreState(state: number[]): void {
+    if (state.length !== 4 || state.every((word) => word === 0)) {
+      throw new Error(`Invalid xoshiro128** state [${state.join(', ')}], expected four words, not all zero.`)
+    }
+    this.state = new Uint32Array(state)
   }
 
   /**
@@ -37,3 +107,64 @@ export class SeededRandom {
     return Math.floor(this.next() * (max - min)) + min
   }
 }
+
+/**
+ * The random streams of one run, all derived from its seed. Each process draws from its own stream, so changing
+ * one input (e.g. the number of chargepoints) does not shift the draws of the others: the n-th arriving EV gets the
+ * same demand, vehicle and dwell time in both scenarios.
+ */
+export class RandomStreams {
+  public readonly seed: number
+  private streams: Map<string, SeededRandom> = new Map()
+
+  /**
+   * @param {number} seed - The master seed of the run.
+   */
+  constructor(seed: number) {
+    this.seed = seed
+  }
+
+  /**
+   * Returns the stream of a process, creating it on first use.
+   * @param {RandomStreamName | string} name - The process, e.g. 'arrivals'. Further processes use their own name.
+   * @returns {SeededRandom} The stream.
+   */
+  public get(name: RandomStreamName | string): SeededRandom {
+    let stream = this.streams.get(name)
+    if (!stream) {
+      stream = new SeededRandom(this.seed, name)
+      this.streams.set(name, stream)
+    }
+    return stream
+  }
+
+  /**
+   * Returns the state of every stream used so far. Streams not in the result have not drawn a number yet.
+   * @returns {Record<string, number[]>} The generator state of each stream, keyed by name.
+   */
+  public getState(): Record<string, number[]> {
+    return Object.fromEntries([...this.streams].map(([name, stream]) => [name, stream.getState()]))
+  }
+
+  /**
+   * Continues every stream from a state returned by `getState`.
+   * @param {Record<string, number[]>} states - The generator state of each stream, keyed by name.
+   * @throws {Error} If a state is invalid.
+   */
+  public restoreState(states: Record<string, number[]>): void {
+    for (const [name, state] of Object.entries(states)) {
+      this.get(name).restoreState(state)
+    }
+  }
+
+  /**
+   * Returns the stream of a process at a single chargepoint, e.g. its failures. Each chargepoint draws from its own
+   * stream, so adding chargepoints does not change the draws of the existing ones.
+   * @param {number} chargepointId - The chargepoint id.
+   * @param {RandomStreamName} [process] - The process, 'failures' by default.
+   * @returns {SeededRandom} The stream.
+   */
+  public getChargepointStream(chargepointId: number, process: RandomStreamName = 'failures'): SeededRandom {
+    return this.get(`${process}/chargepoint-${chargepointId}`)
+  }
+}
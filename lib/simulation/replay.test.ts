@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { TraceArrivalSource, type RecordedArrival } from './arrivals'
+import { replayArrivalTrace } from './replay'
+
+const RECORDS: RecordedArrival[] = [
+  { arrivalTime: '2023-03-01T08:00', energyKwh: 30, durationMinutes: 120, vehicleModelId: null },
+  { arrivalTime: '2023-03-01T08:30', energyKwh: 10, durationMinutes: null, vehicleModelId: null },
+]
+
+describe('replayArrivalTrace', () => {
+  it('compares every station with the recorded one', () => {
+    const result = replayArrivalTrace({
+      arrivalSource: new TraceArrivalSource(RECORDS),
+      baseline: { numChargepoints: 1, chargepointPowerKw: 11 },
+      chargepointCounts: [2],
+      maxTicks: 96,
+      config: { startDate: '2023-03-01' },
+    })
+
+    expect(result.baseline.rejectedArrivals).toBe(1)
+    expect(result.points).toHaveLength(1)
+    expect(result.points[0].rejectedArrivalsChange).toBe(-1)
+    expect(result.points[0].energyChangeKwh).toBeCloseTo(10)
+  })
+
+  it('rejects a trace without arrivals in the run', () => {
+    expect(() =>
+      replayArrivalTrace({
+        arrivalSource: new TraceArrivalSource(RECORDS),
+        baseline: { numChargepoints: 1, chargepointPowerKw: 11 },
+        chargepointCounts: [2],
+        maxTicks: 96,
+        config: { startDate: '2023-03-02' },
+      }),
+    ).toThrow('No recorded arrival')
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * replay.ts
+ * Replays recorded arrivals against other station sizes and reports how peak power demand and rejections would
+ * have changed compared with the station the trace was recorded at.
+ */
+import { toCsv, type CsvColumn } from './csv'
+import type { ArrivalSource } from './arrivals'
+import { SWEEP_CSV_COLUMNS, runChargepointSweep, type SweepOptions, type SweepPoint } from './sweep'
+
+export interface TraceReplayOptions extends Omit<SweepOptions, 'arrivalSource'> {
+  /** The recorded arrivals, e.g. a `TraceArrivalSource`. */
+  arrivalSource: ArrivalSource
+  /** The station the trace was recorded at, which every other station is compared with. */
+  baseline: {
+    numChargepoints: number
+    chargepointPowerKw: number
+  }
+}
+
+/**
+ * A replayed station with its changes against the baseline.
+ */
+export interface TraceReplayPoint extends SweepPoint {
+  /** Peak power demand minus the baseline's, in kW. */
+  maxPowerDemandChangeKw: number
+  /** Rejected arrivals minus the baseline's. */
+  rejectedArrivalsChange: number
+  /** Delivered energy minus the baseline's, in kWh. */
+  energyChangeKwh: number
+}
+
+export interface TraceReplayResult {
+  baseline: SweepPoint
+  points: TraceReplayPoint[]
+}
+
+/**
+ * Replays the same arrivals at the baseline station and at every combination of chargepoint count and power.
+ * @param {TraceReplayOptions} options - The arrivals, the baseline station and the stations to compare with it.
+ * @returns {TraceReplayResult} The baseline run and one point per other station, ordered by power, then count.
+ * @throws {Error} If a count is not a positive integer or no counts are given, or if no arrival that wants to charge
+ * falls within the run.
+ */
+export function replayArrivalTrace(options: TraceReplayOptions): TraceReplayResult {
+  const { baseline: baselineStation, ...sweepOptions } = options
+  const [baseline] = runChargepointSweep({
+    ...sweepOptions,
+    chargepointCounts: [baselineStation.numChargepoints],
+    chargepointPowersKw: [baselineStation.chargepointPowerKw],
+  })
+  // Every station would report zeros, which looks like a valid result
+  if (baseline.totalChargingSessions === 0 && baseline.rejectedArrivals === 0) {
+    throw new Error(
+      'No recorded arrival that wants to charge falls within the run; check the start date, time zone and run length.',
+    )
+  }
+  const points = runChargepointSweep(sweepOptions).map((point) => ({
+    ...point,
+    maxPowerDemandChangeKw: point.actualMaxPowerDemandKw - baseline.actualMaxPowerDemandKw,
+    rejectedArrivalsChange: point.rejectedArrivals - baseline.rejectedArrivals,
+    energyChangeKwh: point.totalEnergyConsumedKwh - baseline.totalEnergyConsumedKwh,
+  }))
+  return { baseline, points }
+}
+
+const TRACE_REPLAY_CSV_COLUMNS: CsvColumn<TraceReplayPoint>[] = [
+  ...SWEEP_CSV_COLUMNS,
+  { header: 'max_power_change_kw', value: (point) => point.maxPowerDemandChangeKw.toFixed(2) },
+  { header: 'rejected_arrivals_change', value: (point) => point.rejectedArrivalsChange },
+  { header: 'energy_change_kwh', value: (point) => point.energyChangeKwh.toFixed(2) },
+]
+
+/**
+ * Serializes a trace replay as CSV: the baseline first, with zero changes, then one line per station.
+ * @param {TraceReplayResult} result - The replay.
+ * @returns {string} The CSV text with a header line.
+ */
+export function traceReplayToCsv(result: TraceReplayResult): string {
+  const baseline: TraceReplayPoint = {
+    ...result.baseline,
+    maxPowerDemandChangeKw: 0,
+    rejectedArrivalsChange: 0,
+    energyChangeKwh: 0,
+  }
+  return toCsv([baseline, ...result.points], TRACE_REPLAY_CSV_COLUMNS)
+}
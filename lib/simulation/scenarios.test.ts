@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest'
+import { REGRESSION_SCENARIOS, assertScenarios } from './scenarios'
+
+describe('REGRESSION_SCENARIOS', () => {
+  it('keeps every metric within its expected range', () => {
+    expect(() => assertScenarios()).not.toThrow()
+  })
+
+  it('lists every failed check', () => {
+    const [task1] = REGRESSION_SCENARIOS
+    const scenario = { ...task1, expected: { actualMaxPowerDemandKw: { max: 1 }, totalChargingSessions: { min: 1e9 } } }
+    expect(() => assertScenarios([scenario])).toThrow(/2 scenario check\(s\) failed:\ntask-1: actualMaxPowerDemandKw/)
+  })
+})
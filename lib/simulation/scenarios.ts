@@ -0,0 +1,186 @@
+/**
+ * scenarios.ts
+ * Declarative regression scenarios: fixed inputs and seed with the range each key metric must land in. Running
+ * them after a change to the simulation shows whether it moved the results.
+ */
+import { DEFAULT_SIMULATION_SEED, DWELL_TIME_MINUTES_PRESETS } from './config'
+import { EVChargingSimulation, selectSimulationEngine, type SimulationOptions } from './index'
+import { getRunMetrics, type MonteCarloMetric } from './monte-carlo'
+
+/**
+ * Inclusive bounds of a metric; an omitted bound is not checked.
+ */
+export interface ExpectedRange {
+  min?: number
+  max?: number
+}
+
+export interface RegressionScenario {
+  id: string
+  description: string
+  numChargepoints: number
+  seed: number
+  /** Run length, engine and config overrides. The engine defaults to `selectSimulationEngine`. */
+  options?: Omit<SimulationOptions, 'seed' | 'verbose'>
+  expected: Partial<Record<MonteCarloMetric, ExpectedRange>>
+}
+
+export interface ScenarioCheck {
+  metric: MonteCarloMetric
+  value: number
+  expected: ExpectedRange
+  passed: boolean
+}
+
+export interface ScenarioResult {
+  id: string
+  checks: ScenarioCheck[]
+  /** True if every check passed. */
+  passed: boolean
+}
+
+/**
+ * The regression scenarios. Task 1 checks the ranges given in the original requirements. The ranges of the others
+ * cover the spread over 30 seeds with some margin, so a change of the random draws alone stays within them while a
+ * change of the model's behaviour does not.
+ */
+export const REGRESSION_SCENARIOS: RegressionScenario[] = [
+  {
+    id: 'task-1',
+    description: 'Task 1: 20 chargepoints at 11 kW for a full year with the T1/T2 defaults.',
+    numChargepoints: 20,
+    seed: DEFAULT_SIMULATION_SEED,
+    expected: {
+      actualMaxPowerDemandKw: { min: 77, max: 121 },
+      concurrencyFactor: { min: 35, max: 55 },
+      totalEnergyConsumedKwh: { min: 47000, max: 57000 },
+      totalChargingSessions: { min: 4500, max: 5100 },
+    },
+  },
+  {
+    id: 'grid-limit',
+    description: 'Task 1 behind a 60 kW grid connection: the peak is capped, hardly any energy is lost.',
+    numChargepoints: 20,
+    seed: DEFAULT_SIMULATION_SEED,
+    options: { config: { gridConnectionLimitKw: 60 } },
+    expected: {
+      actualMaxPowerDemandKw: { min: 55, max: 60 },
+      totalEnergyConsumedKwh: { min: 47000, max: 57000 },
+      totalChargingSessions: { min: 4500, max: 5100 },
+    },
+  },
+  {
+    id: 'mixed-ac-dc',
+    description: '16×11 kW Type 2 and 4×150 kW CCS chargepoints with the default fleet mix.',
+    numChargepoints: 20,
+    seed: DEFAULT_SIMULATION_SEED,
+    options: {
+      config: {
+        stationLayout: [
+          { id: 'ac', label: '16×11 kW Type 2', count: 16, powerKw: 11, connector: 'type2' },
+          { id: 'dc', label: '4×150 kW CCS', count: 4, powerKw: 150, connector: 'ccs' },
+        ],
+      },
+    },
+    expected: {
+      actualMaxPowerDemandKw: { min: 220, max: 340 },
+      concurrencyFactor: { min: 28, max: 44 },
+      totalEnergyConsumedKwh: { min: 47000, max: 57000 },
+    },
+  },
+  {
+    id: 'supermarket-dwell',
+    description: 'Task 1 with supermarket parking durations: most EVs leave before they are full.',
+    numChargepoints: 20,
+    seed: DEFAULT_SIMULATION_SEED,
+    options: { config: { dwellTimeMinutesDistribution: DWELL_TIME_MINUTES_PRESETS.supermarket } },
+    expected: {
+      actualMaxPowerDemandKw: { min: 38, max: 72 },
+      totalEnergyConsumedKwh: { min: 19500, max: 25000 },
+      totalChargingSessions: { min: 4500, max: 5100 },
+    },
+  },
+]
+
+/**
+ * Looks up a regression scenario by id.
+ * @param {string} id - The scenario id, e.g. 'task-1'.
+ * @param {RegressionScenario[]} [scenarios] - The scenarios to search, defaults to `REGRESSION_SCENARIOS`.
+ * @returns {RegressionScenario} The scenario.
+ * @throws {Error} If there is no scenario with that id.
+ */
+export function getScenario(id: string, scenarios: RegressionScenario[] = REGRESSION_SCENARIOS): RegressionScenario {
+  const scenario = scenarios.find((candidate) => candidate.id === id)
+  if (!scenario) {
+    throw new Error(`Unknown scenario "${id}", expected one of: ${scenarios.map((s) => s.id).join(', ')}.`)
+  }
+  return scenario
+}
+
+/**
+ * Runs a scenario and checks every expected range.
+ * @param {RegressionScenario} scenario - The scenario.
+ * @returns {ScenarioResult} The value and verdict of every checked metric.
+ */
+export function runScenario(scenario: RegressionScenario): ScenarioResult {
+  const options = scenario.options ?? {}
+  const simulation = new EVChargingSimulation(scenario.numChargepoints, {
+    ...options,
+    seed: scenario.seed,
+    verbose: false,
+    engine: options.engine ?? selectSimulationEngine(options.config),
+  })
+  simulation.run()
+  const metrics = getRunMetrics(simulation)
+
+  const checks: ScenarioCheck[] = []
+  for (const [metric, expected] of Object.entries(scenario.expected) as [MonteCarloMetric, ExpectedRange][]) {
+    const value = metrics[metric]
+    checks.push({
+      metric,
+      value,
+      expected,
+      passed:
+        (expected.min === undefined || value >= expected.min) && (expected.max === undefined || value <= expected.max),
+    })
+  }
+  return { id: scenario.id, checks, passed: checks.every((check) => check.passed) }
+}
+
+/**
+ * Runs several scenarios.
+ * @param {RegressionScenario[]} [scenarios] - The scenarios, defaults to `REGRESSION_SCENARIOS`.
+ * @returns {ScenarioResult[]} One result per scenario, in the same order.
+ */
+export function runScenarios(scenarios: RegressionScenario[] = REGRESSION_SCENARIOS): ScenarioResult[] {
+  return scenarios.map(runScenario)
+}
+
+/**
+ * Describes a failed check, e.g. `task-1: actualMaxPowerDemandKw = 130.5, expected 77 to 121`.
+ * @param {string} id - The scenario id.
+ * @param {ScenarioCheck} check - The failed check.
+ * @returns {string} The description.
+ */
+function describeFailedCheck(id: string, check: ScenarioCheck): string {
+  const { min, max } = check.expected
+  const range = `${min ?? '-∞'} to ${max ?? '∞'}`
+  return `${id}: ${check.metric} = ${Number(check.value.toFixed(2))}, expected ${range}`
+}
+
+/**
+ * Runs scenarios and throws if any metric is out of its range.
+ * @param {RegressionScenario[]} [scenarios] - The scenarios, defaults to `REGRESSION_SCENARIOS`.
+ * @returns {ScenarioResult[]} The results, all of which passed.
+ * @throws {Error} Listing every failed check.
+ */
+export function assertScenarios(scenarios: RegressionScenario[] = REGRESSION_SCENARIOS): ScenarioResult[] {
+  const results = runScenarios(scenarios)
+  const failures = results.flatMap((result) =>
+    result.checks.filter((check) => !check.passed).map((check) => describeFailedCheck(result.id, check)),
+  )
+  if (failures.length > 0) {
+    throw new Error(`${failures.length} scenario check(s) failed:\n${failures.join('\n')}`)
+  }
+  return results
+}
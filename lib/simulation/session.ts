@@ -0,0 +1,103 @@
+/**
+ * session.ts
+ * Per-arrival charging session records and the log that collects them.
+ */
+import type { SimulationCalendar } from './calendar'
+
+/**
+ * Outcome of an EV arrival:
+ * - `charged`: the EV was plugged in at a chargepoint and received energy.
+ * - `no-demand`: the EV arrived but rolled a demand of 0 km and did not charge.
+ * - `rejected`: the EV wanted to charge but left without getting a chargepoint.
+ * - `waiting`: the EV was still in the queue when the simulation stopped.
+ */
+export type ChargingSessionOutcome = 'charged' | 'no-demand' | 'rejected' | 'waiting'
+
+/**
+ * Why a rejected EV left: `balked` when the queue was full on arrival,
+ * `reneged` when the driver ran out of patience while waiting,
+ * `incompatible` when no chargepoint at the station has a connector the EV supports.
+ */
+export type RejectionReason = 'balked' | 'reneged' | 'incompatible'
+
+export interface ChargingSession {
+  id: number
+  arrivalTick: number
+  /** Local arrival time, ISO 8601 with UTC offset. */
+  arrivalTime: string
+  /** Id of the EV's vehicle model. */
+  vehicleModelId: string
+  /** Chargepoint the EV was assigned to, or null if it never plugged in. */
+  chargepointId: number | null
+  requestedKwh: number
+  deliveredKwh: number
+  /** First tick of charging, or null if the EV never plugged in. */
+  startTick: number | null
+  /** Local time charging started, ISO 8601 with UTC offset. */
+  startTime: string | null
+  /** Tick in which the EV left the chargepoint, or null if it never plugged in or is still charging. */
+  endTick: number | null
+  /** Local time the EV left the chargepoint, ISO 8601 with UTC offset. */
+  endTime: string | null
+  outcome: ChargingSessionOutcome
+  /** Set for rejected sessions only. */
+  rejectionReason: RejectionReason | null
+}
+
+/**
+ * Filter for session log queries. Day (of the simulation) and calendar month refer to the arrival and are zero-based.
+ */
+export interface SessionFilter {
+  day?: number
+  month?: number
+  outcome?: ChargingSessionOutcome
+}
+
+export class SessionLog {
+  private sessions: ChargingSession[]
+  private calendar: SimulationCalendar
+
+  constructor(calendar: SimulationCalendar) {
+    this.sessions = []
+    this.calendar = calendar
+  }
+
+  public add(session: ChargingSession): ChargingSession {
+    this.sessions.push(session)
+    return session
+  }
+
+  /**
+   * Adds sessions in bulk, e.g. when restoring a snapshot.
+   * @param {ChargingSession[]} sessions - The sessions, in order of arrival.
+   */
+  public addAll(sessions: ChargingSession[]): void {
+    for (const session of sessions) {
+      this.sessions.push(session)
+    }
+  }
+
+  public size(): number {
+    return this.sessions.length
+  }
+
+  /**
+   * Returns the sessions matching the given filter, in order of arrival.
+   * @param {SessionFilter} [filter] - Optional day, month and outcome constraints.
+   * @returns {ChargingSession[]} The matching sessions.
+   */
+  public query(filter: SessionFilter = {}): ChargingSession[] {
+    return this.sessions.filter((session) => {
+      if (filter.day !== undefined && Math.floor(session.arrivalTick / this.calendar.ticksPerDay) !== filter.day) {
+        return false
+      }
+      if (filter.month !== undefined && this.calendar.getMonth(session.arrivalTick) !== filter.month) {
+        return false
+      }
+      if (filter.outcome !== undefined && session.outcome !== filter.outcome) {
+        return false
+      }
+      return true
+    })
+  }
+}
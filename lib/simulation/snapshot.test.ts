@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { DWELL_TIME_MINUTES_PRESETS } from './config'
+import { EVChargingSimulation, type SimulationOptions } from './index'
+import { SIMULATION_SNAPSHOT_VERSION, type SimulationSnapshot } from './snapshot'
+
+const RUNS: [string, SimulationOptions][] = [
+  ['the tick engine behind a grid limit', { engine: 'tick', config: { gridConnectionLimitKw: 40 } }],
+  [
+    'the event engine with dwell times',
+    { engine: 'event', config: { dwellTimeMinutesDistribution: DWELL_TIME_MINUTES_PRESETS.supermarket } },
+  ],
+]
+
+describe('simulation snapshots', () => {
+  it.each(RUNS)('continue a run of %s exactly where it stopped', (_, options) => {
+    const runOptions: SimulationOptions = { ...options, seed: 3, verbose: false, maxTicks: 96 * 14 }
+    const uninterrupted = new EVChargingSimulation(10, runOptions)
+    uninterrupted.run()
+
+    const interrupted = new EVChargingSimulation(10, runOptions)
+    interrupted.runUntil(96 * 5 + 37)
+    const snapshot = JSON.parse(JSON.stringify(interrupted.toSnapshot())) as SimulationSnapshot
+    const restored = EVChargingSimulation.fromSnapshot(snapshot, { verbose: false })
+    expect(restored.getCurrentTick()).toBe(interrupted.getCurrentTick())
+    restored.run()
+
+    expect(restored.stats.getState()).toEqual(uninterrupted.stats.getState())
+    expect(restored.getSessions()).toEqual(uninterrupted.getSessions())
+  })
+
+  it('rejects a snapshot of another version', () => {
+    const snapshot = new EVChargingSimulation(2, { verbose: false, maxTicks: 96 }).toSnapshot()
+    expect(() => EVChargingSimulation.fromSnapshot({ ...snapshot, version: SIMULATION_SNAPSHOT_VERSION + 1 })).toThrow(
+      'Unsupported simulation snapshot version',
+    )
+  })
+})
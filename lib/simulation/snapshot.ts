@@ -0,0 +1,74 @@
+/**
+ * snapshot.ts
+ * The versioned, JSON-serializable state of a simulation between two ticks, see
+ * `EVChargingSimulation.toSnapshot` and `EVChargingSimulation.fromSnapshot`.
+ */
+import type { SimulationConfig } from './config'
+import type { SimulationEngine } from './index'
+import type { ChargingSession } from './session'
+import type { SimulationStatisticsState } from './statistics'
+
+/**
+ * Version of the snapshot format. Bump it whenever the format changes; restoring rejects other versions.
+ */
+export const SIMULATION_SNAPSHOT_VERSION = 1
+
+/**
+ * An EV that is waiting or plugged in. Its vehicle model is stored by id, see `SimulationConfig.vehicleModels`.
+ */
+export interface ElectricVehicleSnapshot {
+  id: number
+  vehicleModelId: string
+  energyNeededKwh: number
+  energyReceivedKwh: number
+  arrivalTick: number
+  plugInTick: number | null
+  expectedDepartureTick: number | null
+  dwellTicks: number | null
+  unconstrainedChargeTicks: number | null
+}
+
+export interface ChargepointSnapshot {
+  id: number
+  allocatedPowerKw: number
+  ev: ElectricVehicleSnapshot | null
+}
+
+/**
+ * The event engine's bookings. The per-tick arrays cover the whole run, including the energy booked for the future.
+ */
+export interface EventEngineSnapshot {
+  energyPerTickKwh: number[]
+  groupEnergyPerTickKwh: Record<string, number[]>
+  occupiedChargepointsByGroup: Record<string, number>
+  /** Scheduled departures, in the order they are due. */
+  departures: { tick: number; chargepointId: number }[]
+}
+
+export interface SimulationSnapshot {
+  version: number
+  /** The complete config of the run, so a restored run does not depend on the defaults of the restoring build. */
+  config: SimulationConfig
+  /** The chargepoint count passed to the constructor, used if the config has no station layout. */
+  numChargepoints: number
+  seed: number
+  engine: SimulationEngine
+  maxTicks: number
+  /** The next tick to simulate. */
+  nextTick: number
+  /** Where the latest `runUntil` call stopped or was heading, so `resume` carries on to it. */
+  targetTick: number
+  paused: boolean
+  nextEvId: number
+  /** Whether the run takes its arrivals from an arrival source, which must be passed again on restore. */
+  replaysArrivals: boolean
+  /** The generator state of every random stream used so far, keyed by name. */
+  random: Record<string, number[]>
+  chargepoints: ChargepointSnapshot[]
+  waitingQueue: ElectricVehicleSnapshot[]
+  sessions: ChargingSession[]
+  /** Ids of the sessions of EVs that are waiting or plugged in. */
+  openSessionIds: number[]
+  statistics: SimulationStatisticsState
+  eventEngine: EventEngineSnapshot | null
+}
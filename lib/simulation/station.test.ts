@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { TraceArrivalSource, type RecordedArrival } from './arrivals'
+import { EVChargingSimulation, type SimulationEngine } from './index'
+import type { AssignEvent, QueueEvent, RejectEvent } from './observer'
+
+const PATIENCE_TICKS = 2
+
+/**
+ * One 11 kW chargepoint, occupied from 08:00 to 10:00, with room for a single waiting EV.
+ * 08:00 the second EV queues, the third balks, and the queued one reneges before the chargepoint is free.
+ * 12:00 an EV waits one tick for the chargepoint; 14:00 a plug-in hybrid finds no Type 2 connector.
+ */
+const RECORDS: RecordedArrival[] = [
+  { arrivalTime: '2023-03-01T08:00', energyKwh: 20, durationMinutes: 120, vehicleModelId: null },
+  { arrivalTime: '2023-03-01T08:00', energyKwh: 10, durationMinutes: null, vehicleModelId: null },
+  { arrivalTime: '2023-03-01T08:00', energyKwh: 12, durationMinutes: null, vehicleModelId: null },
+  { arrivalTime: '2023-03-01T12:00', energyKwh: 2, durationMinutes: 15, vehicleModelId: null },
+  { arrivalTime: '2023-03-01T12:00', energyKwh: 4, durationMinutes: null, vehicleModelId: null },
+  { arrivalTime: '2023-03-01T14:00', energyKwh: 5, durationMinutes: null, vehicleModelId: 'plug-in-hybrid' },
+]
+
+/**
+ * Replays the records at a station with a single CCS-capable 11 kW chargepoint, recording the queue events.
+ * @param {SimulationEngine} engine - The engine to run.
+ * @returns The statistics and the queue, reject and assign events.
+ */
+function runQueueScenario(engine: SimulationEngine) {
+  const queued: QueueEvent[] = []
+  const rejected: RejectEvent[] = []
+  const assigned: AssignEvent[] = []
+  const simulation = new EVChargingSimulation(1, {
+    engine,
+    verbose: false,
+    maxTicks: 96,
+    arrivalSource: new TraceArrivalSource(RECORDS),
+    config: {
+      startDate: '2023-03-01',
+      tickMinutes: 15,
+      maxQueueLength: 1,
+      driverPatienceMinutes: PATIENCE_TICKS * 15,
+      stationLayout: [{ id: 'ccs', label: 'CCS', count: 1, powerKw: 11, connector: 'ccs' }],
+    },
+    observers: [
+      {
+        onQueue: (event) => queued.push(event),
+        onReject: (event) => rejected.push(event),
+        onAssign: (event) => assigned.push(event),
+      },
+    ],
+  })
+  simulation.run()
+  return { stats: simulation.stats.getState(), queued, rejected, assigned }
+}
+
+describe.each<SimulationEngine>(['tick', 'event'])('waiting queue (%s engine)', (engine) => {
+  it('queues arrivals while every chargepoint is busy and turns them away once the queue is full', () => {
+    const { queued, rejected, assigned } = runQueueScenario(engine)
+
+    expect(queued).toEqual([
+      { tick: 32, evId: 2, queueLength: 1 },
+      { tick: 48, evId: 5, queueLength: 1 },
+    ])
+    expect(rejected.filter((event) => event.reason === 'balked')).toEqual([
+      { tick: 32, evId: 3, reason: 'balked', requestedKwh: 12 },
+    ])
+    expect(assigned.map(({ tick, evId, waitTicks }) => ({ tick, evId, waitTicks }))).toEqual([
+      { tick: 32, evId: 1, waitTicks: 0 },
+      { tick: 48, evId: 4, waitTicks: 0 },
+      { tick: 49, evId: 5, waitTicks: 1 },
+    ])
+  })
+
+  it('lets a waiting driver leave once their patience runs out', () => {
+    const { rejected } = runQueueScenario(engine)
+
+    expect(rejected.filter((event) => event.reason === 'reneged')).toEqual([
+      { tick: 32 + PATIENCE_TICKS, evId: 2, reason: 'reneged', requestedKwh: 10 },
+    ])
+  })
+
+  it('counts every arrival turned away by its reason', () => {
+    const { stats, rejected } = runQueueScenario(engine)
+
+    expect(rejected.filter((event) => event.reason === 'incompatible')).toEqual([
+      { tick: 56, evId: 6, reason: 'incompatible', requestedKwh: 5 },
+    ])
+    expect(stats.balkedArrivals).toBe(1)
+    expect(stats.renegedArrivals).toBe(1)
+    expect(stats.incompatibleArrivals).toBe(1)
+    expect(stats.rejectedArrivals).toBe(stats.balkedArrivals + stats.renegedArrivals + stats.incompatibleArrivals)
+    expect(stats.rejectedEnergyKwh).toBe(12 + 10 + 5)
+    expect(stats.totalChargingSessions).toBe(RECORDS.length - stats.rejectedArrivals)
+  })
+})
@@ -1,24 +1,198 @@
 /**
  * station.ts
- * Manages a collection of chargepoints.
+ * Manages a collection of chargepoints and the FIFO queue of EVs waiting for one.
  */
 import { Chargepoint, type TickRef } from './chargepoint'
+import {
+  DEFAULT_SIMULATION_CONFIG,
+  getTicksPerHour,
+  resolveStationLayout,
+  type ChargepointGroup,
+  type SimulationConfig,
+} from './config'
+import type { ElectricVehicle } from './ev'
+import { resolveLoadManagementStrategy, type LoadManagementStrategy } from './load-management'
+
+export interface ChargepointAssignment {
+  ev: ElectricVehicle
+  chargepoint: Chargepoint
+}
+
+/**
+ * The chargepoints of one group, with a lower bound on the first free one so that finding a free chargepoint
+ * does not scan the whole station.
+ */
+interface ChargepointGroupIndex {
+  group: ChargepointGroup
+  /** The group's chargepoints, in id order. */
+  chargepoints: Chargepoint[]
+  /** No chargepoint before this index is free. */
+  firstFreeIndex: number
+}
 
 export class ChargingStation {
   public chargepoints: Chargepoint[]
+  public waitingQueue: ElectricVehicle[]
+  public readonly layout: ChargepointGroup[]
+  private maxQueueLength: number
+  private gridConnectionLimitKw: number | null
+  private loadManagementStrategy: LoadManagementStrategy
+  /** The groups by power, highest first; groups of equal power keep their layout order. */
+  private groupsByPower: ChargepointGroupIndex[]
 
-  constructor(numChargepoints: number, verbose = false, currentTickRef: TickRef = { value: 0 }) {
+  constructor(
+    numChargepoints: number,
+    config: SimulationConfig = DEFAULT_SIMULATION_CONFIG,
+    currentTickRef: TickRef = { value: 0, ticksPerHour: getTicksPerHour(config.tickMinutes) },
+  ) {
     this.chargepoints = []
-    for (let i = 0; i < numChargepoints; i++) {
-      this.chargepoints.push(new Chargepoint(i, verbose, currentTickRef))
+    this.waitingQueue = []
+    this.maxQueueLength = config.maxQueueLength
+    this.gridConnectionLimitKw = config.gridConnectionLimitKw
+    this.loadManagementStrategy = resolveLoadManagementStrategy(config.loadManagementStrategy)
+    this.layout = resolveStationLayout(config, numChargepoints)
+    const groupIndexes: ChargepointGroupIndex[] = []
+    for (const group of this.layout) {
+      const groupIndex: ChargepointGroupIndex = { group, chargepoints: [], firstFreeIndex: 0 }
+      for (let i = 0; i < group.count; i++) {
+        const chargepoint = new Chargepoint(
+          this.chargepoints.length,
+          group.powerKw,
+          currentTickRef,
+          group.connector,
+          group.id,
+        )
+        chargepoint.onRelease = () => {
+          groupIndex.firstFreeIndex = Math.min(groupIndex.firstFreeIndex, i)
+        }
+        this.chargepoints.push(chargepoint)
+        groupIndex.chargepoints.push(chargepoint)
+      }
+      groupIndexes.push(groupIndex)
+    }
+    this.groupsByPower = [...groupIndexes].sort((a, b) => b.group.powerKw - a.group.powerKw)
+  }
+
+  /**
+   * Finds the free chargepoint with the lowest id in a group.
+   * @param {ChargepointGroupIndex} groupIndex - The group.
+   * @returns {Chargepoint | null} The chargepoint, or null if the whole group is occupied.
+   */
+  private findFirstFreeChargepoint(groupIndex: ChargepointGroupIndex): Chargepoint | null {
+    const { chargepoints } = groupIndex
+    while (groupIndex.firstFreeIndex < chargepoints.length) {
+      const chargepoint = chargepoints[groupIndex.firstFreeIndex]
+      if (chargepoint.isAvailable()) {
+        return chargepoint
+      }
+      groupIndex.firstFreeIndex++
     }
+    return null
   }
 
-  public findAvailableChargepoint(): Chargepoint | null {
-    return this.chargepoints.find((cp) => cp.isAvailable()) || null
+  /**
+   * Finds a free chargepoint. When an EV is given, only chargepoints with a connector it supports
+   * are considered and the most powerful one is preferred.
+   * @param {ElectricVehicle} [ev] - The EV looking for a chargepoint.
+   * @returns {Chargepoint | null} The chargepoint, or null if none is available.
+   */
+  public findAvailableChargepoint(ev?: ElectricVehicle): Chargepoint | null {
+    if (!ev) {
+      return this.chargepoints.find((cp) => cp.isAvailable()) ?? null
+    }
+    // Groups hold consecutive ids, so among groups of equal power the first one with a free chargepoint has the lowest id
+    for (const groupIndex of this.groupsByPower) {
+      if (!ev.supportsConnector(groupIndex.group.connector)) {
+        continue
+      }
+      const chargepoint = this.findFirstFreeChargepoint(groupIndex)
+      if (chargepoint) {
+        return chargepoint
+      }
+    }
+    return null
+  }
+
+  /**
+   * Checks whether the station has any chargepoint, busy or not, the EV could charge at.
+   * @param {ElectricVehicle} ev - The EV to check.
+   * @returns {boolean} True if at least one chargepoint has a compatible connector.
+   */
+  public hasCompatibleChargepoint(ev: ElectricVehicle): boolean {
+    return this.layout.some((group) => group.count > 0 && ev.supportsConnector(group.connector))
   }
 
   public getTotalChargepoints(): number {
     return this.chargepoints.length
   }
+
+  public getQueueLength(): number {
+    return this.waitingQueue.length
+  }
+
+  /**
+   * Adds an arriving EV to the back of the waiting queue.
+   * @param {ElectricVehicle} ev - The arriving EV.
+   * @returns {boolean} False if the queue is full and the driver balks.
+   */
+  public enqueue(ev: ElectricVehicle): boolean {
+    if (this.waitingQueue.length >= this.maxQueueLength) {
+      return false
+    }
+    this.waitingQueue.push(ev)
+    return true
+  }
+
+  /**
+   * Assigns waiting EVs to free compatible chargepoints in arrival order. An EV with no compatible
+   * chargepoint free keeps its place in the queue while EVs behind it may be served.
+   * @returns {ChargepointAssignment[]} The assignments made, in queue order.
+   */
+  public dispatchQueue(): ChargepointAssignment[] {
+    const assignments: ChargepointAssignment[] = []
+    const stillWaiting: ElectricVehicle[] = []
+    for (const ev of this.waitingQueue) {
+      const chargepoint = this.findAvailableChargepoint(ev)
+      if (chargepoint && chargepoint.assignEV(ev)) {
+        assignments.push({ ev, chargepoint })
+      } else {
+        stillWaiting.push(ev)
+      }
+    }
+    this.waitingQueue = stillWaiting
+    return assignments
+  }
+
+  /**
+   * Sets the power of every charging chargepoint for the coming tick. Without a grid connection limit,
+   * or while the total request stays below it, every chargepoint gets what it requests.
+   * Otherwise the load management strategy shares the limit.
+   * @returns {number} The power requested but not allocated because of the limit, in kW.
+   */
+  public allocatePower(): number {
+    const chargingChargepoints = this.chargepoints.filter((cp) => !cp.isAvailable())
+    const requestedKw = chargingChargepoints.reduce((sum, cp) => sum + cp.getRequestedPowerKw(), 0)
+    if (this.gridConnectionLimitKw === null || requestedKw <= this.gridConnectionLimitKw) {
+      for (const chargepoint of chargingChargepoints) {
+        chargepoint.allocatedPowerKw = chargepoint.getRequestedPowerKw()
+      }
+      return 0
+    }
+    this.loadManagementStrategy.allocate(chargingChargepoints, this.gridConnectionLimitKw)
+    const allocatedKw = chargingChargepoints.reduce((sum, cp) => sum + cp.allocatedPowerKw, 0)
+    return Math.max(0, requestedKw - allocatedKw)
+  }
+
+  /**
+   * Removes the EVs whose drivers ran out of patience.
+   * @param {number} cutoffTick - EVs that arrived at or before this tick leave the queue.
+   * @returns {ElectricVehicle[]} The EVs that left, in queue order.
+   */
+  public removeImpatientEVs(cutoffTick: number): ElectricVehicle[] {
+    const impatientEVs = this.waitingQueue.filter((ev) => ev.arrivalTick <= cutoffTick)
+    if (impatientEVs.length > 0) {
+      this.waitingQueue = this.waitingQueue.filter((ev) => ev.arrivalTick > cutoffTick)
+    }
+    return impatientEVs
+  }
 }
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { EVChargingSimulation } from './index'
+
+describe('SimulationStatistics', () => {
+  it('takes the native-tick and the hourly peak from the same power series', () => {
+    const simulation = new EVChargingSimulation(20, { seed: 2, verbose: false, maxTicks: 96 * 14 })
+    simulation.run()
+    const { stats } = simulation
+
+    const hourlyAveragesKw = stats.hourlyEnergyKwh.map((_, hour) => {
+      const hourSeriesKw = stats.powerSeriesKw.slice(hour * 4, hour * 4 + 4)
+      return hourSeriesKw.reduce((sum, powerKw) => sum + powerKw, 0) / 4
+    })
+    expect(stats.actualMaxPowerDemandKw).toBe(Math.max(...stats.powerSeriesKw))
+    expect(stats.getHourlyMaxPowerDemandKw()).toBeCloseTo(Math.max(...hourlyAveragesKw), 9)
+    expect(stats.getHourlyMaxPowerDemandKw()).toBeLessThanOrEqual(stats.actualMaxPowerDemandKw)
+    stats.hourlyEnergyKwh.forEach((energyKwh, hour) => expect(hourlyAveragesKw[hour]).toBeCloseTo(energyKwh, 9))
+  })
+
+  it('reports the same peak at both resolutions for hourly ticks', () => {
+    const simulation = new EVChargingSimulation(20, {
+      seed: 2,
+      verbose: false,
+      maxTicks: 24 * 14,
+      config: { tickMinutes: 60 },
+    })
+    simulation.run()
+
+    expect(simulation.stats.getHourlyMaxPowerDemandKw()).toBeCloseTo(simulation.stats.actualMaxPowerDemandKw, 9)
+  })
+})
@@ -2,23 +2,489 @@
  * statistics.ts
  * Collects simulation statistics.
  */
+import type { SimulationCalendar } from './calendar'
+import { HOURS_PER_DAY, MONTHS_IN_YEAR } from './config'
+import type { RejectionReason } from './session'
+
+/**
+ * Totals of one chargepoint group, see `ChargepointGroup` in config.ts.
+ */
+export interface ChargepointGroupTotals {
+  energyKwh: number
+  peakPowerKw: number
+  /** Sum over all ticks of the number of occupied chargepoints in the group. */
+  occupiedChargepointTicks: number
+}
+
+/**
+ * Everything the statistics have recorded, as plain data, see `SimulationStatistics.getState`. The fields are those
+ * of `SimulationStatistics`, without the calendar.
+ */
+export interface SimulationStatisticsState {
+  totalEnergyConsumedKwh: number
+  actualMaxPowerDemandKw: number
+  totalChargingSessions: number
+  powerSeriesKw: number[]
+  hourlyEnergyKwh: number[]
+  dailyPeakPowerKw: number[]
+  dailyEnergyKwh: number[]
+  monthlySessionCounts: number[]
+  arrivalsByHour: number[]
+  requestedEnergyKwhByHour: number[]
+  rejectedArrivals: number
+  balkedArrivals: number
+  renegedArrivals: number
+  incompatibleArrivals: number
+  maxQueueLength: number
+  maxWaitingTimeMinutes: number
+  curtailedEnergyKwh: number
+  curtailedTicks: number
+  maxChargingDelayMinutes: number
+  rejectedEnergyKwh: number
+  outstandingEnergyKwh: number
+  departedUnservedEnergyKwh: number
+  departuresBeforeFull: number
+  occupiedTicksPerChargepoint: number[]
+  idleTicksPerChargepoint: number[]
+  groupTotals: Record<string, ChargepointGroupTotals>
+  queueLengthSum: number
+  totalWaitingTimeMinutes: number
+  totalChargingDelayMinutes: number
+  completedChargingSessions: number
+}
+
+/**
+ * Copies a series. Per-chargepoint series have holes for chargepoints that were never occupied, which become 0,
+ * since JSON has no holes.
+ * @param {number[]} values - The series.
+ * @returns {number[]} The copy.
+ */
+function copySeries(values: number[]): number[] {
+  return Array.from(values, (value) => value ?? 0)
+}
+
+/**
+ * Copies the totals of every chargepoint group.
+ * @param {Record<string, ChargepointGroupTotals>} groupTotals - The totals, keyed by group id.
+ * @returns {Record<string, ChargepointGroupTotals>} The copy.
+ */
+function copyGroupTotals(groupTotals: Record<string, ChargepointGroupTotals>): Record<string, ChargepointGroupTotals> {
+  return Object.fromEntries(Object.entries(groupTotals).map(([groupId, totals]) => [groupId, { ...totals }]))
+}
+
 export class SimulationStatistics {
   public totalEnergyConsumedKwh: number = 0
+  /** Highest power demand of any tick, see `powerSeriesKw`. */
   public actualMaxPowerDemandKw: number = 0
+  public totalChargingSessions: number = 0
+  /**
+   * Power demand in kW for every simulated tick, at the native tick resolution: the power the chargepoints actually
+   * drew, i.e. the energy delivered in the tick divided by its length. Load management keeps it within the grid limit.
+   */
+  public powerSeriesKw: number[] = []
+  /** Energy delivered in kWh for every simulated hour, which equals the hourly average power in kW. */
+  public hourlyEnergyKwh: number[] = []
+  /** Peak power demand in kW for every simulated day. Day `n` covers the ticks `n * ticksPerDay` onwards. */
+  public dailyPeakPowerKw: number[] = []
+  /** Energy delivered in kWh for every simulated day. */
+  public dailyEnergyKwh: number[] = []
+  /** Number of charging sessions started in each month (0 = January). */
+  public monthlySessionCounts: number[] = []
+  /** Number of arrivals per local hour of arrival (0-23), including arrivals without demand. */
+  public arrivalsByHour: number[] = []
+  /** Energy requested by arrivals per local hour of arrival (0-23). */
+  public requestedEnergyKwhByHour: number[] = []
+  /** Arrivals that wanted to charge but left without a chargepoint (balked + reneged + incompatible). */
+  public rejectedArrivals: number = 0
+  public balkedArrivals: number = 0
+  public renegedArrivals: number = 0
+  public incompatibleArrivals: number = 0
+  public maxQueueLength: number = 0
+  public maxWaitingTimeMinutes: number = 0
+  /** Energy the chargepoints requested but could not draw because of the grid connection limit. */
+  public curtailedEnergyKwh: number = 0
+  /** Number of ticks in which the grid connection limit was binding. */
+  public curtailedTicks: number = 0
+  /** Longest extra charging time caused by the grid connection limit, in minutes. */
+  public maxChargingDelayMinutes: number = 0
+  /** Energy requested by arrivals that were rejected. */
+  public rejectedEnergyKwh: number = 0
+  /** Energy still owed to EVs that were waiting or charging when the simulation stopped. */
+  public outstandingEnergyKwh: number = 0
+  /** Energy still needed by EVs that left at the end of their parking time before being fully charged. */
+  public departedUnservedEnergyKwh: number = 0
+  /** Number of EVs that left before being fully charged. */
+  public departuresBeforeFull: number = 0
+  /** Ticks each chargepoint (by id) had an EV attached. */
+  public occupiedTicksPerChargepoint: number[] = []
+  /** Ticks each chargepoint (by id) had an EV attached that did not draw any energy. */
+  public idleTicksPerChargepoint: number[] = []
+  /** Energy, peak power and occupancy per chargepoint group, keyed by group id. */
+  public groupTotals: Record<string, ChargepointGroupTotals> = {}
+  private queueLengthSum: number = 0
+  private totalWaitingTimeMinutes: number = 0
+  private totalChargingDelayMinutes: number = 0
+  private completedChargingSessions: number = 0
+  private calendar: SimulationCalendar
+  private ticksPerHour: number
+  private ticksPerDay: number
 
-  constructor() {
+  /**
+   * @param {SimulationCalendar} calendar - Maps ticks to dates, and defines the resolution of the simulation.
+   */
+  constructor(calendar: SimulationCalendar) {
+    this.calendar = calendar
+    this.ticksPerHour = calendar.ticksPerHour
+    this.ticksPerDay = calendar.ticksPerDay
     this.reset()
   }
 
   public reset(): void {
     this.totalEnergyConsumedKwh = 0
     this.actualMaxPowerDemandKw = 0
+    this.totalChargingSessions = 0
+    this.powerSeriesKw = []
+    this.hourlyEnergyKwh = []
+    this.dailyPeakPowerKw = []
+    this.dailyEnergyKwh = []
+    this.monthlySessionCounts = Array(MONTHS_IN_YEAR).fill(0)
+    this.arrivalsByHour = Array(HOURS_PER_DAY).fill(0)
+    this.requestedEnergyKwhByHour = Array(HOURS_PER_DAY).fill(0)
+    this.rejectedArrivals = 0
+    this.balkedArrivals = 0
+    this.renegedArrivals = 0
+    this.incompatibleArrivals = 0
+    this.maxQueueLength = 0
+    this.maxWaitingTimeMinutes = 0
+    this.curtailedEnergyKwh = 0
+    this.curtailedTicks = 0
+    this.maxChargingDelayMinutes = 0
+    this.rejectedEnergyKwh = 0
+    this.outstandingEnergyKwh = 0
+    this.departedUnservedEnergyKwh = 0
+    this.departuresBeforeFull = 0
+    this.occupiedTicksPerChargepoint = []
+    this.idleTicksPerChargepoint = []
+    this.groupTotals = {}
+    this.queueLengthSum = 0
+    this.totalWaitingTimeMinutes = 0
+    this.totalChargingDelayMinutes = 0
+    this.completedChargingSessions = 0
+  }
+
+  /**
+   * Returns a copy of everything recorded so far, e.g. to save it in a snapshot.
+   * @returns {SimulationStatisticsState} The recorded totals and series.
+   */
+  public getState(): SimulationStatisticsState {
+    return {
+      totalEnergyConsumedKwh: this.totalEnergyConsumedKwh,
+      actualMaxPowerDemandKw: this.actualMaxPowerDemandKw,
+      totalChargingSessions: this.totalChargingSessions,
+      powerSeriesKw: copySeries(this.powerSeriesKw),
+      hourlyEnergyKwh: copySeries(this.hourlyEnergyKwh),
+      dailyPeakPowerKw: copySeries(this.dailyPeakPowerKw),
+      dailyEnergyKwh: copySeries(this.dailyEnergyKwh),
+      monthlySessionCounts: copySeries(this.monthlySessionCounts),
+      arrivalsByHour: copySeries(this.arrivalsByHour),
+      requestedEnergyKwhByHour: copySeries(this.requestedEnergyKwhByHour),
+      rejectedArrivals: this.rejectedArrivals,
+      balkedArrivals: this.balkedArrivals,
+      renegedArrivals: this.renegedArrivals,
+      incompatibleArrivals: this.incompatibleArrivals,
+      maxQueueLength: this.maxQueueLength,
+      maxWaitingTimeMinutes: this.maxWaitingTimeMinutes,
+      curtailedEnergyKwh: this.curtailedEnergyKwh,
+      curtailedTicks: this.curtailedTicks,
+      maxChargingDelayMinutes: this.maxChargingDelayMinutes,
+      rejectedEnergyKwh: this.rejectedEnergyKwh,
+      outstandingEnergyKwh: this.outstandingEnergyKwh,
+      departedUnservedEnergyKwh: this.departedUnservedEnergyKwh,
+      departuresBeforeFull: this.departuresBeforeFull,
+      occupiedTicksPerChargepoint: copySeries(this.occupiedTicksPerChargepoint),
+      idleTicksPerChargepoint: copySeries(this.idleTicksPerChargepoint),
+      groupTotals: copyGroupTotals(this.groupTotals),
+      queueLengthSum: this.queueLengthSum,
+      totalWaitingTimeMinutes: this.totalWaitingTimeMinutes,
+      totalChargingDelayMinutes: this.totalChargingDelayMinutes,
+      completedChargingSessions: this.completedChargingSessions,
+    }
+  }
+
+  /**
+   * Replaces everything recorded with a copy of a state returned by `getState`.
+   * @param {SimulationStatisticsState} state - The recorded totals and series.
+   */
+  public restoreState(state: SimulationStatisticsState): void {
+    this.totalEnergyConsumedKwh = state.totalEnergyConsumedKwh
+    this.actualMaxPowerDemandKw = state.actualMaxPowerDemandKw
+    this.totalChargingSessions = state.totalChargingSessions
+    this.powerSeriesKw = copySeries(state.powerSeriesKw)
+    this.hourlyEnergyKwh = copySeries(state.hourlyEnergyKwh)
+    this.dailyPeakPowerKw = copySeries(state.dailyPeakPowerKw)
+    this.dailyEnergyKwh = copySeries(state.dailyEnergyKwh)
+    this.monthlySessionCounts = copySeries(state.monthlySessionCounts)
+    this.arrivalsByHour = copySeries(state.arrivalsByHour)
+    this.requestedEnergyKwhByHour = copySeries(state.requestedEnergyKwhByHour)
+    this.rejectedArrivals = state.rejectedArrivals
+    this.balkedArrivals = state.balkedArrivals
+    this.renegedArrivals = state.renegedArrivals
+    this.incompatibleArrivals = state.incompatibleArrivals
+    this.maxQueueLength = state.maxQueueLength
+    this.maxWaitingTimeMinutes = state.maxWaitingTimeMinutes
+    this.curtailedEnergyKwh = state.curtailedEnergyKwh
+    this.curtailedTicks = state.curtailedTicks
+    this.maxChargingDelayMinutes = state.maxChargingDelayMinutes
+    this.rejectedEnergyKwh = state.rejectedEnergyKwh
+    this.outstandingEnergyKwh = state.outstandingEnergyKwh
+    this.departedUnservedEnergyKwh = state.departedUnservedEnergyKwh
+    this.departuresBeforeFull = state.departuresBeforeFull
+    this.occupiedTicksPerChargepoint = copySeries(state.occupiedTicksPerChargepoint)
+    this.idleTicksPerChargepoint = copySeries(state.idleTicksPerChargepoint)
+    this.groupTotals = copyGroupTotals(state.groupTotals)
+    this.queueLengthSum = state.queueLengthSum
+    this.totalWaitingTimeMinutes = state.totalWaitingTimeMinutes
+    this.totalChargingDelayMinutes = state.totalChargingDelayMinutes
+    this.completedChargingSessions = state.completedChargingSessions
   }
 
-  public recordTickData(energyThisTickKwh: number, powerDemandThisTickKw: number): void {
+  public recordTickData(tick: number, energyThisTickKwh: number, powerDemandThisTickKw: number): void {
     this.totalEnergyConsumedKwh += energyThisTickKwh
     if (powerDemandThisTickKw > this.actualMaxPowerDemandKw) {
       this.actualMaxPowerDemandKw = powerDemandThisTickKw
     }
+
+    this.powerSeriesKw[tick] = powerDemandThisTickKw
+    const hourIndex = Math.floor(tick / this.ticksPerHour)
+    this.hourlyEnergyKwh[hourIndex] = (this.hourlyEnergyKwh[hourIndex] ?? 0) + energyThisTickKwh
+    const dayIndex = Math.floor(tick / this.ticksPerDay)
+    if (this.dailyPeakPowerKw[dayIndex] === undefined) {
+      this.dailyPeakPowerKw[dayIndex] = 0
+      this.dailyEnergyKwh[dayIndex] = 0
+    }
+    this.dailyEnergyKwh[dayIndex] += energyThisTickKwh
+    if (powerDemandThisTickKw > this.dailyPeakPowerKw[dayIndex]) {
+      this.dailyPeakPowerKw[dayIndex] = powerDemandThisTickKw
+    }
+  }
+
+  /**
+   * Records a charging session that started after the EV waited in the queue.
+   * @param {number} tick - The tick in which charging started.
+   * @param {number} waitingTicks - How many ticks the EV waited before getting a chargepoint.
+   */
+  public recordChargingSession(tick: number, waitingTicks: number = 0): void {
+    this.totalChargingSessions++
+    this.monthlySessionCounts[this.calendar.getMonth(tick)]++
+
+    const waitingTimeMinutes = waitingTicks * this.getMinutesPerTick()
+    this.totalWaitingTimeMinutes += waitingTimeMinutes
+    if (waitingTimeMinutes > this.maxWaitingTimeMinutes) {
+      this.maxWaitingTimeMinutes = waitingTimeMinutes
+    }
+  }
+
+  /**
+   * Records an arriving EV and the energy it requests.
+   * @param {number} hour - The local hour of arrival (0-23).
+   * @param {number} requestedKwh - The energy requested, 0 if the EV does not need to charge.
+   */
+  public recordArrival(hour: number, requestedKwh: number): void {
+    this.arrivalsByHour[hour]++
+    this.requestedEnergyKwhByHour[hour] += requestedKwh
+  }
+
+  /**
+   * Returns the average energy requested per arrival for each hour of arrival.
+   * @returns {number[]} 24 averages in kWh (0 for hours without arrivals), including arrivals without demand.
+   */
+  public getAverageRequestedEnergyKwhByHour(): number[] {
+    return this.requestedEnergyKwhByHour.map((energyKwh, hour) =>
+      this.arrivalsByHour[hour] > 0 ? energyKwh / this.arrivalsByHour[hour] : 0,
+    )
+  }
+
+  public recordRejectedArrival(reason: RejectionReason, requestedKwh: number): void {
+    this.rejectedArrivals++
+    this.rejectedEnergyKwh += requestedKwh
+    if (reason === 'balked') {
+      this.balkedArrivals++
+    } else if (reason === 'reneged') {
+      this.renegedArrivals++
+    } else {
+      this.incompatibleArrivals++
+    }
+  }
+
+  /**
+   * Records the number of EVs waiting at the end of a tick.
+   * @param {number} queueLength - The current queue length.
+   */
+  public recordQueueLength(queueLength: number): void {
+    this.queueLengthSum += queueLength
+    if (queueLength > this.maxQueueLength) {
+      this.maxQueueLength = queueLength
+    }
+  }
+
+  /**
+   * Records the power requested but not allocated in one tick because of the grid connection limit.
+   * @param {number} curtailedPowerKw - The curtailed power in kW.
+   */
+  public recordCurtailment(curtailedPowerKw: number): void {
+    if (curtailedPowerKw <= 0) {
+      return
+    }
+    this.curtailedTicks++
+    this.curtailedEnergyKwh += curtailedPowerKw / this.ticksPerHour
+  }
+
+  /**
+   * Records an EV reaching full charge and how much longer it took than at full chargepoint power.
+   * @param {number} delayTicks - Extra ticks caused by the grid connection limit.
+   */
+  public recordCompletedCharge(delayTicks: number): void {
+    const delayMinutes = delayTicks * this.getMinutesPerTick()
+    this.completedChargingSessions++
+    this.totalChargingDelayMinutes += delayMinutes
+    if (delayMinutes > this.maxChargingDelayMinutes) {
+      this.maxChargingDelayMinutes = delayMinutes
+    }
+  }
+
+  /**
+   * Returns the average extra charging time per completed session caused by the grid connection limit.
+   * @returns {number} The average delay in minutes.
+   */
+  public getAverageChargingDelayMinutes(): number {
+    return this.completedChargingSessions > 0 ? this.totalChargingDelayMinutes / this.completedChargingSessions : 0
+  }
+
+  /**
+   * Records an EV that left at the end of its parking time before being fully charged.
+   * @param {number} remainingEnergyKwh - The energy it still needed.
+   */
+  public recordDepartureBeforeFull(remainingEnergyKwh: number): void {
+    this.departuresBeforeFull++
+    this.departedUnservedEnergyKwh += remainingEnergyKwh
+  }
+
+  /**
+   * Records ticks of an occupied chargepoint.
+   * @param {number} chargepointId - The chargepoint id.
+   * @param {boolean} isCharging - False if the attached EV did not draw any energy in these ticks.
+   * @param {number} [ticks] - Number of ticks, defaults to one.
+   */
+  public recordChargepointOccupancy(chargepointId: number, isCharging: boolean, ticks: number = 1): void {
+    this.occupiedTicksPerChargepoint[chargepointId] = (this.occupiedTicksPerChargepoint[chargepointId] ?? 0) + ticks
+    if (!isCharging) {
+      this.idleTicksPerChargepoint[chargepointId] = (this.idleTicksPerChargepoint[chargepointId] ?? 0) + ticks
+    }
+  }
+
+  /**
+   * Records one tick of a chargepoint group.
+   * @param {string} groupId - The group id.
+   * @param {number} energyKwh - Energy delivered by the group's chargepoints this tick.
+   * @param {number} powerKw - Average power drawn by the group this tick.
+   * @param {number} occupiedChargepoints - Number of the group's chargepoints with an EV attached.
+   */
+  public recordGroupTick(groupId: string, energyKwh: number, powerKw: number, occupiedChargepoints: number): void {
+    const totals = (this.groupTotals[groupId] ??= { energyKwh: 0, peakPowerKw: 0, occupiedChargepointTicks: 0 })
+    totals.energyKwh += energyKwh
+    totals.occupiedChargepointTicks += occupiedChargepoints
+    if (powerKw > totals.peakPowerKw) {
+      totals.peakPowerKw = powerKw
+    }
+  }
+
+  /**
+   * Returns the energy that was wanted but never delivered: the demand of rejected arrivals,
+   * what EVs still needed when their parking time ended, and what is still owed to waiting and charging EVs.
+   * @returns {number} The unserved energy in kWh.
+   */
+  public getUnservedEnergyKwh(): number {
+    return this.rejectedEnergyKwh + this.departedUnservedEnergyKwh + this.outstandingEnergyKwh
+  }
+
+  /**
+   * Returns the time-averaged number of EVs waiting in the queue.
+   * @returns {number} The average queue length over all recorded ticks.
+   */
+  public getAverageQueueLength(): number {
+    return this.powerSeriesKw.length > 0 ? this.queueLengthSum / this.powerSeriesKw.length : 0
+  }
+
+  /**
+   * Returns the average time charged EVs waited for a chargepoint, including those that did not wait.
+   * @returns {number} The average waiting time in minutes.
+   */
+  public getAverageWaitingTimeMinutes(): number {
+    return this.totalChargingSessions > 0 ? this.totalWaitingTimeMinutes / this.totalChargingSessions : 0
+  }
+
+  private getMinutesPerTick(): number {
+    return 60 / this.ticksPerHour
+  }
+
+  /**
+   * Converts a number of ticks to hours.
+   * @param {number} ticks - A duration in ticks.
+   * @returns {number} The duration in hours.
+   */
+  public ticksToHours(ticks: number): number {
+    return ticks / this.ticksPerHour
+  }
+
+  /**
+   * Returns the highest hourly average of `powerSeriesKw`, the series `actualMaxPowerDemandKw` is the maximum of,
+   * so the hourly peak is never above the native-tick peak.
+   * @returns {number} The hourly peak power demand in kW.
+   */
+  public getHourlyMaxPowerDemandKw(): number {
+    let maxPowerKw = 0
+    for (let hourStart = 0; hourStart < this.powerSeriesKw.length; hourStart += this.ticksPerHour) {
+      let powerSumKw = 0
+      for (let tick = hourStart; tick < Math.min(hourStart + this.ticksPerHour, this.powerSeriesKw.length); tick++) {
+        powerSumKw += this.powerSeriesKw[tick]
+      }
+      maxPowerKw = Math.max(maxPowerKw, powerSumKw / this.ticksPerHour)
+    }
+    return maxPowerKw
+  }
+
+  /**
+   * Returns the number of days covered by the recorded ticks (a partial day counts as one).
+   * @returns {number} The number of simulated days.
+   */
+  public getSimulatedDays(): number {
+    return this.dailyPeakPowerKw.length
+  }
+
+  /**
+   * Finds the day on which the overall maximum power demand was first reached.
+   * @returns {number} Zero-based index of the peak day (0 if nothing was recorded).
+   */
+  public getPeakDayIndex(): number {
+    const peakDayIndex = this.dailyPeakPowerKw.indexOf(this.actualMaxPowerDemandKw)
+    return peakDayIndex === -1 ? 0 : peakDayIndex
+  }
+
+  /**
+   * Returns the per-tick power demand of a single day.
+   * @param {number} dayIndex - Zero-based day of the simulation.
+   * @returns {number[]} The power demand in kW for each tick of that day.
+   */
+  public getDayPowerSeries(dayIndex: number): number[] {
+    return this.powerSeriesKw.slice(dayIndex * this.ticksPerDay, (dayIndex + 1) * this.ticksPerDay)
+  }
+
+  /**
+   * Returns the hourly average power demand of a single day.
+   * @param {number} dayIndex - Zero-based day of the simulation.
+   * @returns {number[]} The average power demand in kW for each hour of that day.
+   */
+  public getDayHourlyPowerSeries(dayIndex: number): number[] {
+    return this.hourlyEnergyKwh.slice(dayIndex * HOURS_PER_DAY, (dayIndex + 1) * HOURS_PER_DAY)
   }
 }
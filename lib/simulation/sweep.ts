@@ -0,0 +1,118 @@
+/**
+ * sweep.ts
+ * Runs the simulation over a range of chargepoint counts (and optionally powers) to show how the
+ * concurrency factor falls as the station grows.
+ */
+import { DEFAULT_SIMULATION_SEED, createSimulationConfig, type SimulationConfig } from './config'
+import { toCsv, type CsvColumn } from './csv'
+import { EVChargingSimulation, type SimulationEngine } from './index'
+import type { ArrivalSource } from './arrivals'
+
+export interface SweepOptions {
+  /** Station sizes to simulate, e.g. 1 to 30. */
+  chargepointCounts: number[]
+  /** Chargepoint powers in kW to simulate for every count. Defaults to `config.chargepointPowerKw`. */
+  chargepointPowersKw?: number[]
+  seed?: number
+  verbose?: boolean
+  /** Engine of every run, see `SimulationEngine`. Defaults to 'tick'. */
+  engine?: SimulationEngine
+  /** Number of ticks of every run. Defaults to one year. */
+  maxTicks?: number
+  /** Config shared by all runs. Its `stationLayout` is ignored: every run uses identical chargepoints. */
+  config?: Partial<SimulationConfig>
+  /** Arrivals of every run, e.g. a recorded trace, instead of sampling them. */
+  arrivalSource?: ArrivalSource
+}
+
+/**
+ * Result of a single run of a sweep.
+ */
+export interface SweepPoint {
+  numChargepoints: number
+  chargepointPowerKw: number
+  theoreticalMaxPowerDemandKw: number
+  actualMaxPowerDemandKw: number
+  /** Actual over theoretical max power demand, in percent. */
+  concurrencyFactor: number
+  totalEnergyConsumedKwh: number
+  totalChargingSessions: number
+  rejectedArrivals: number
+}
+
+/**
+ * Runs one simulation per combination of chargepoint count and power, with the same seed for all of them.
+ * @param {SweepOptions} options - The counts and powers to sweep and the shared config.
+ * @returns {SweepPoint[]} One point per run, ordered by power, then count.
+ * @throws {Error} If a count is not a positive integer or no counts are given.
+ */
+export function runChargepointSweep(options: SweepOptions): SweepPoint[] {
+  const {
+    chargepointCounts,
+    seed = DEFAULT_SIMULATION_SEED,
+    verbose = false,
+    engine,
+    maxTicks,
+    config = {},
+    arrivalSource,
+  } = options
+  if (chargepointCounts.length === 0) {
+    throw new Error('A sweep needs at least one chargepoint count.')
+  }
+  for (const count of chargepointCounts) {
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`Chargepoint counts must be positive integers, got ${count}.`)
+    }
+  }
+
+  const powersKw = options.chargepointPowersKw ?? [createSimulationConfig(config).chargepointPowerKw]
+  const points: SweepPoint[] = []
+  for (const chargepointPowerKw of powersKw) {
+    for (const numChargepoints of chargepointCounts) {
+      const simulation = new EVChargingSimulation(numChargepoints, {
+        seed,
+        verbose,
+        engine,
+        maxTicks,
+        config: { ...config, stationLayout: null, chargepointPowerKw },
+        arrivalSource,
+      })
+      const stats = simulation.run()
+      const theoreticalMaxPowerDemandKw = numChargepoints * chargepointPowerKw
+      points.push({
+        numChargepoints,
+        chargepointPowerKw,
+        theoreticalMaxPowerDemandKw,
+        actualMaxPowerDemandKw: stats.actualMaxPowerDemandKw,
+        concurrencyFactor: (stats.actualMaxPowerDemandKw / theoreticalMaxPowerDemandKw) * 100,
+        totalEnergyConsumedKwh: stats.totalEnergyConsumedKwh,
+        totalChargingSessions: stats.totalChargingSessions,
+        rejectedArrivals: stats.rejectedArrivals,
+      })
+    }
+  }
+  return points
+}
+
+/**
+ * CSV columns of a sweep point, also used by the trace replay export.
+ */
+export const SWEEP_CSV_COLUMNS: CsvColumn<SweepPoint>[] = [
+  { header: 'chargepoints', value: (point) => point.numChargepoints },
+  { header: 'chargepoint_power_kw', value: (point) => point.chargepointPowerKw },
+  { header: 'theoretical_max_power_kw', value: (point) => point.theoreticalMaxPowerDemandKw },
+  { header: 'actual_max_power_kw', value: (point) => point.actualMaxPowerDemandKw.toFixed(2) },
+  { header: 'concurrency_factor_percent', value: (point) => point.concurrencyFactor.toFixed(2) },
+  { header: 'energy_kwh', value: (point) => point.totalEnergyConsumedKwh.toFixed(2) },
+  { header: 'charging_sessions', value: (point) => point.totalChargingSessions },
+  { header: 'rejected_arrivals', value: (point) => point.rejectedArrivals },
+]
+
+/**
+ * Serializes sweep results as CSV, one line per run.
+ * @param {SweepPoint[]} points - The sweep results.
+ * @returns {string} The CSV text with a header line.
+ */
+export function sweepToCsv(points: SweepPoint[]): string {
+  return toCsv(points, SWEEP_CSV_COLUMNS)
+}
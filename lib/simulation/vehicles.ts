@@ -0,0 +1,237 @@
+/**
+ * vehicles.ts
+ * Vehicle model catalogue, charging curves and the fleet mix sampled per arrival.
+ */
+import type { ConnectorType } from './config'
+import type { DiscreteDistributionSpec } from './distributions'
+
+/**
+ * A step of a charging curve: from `socPercent` on, the vehicle accepts at most `maxPowerKw`.
+ * The curve is a step function so the charging power stays constant between breakpoints.
+ */
+export interface ChargingCurveStep {
+  socPercent: number
+  maxPowerKw: number
+}
+
+export interface VehicleModel {
+  id: string
+  name: string
+  batteryCapacityKwh: number
+  /** Maximum power of the on-board charger on AC chargepoints. */
+  maxAcPowerKw: number
+  /** Maximum power on DC chargepoints, or null if the vehicle cannot charge on DC. */
+  maxDcPowerKw: number | null
+  connectors: ConnectorType[]
+  /** Steps sorted by state of charge, the first one starting at 0%. Limits AC and DC charging alike. */
+  chargingCurve: ChargingCurveStep[]
+}
+
+/**
+ * Share of arriving vehicles of a given model.
+ */
+export interface FleetMixItem {
+  modelId: string
+  probability: number
+}
+
+/**
+ * Vehicle used when no model is given: accepts whatever the chargepoint offers, up to 350 kW.
+ */
+export const GENERIC_VEHICLE_MODEL: VehicleModel = {
+  id: 'generic',
+  name: 'Generic EV',
+  batteryCapacityKwh: 100,
+  maxAcPowerKw: 22,
+  maxDcPowerKw: 350,
+  connectors: ['type2', 'ccs', 'chademo'],
+  chargingCurve: [{ socPercent: 0, maxPowerKw: 350 }],
+}
+
+/**
+ * Id of the vehicle of an arrival that comes without a vehicle model, see `getRecordedSessionVehicleModel`.
+ */
+export const RECORDED_SESSION_VEHICLE_MODEL_ID = 'recorded-session'
+
+/**
+ * Returns the vehicle of an arrival that comes without a vehicle model, e.g. a recorded session: it accepts the full
+ * power of any chargepoint up to 350 kW and its battery holds at least the requested energy, so only the chargepoint
+ * and the dwell time limit the session.
+ * @param {number} energyNeededKwh - Energy the EV wants to charge.
+ * @returns {VehicleModel} The vehicle model.
+ */
+export function getRecordedSessionVehicleModel(energyNeededKwh: number): VehicleModel {
+  return {
+    ...GENERIC_VEHICLE_MODEL,
+    id: RECORDED_SESSION_VEHICLE_MODEL_ID,
+    name: 'Recorded session',
+    batteryCapacityKwh: Math.max(GENERIC_VEHICLE_MODEL.batteryCapacityKwh, energyNeededKwh),
+    maxAcPowerKw: 350,
+  }
+}
+
+/**
+ * Default vehicle model catalogue, keyed by model id. Figures are typical for each vehicle class.
+ */
+export const VEHICLE_MODELS: Record<string, VehicleModel> = {
+  'small-city': {
+    id: 'small-city',
+    name: 'Small city car',
+    batteryCapacityKwh: 40,
+    maxAcPowerKw: 7.4,
+    maxDcPowerKw: 50,
+    connectors: ['type2', 'ccs'],
+    chargingCurve: [
+      { socPercent: 0, maxPowerKw: 50 },
+      { socPercent: 60, maxPowerKw: 35 },
+      { socPercent: 80, maxPowerKw: 20 },
+      { socPercent: 95, maxPowerKw: 5 },
+    ],
+  },
+  'compact-chademo': {
+    id: 'compact-chademo',
+    name: 'Compact (CHAdeMO)',
+    batteryCapacityKwh: 40,
+    maxAcPowerKw: 6.6,
+    maxDcPowerKw: 46,
+    connectors: ['type2', 'chademo'],
+    chargingCurve: [
+      { socPercent: 0, maxPowerKw: 46 },
+      { socPercent: 50, maxPowerKw: 35 },
+      { socPercent: 80, maxPowerKw: 15 },
+      { socPercent: 95, maxPowerKw: 5 },
+    ],
+  },
+  compact: {
+    id: 'compact',
+    name: 'Compact',
+    batteryCapacityKwh: 58,
+    maxAcPowerKw: 11,
+    maxDcPowerKw: 120,
+    connectors: ['type2', 'ccs'],
+    chargingCurve: [
+      { socPercent: 0, maxPowerKw: 120 },
+      { socPercent: 40, maxPowerKw: 90 },
+      { socPercent: 70, maxPowerKw: 50 },
+      { socPercent: 85, maxPowerKw: 25 },
+      { socPercent: 95, maxPowerKw: 7 },
+    ],
+  },
+  midsize: {
+    id: 'midsize',
+    name: 'Mid-size SUV',
+    batteryCapacityKwh: 77,
+    maxAcPowerKw: 11,
+    maxDcPowerKw: 170,
+    connectors: ['type2', 'ccs'],
+    chargingCurve: [
+      { socPercent: 0, maxPowerKw: 170 },
+      { socPercent: 35, maxPowerKw: 130 },
+      { socPercent: 60, maxPowerKw: 80 },
+      { socPercent: 80, maxPowerKw: 40 },
+      { socPercent: 95, maxPowerKw: 8 },
+    ],
+  },
+  'premium-800v': {
+    id: 'premium-800v',
+    name: 'Premium (800 V)',
+    batteryCapacityKwh: 84,
+    maxAcPowerKw: 11,
+    maxDcPowerKw: 240,
+    connectors: ['type2', 'ccs'],
+    chargingCurve: [
+      { socPercent: 0, maxPowerKw: 240 },
+      { socPercent: 50, maxPowerKw: 200 },
+      { socPercent: 80, maxPowerKw: 60 },
+      { socPercent: 95, maxPowerKw: 10 },
+    ],
+  },
+  'plug-in-hybrid': {
+    id: 'plug-in-hybrid',
+    name: 'Plug-in hybrid',
+    batteryCapacityKwh: 13,
+    maxAcPowerKw: 3.7,
+    maxDcPowerKw: null,
+    connectors: ['type2'],
+    chargingCurve: [
+      { socPercent: 0, maxPowerKw: 3.7 },
+      { socPercent: 95, maxPowerKw: 2 },
+    ],
+  },
+}
+
+/**
+ * Default fleet mix of arriving vehicles.
+ */
+export const DEFAULT_FLEET_MIX: FleetMixItem[] = [
+  { modelId: 'small-city', probability: 0.15 },
+  { modelId: 'compact-chademo', probability: 0.05 },
+  { modelId: 'compact', probability: 0.35 },
+  { modelId: 'midsize', probability: 0.25 },
+  { modelId: 'premium-800v', probability: 0.1 },
+  { modelId: 'plug-in-hybrid', probability: 0.1 },
+]
+
+/**
+ * Describes a fleet mix as a discrete distribution over the indices of its items.
+ * @param {FleetMixItem[]} fleetMix - The fleet mix.
+ * @returns {DiscreteDistributionSpec} The distribution of the index of the sampled item.
+ */
+export function getFleetMixDistributionSpec(fleetMix: FleetMixItem[]): DiscreteDistributionSpec {
+  return { type: 'discrete', items: fleetMix.map((item, index) => ({ value: index, probability: item.probability })) }
+}
+
+/**
+ * Returns the power a charging curve allows at a given state of charge.
+ * @param {ChargingCurveStep[]} curve - The charging curve, sorted by state of charge.
+ * @param {number} socPercent - The state of charge in percent.
+ * @returns {number} The maximum power in kW (Infinity for an empty curve).
+ */
+export function getChargingCurvePowerKw(curve: ChargingCurveStep[], socPercent: number): number {
+  let powerKw = Infinity
+  for (const step of curve) {
+    if (step.socPercent > socPercent) {
+      break
+    }
+    powerKw = step.maxPowerKw
+  }
+  return powerKw
+}
+
+/**
+ * Returns the power a vehicle can accept on a connector at a given state of charge.
+ * @param {VehicleModel} model - The vehicle model.
+ * @param {ConnectorType} connector - The connector of the chargepoint.
+ * @param {number} socPercent - The state of charge in percent.
+ * @returns {number} The acceptance in kW, 0 if the vehicle cannot charge on that connector.
+ */
+export function getAcceptancePowerKw(model: VehicleModel, connector: ConnectorType, socPercent: number): number {
+  // Type 2 is the only AC connector, CCS and CHAdeMO are DC
+  const connectorLimitKw = connector === 'type2' ? model.maxAcPowerKw : (model.maxDcPowerKw ?? 0)
+  return Math.min(connectorLimitKw, getChargingCurvePowerKw(model.chargingCurve, socPercent))
+}
+
+/**
+ * Validates a vehicle model.
+ * @param {VehicleModel} model - The model to check.
+ * @throws {Error} If the battery, power limits or charging curve are invalid.
+ */
+export function validateVehicleModel(model: VehicleModel): void {
+  if (!(model.batteryCapacityKwh > 0)) {
+    throw new Error(`Vehicle model "${model.id}" must have a positive battery capacity.`)
+  }
+  if (!(model.maxAcPowerKw > 0) || (model.maxDcPowerKw !== null && !(model.maxDcPowerKw > 0))) {
+    throw new Error(`Vehicle model "${model.id}" must have positive AC and DC power limits.`)
+  }
+  if (model.chargingCurve.length === 0 || model.chargingCurve[0].socPercent !== 0) {
+    throw new Error(`The charging curve of vehicle model "${model.id}" must start at 0% state of charge.`)
+  }
+  model.chargingCurve.forEach((step, index) => {
+    if (!(step.maxPowerKw > 0)) {
+      throw new Error(`The charging curve of vehicle model "${model.id}" must only contain positive power values.`)
+    }
+    if (index > 0 && step.socPercent <= model.chargingCurve[index - 1].socPercent) {
+      throw new Error(`The charging curve of vehicle model "${model.id}" must be sorted by state of charge.`)
+    }
+  })
+}
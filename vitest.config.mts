@@ -0,0 +1,9 @@
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    // Same as the `@/*` path in tsconfig.json
+    alias: { '@': fileURLToPath(new URL('./', import.meta.url)) },
+  },
+})